@@ -0,0 +1,133 @@
+// scripts/number-caller.ts - Calls numbers for every active game, independent of the host's browser
+//
+// Usage:
+//   npm run caller                      Against Supabase - needs SUPABASE_URL and
+//                                       SUPABASE_SERVICE_ROLE_KEY (VITE_ names also work)
+//   npm run caller -- --stand-in        Against an in-memory stand-in database with three
+//                                       demo games; one is paused and resumed along the way
+//                                       and one is scheduled to start a few seconds in
+//
+// Options:
+//   --interval <ms>   Default call interval for games without one (default 8000)
+//   --tick <ms>       How often games are checked (default 1000)
+//
+// Stops on Ctrl+C. With --stand-in it also exits once every demo game is over.
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  NumberCaller,
+  createSupabaseCallerDatabase,
+  createStandInCallerDatabase,
+  createStandInNumbers,
+  DEFAULT_CALL_INTERVAL,
+  MIN_CALL_INTERVAL,
+  type StandInGame
+} from '../src/services/number-caller';
+
+const args = process.argv.slice(2);
+
+const getNumberOption = (name: string, fallback: number): number => {
+  const index = args.indexOf(name);
+  const value = index >= 0 ? parseInt(args[index + 1], 10) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const tickMs = getNumberOption('--tick', 1000);
+const defaultCallInterval = getNumberOption('--interval', DEFAULT_CALL_INTERVAL);
+
+const createDemoGame = (id: string, seed: number, totalNumbers: number, countdownTime: number): StandInGame => ({
+  id,
+  status: 'countdown',
+  call_interval: MIN_CALL_INTERVAL,
+  session_numbers: createStandInNumbers(seed, totalNumbers),
+  game_state: {
+    isActive: false,
+    isCountdown: true,
+    countdownTime,
+    gameOver: false,
+    calledNumbers: [],
+    currentNumber: null,
+    totalNumbersCalled: 0
+  }
+});
+
+// Waits in setup until its countdown is due, like a game created with a start time
+const createScheduledDemoGame = (id: string, seed: number, totalNumbers: number, startsInSeconds: number): StandInGame => ({
+  ...createDemoGame(id, seed, totalNumbers, 0),
+  status: 'setup',
+  booked_tickets: 6,
+  scheduled_start_at: new Date(Date.now() + startsInSeconds * 1000).toISOString(),
+  countdown_seconds: 5,
+  game_state: {
+    isActive: false,
+    isCountdown: false,
+    countdownTime: 0,
+    gameOver: false,
+    calledNumbers: [],
+    currentNumber: null,
+    totalNumbersCalled: 0
+  }
+});
+
+const runStandIn = () => {
+  // Short games so a local run finishes in well under a minute
+  const db = createStandInCallerDatabase([
+    createDemoGame('demo-1', 1, 10, 3),
+    createDemoGame('demo-2', 2, 8, 2),
+    createScheduledDemoGame('demo-3', 3, 6, 8)
+  ]);
+  const caller = new NumberCaller(db, { tickMs: Math.min(tickMs, 250), defaultCallInterval });
+
+  caller.start();
+
+  // Pause one game for a few seconds to show calls stop and pick up again
+  setTimeout(() => {
+    console.log('⏸️ Pausing demo-1');
+    db.setStatus('demo-1', 'paused');
+  }, 9000);
+  setTimeout(() => {
+    console.log('▶️ Resuming demo-1');
+    db.setStatus('demo-1', 'active');
+  }, 14000);
+
+  const watcher = setInterval(() => {
+    const games = Array.from(db.games.values());
+    if (games.every(game => game.game_state.gameOver)) {
+      clearInterval(watcher);
+      caller.stop();
+      for (const game of games) {
+        console.log(`🎲 ${game.id}: ${game.game_state.calledNumbers.join(', ')}`);
+      }
+    }
+  }, 500);
+};
+
+const runSupabase = () => {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceKey) {
+    console.error('❌ Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or run with --stand-in');
+    process.exit(1);
+  }
+
+  const client = createClient(url, serviceKey, {
+    auth: { autoRefreshToken: false, persistSession: false }
+  });
+  const caller = new NumberCaller(createSupabaseCallerDatabase(client), { tickMs, defaultCallInterval });
+
+  caller.start();
+
+  const shutdown = () => {
+    caller.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+if (args.includes('--stand-in')) {
+  runStandIn();
+} else {
+  runSupabase();
+}
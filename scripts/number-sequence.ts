@@ -0,0 +1,58 @@
+// scripts/number-sequence.ts - Regenerates a game's call order from its seed
+//
+// Usage:
+//   npm run sequence -- --seed <seed>     Call order for a seed, e.g. the seed a
+//                                         finished game revealed in session_metadata
+//   npm run sequence                      Fresh crypto-seeded sequence
+//
+// Options:
+//   --total <n>       Numbers in play: 90 (default) or 75 for bingo
+//   --version <v>     Algorithm version from session_metadata.algorithmVersion
+//                     (default: current version)
+
+import {
+  generateNumberSequence,
+  getNumberSequenceAlgorithm,
+  CURRENT_NUMBER_SEQUENCE_VERSION,
+  NUMBER_SEQUENCE_ALGORITHMS,
+  type NumberSequenceAlgorithmVersion
+} from '../src/services/number-sequence';
+
+const args = process.argv.slice(2);
+
+const getOption = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const run = async () => {
+  const seed = getOption('--seed');
+  const total = parseInt(getOption('--total') || '90', 10);
+  const version = parseInt(getOption('--version') || `${CURRENT_NUMBER_SEQUENCE_VERSION}`, 10);
+
+  if (total !== 90 && total !== 75) {
+    console.error('❌ --total must be 90 or 75');
+    process.exit(1);
+  }
+
+  if (!NUMBER_SEQUENCE_ALGORITHMS[version as NumberSequenceAlgorithmVersion]) {
+    console.error(`❌ Unknown algorithm version ${version}`);
+    process.exit(1);
+  }
+
+  const result = await generateNumberSequence(total, {
+    source: seed ? 'seeded' : 'crypto',
+    seed,
+    version: version as NumberSequenceAlgorithmVersion
+  });
+  const algorithm = getNumberSequenceAlgorithm(result.algorithmVersion);
+
+  console.log(`🎲 Seed:      ${result.seed} (${result.source})`);
+  console.log(`⚙️ Algorithm: v${algorithm.version} ${algorithm.name}`);
+  console.log(`📋 Sequence:  ${result.sequence.join(', ')}`);
+};
+
+run().catch(error => {
+  console.error(`❌ ${error.message || error}`);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+// scripts/validate-ticket-sets.ts - Validates ticket set files before they reach hosts
+//
+// Usage: npm run validate:ticket-sets [-- path/to/set.json ...]
+// Without arguments every file in public/data is checked.
+// Exits with code 1 if any set has errors.
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { validateTicketSetRows } from '../src/services/ticket-set-validator';
+
+const DATA_DIR = join(process.cwd(), 'public', 'data');
+
+const getDefaultFiles = (): string[] =>
+  readdirSync(DATA_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => join(DATA_DIR, file));
+
+const validateFile = (file: string): boolean => {
+  const name = relative(process.cwd(), file);
+  console.log(`\n🎫 ${name}`);
+
+  let rows: unknown;
+  try {
+    rows = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    console.log(`  ❌ Could not read file: ${error.message}`);
+    return false;
+  }
+
+  const result = validateTicketSetRows(rows);
+
+  for (const set of result.sets) {
+    if (set.errors.length === 0) {
+      console.log(`  ✅ Set ${set.setId}: ${set.ticketCount} tickets`);
+      continue;
+    }
+
+    console.log(`  ❌ Set ${set.setId}: ${set.errors.length} error(s)`);
+    for (const error of set.errors) {
+      console.log(`     - ${error}`);
+    }
+  }
+
+  for (const error of result.errors) {
+    console.log(`  ❌ ${error}`);
+  }
+
+  const failedSets = result.sets.filter(set => set.errors.length > 0).length;
+  console.log(
+    `  ${result.valid ? '✅' : '❌'} ${result.sets.length} sets, ${result.ticketCount} tickets, ` +
+    `${result.rowCount} rows - ${failedSets} set(s) with errors, ${result.errors.length} file error(s)`
+  );
+
+  return result.valid;
+};
+
+const files = process.argv.slice(2).length > 0 ? process.argv.slice(2) : getDefaultFiles();
+const results = files.map(validateFile);
+const failed = results.filter(valid => !valid).length;
+
+console.log(`\n${failed === 0 ? '✅' : '❌'} ${files.length - failed}/${files.length} ticket set file(s) valid`);
+process.exit(failed === 0 ? 0 : 1);
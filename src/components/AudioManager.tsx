@@ -1,6 +1,10 @@
 // src/components/AudioManager.tsx - FIXED: Better user audio experience
 import React, { useEffect, useRef, useCallback, useState } from 'react';
 import { Prize } from '@/services/supabase';
+import { isBingoVariant, getBingoLetter } from '@/services/game-variants';
+import { formatStoredTicketIds, type TicketIdFormat } from '@/services/ticket-ids';
+import { getTieAnnouncement } from '@/services/prize-ties';
+import { getSpokenPrizeName } from '@/services/prize-engine';
 
 interface AudioManagerProps {
   currentNumber: number | null;
@@ -11,6 +15,10 @@ interface AudioManagerProps {
   onAudioStarted?: (number: number) => void;
   forceEnable?: boolean;
   speechRate?: number;
+  gameVariant?: string;
+  // Winners are announced in the game's ticket ID scheme when these are given
+  tickets?: { [ticketId: string]: any };
+  ticketIdFormat?: TicketIdFormat;
 }
 interface AudioQueueItem {
   id: string;
@@ -121,7 +129,10 @@ export const AudioManager: React.FC<AudioManagerProps> = ({
   onPrizeAudioComplete,
   onAudioStarted,
   speechRate = 1.0,
-  forceEnable = false
+  forceEnable = false,
+  gameVariant,
+  tickets,
+  ticketIdFormat
 }) => {
   
 const [isAudioSupported, setIsAudioSupported] = useState(false);
@@ -154,6 +165,8 @@ useEffect(() => {
   const lastCalledNumber = useRef<number | null>(null);
   const announcedPrizes = useRef<Set<string>>(new Set());
   const announcedGameOver = useRef<boolean>(false);
+  // correctedAt of the last correction heard; undefined until the game state loads
+  const lastCorrectionAt = useRef<string | null | undefined>(undefined);
   const audioQueue = useRef<AudioQueueItem[]>([]);
   const isProcessingQueue = useRef<boolean>(false);
   const currentUtterance = useRef<SpeechSynthesisUtterance | null>(null);
@@ -584,13 +597,51 @@ useEffect(() => {
   }, [isAudioSupported, isAudioEnabled, processQueue]);
 
 
+// Handle call corrections - runs before the number effect so the number the
+// board falls back to isn't announced again
+useEffect(() => {
+  if (!gameState) return;
+
+  const correction = gameState.lastCorrection;
+  const correctedAt = correction?.correctedAt ?? null;
+
+  // Corrections made before this screen loaded aren't announced
+  if (lastCorrectionAt.current === undefined) {
+    lastCorrectionAt.current = correctedAt;
+    return;
+  }
+  if (!correction || correctedAt === lastCorrectionAt.current) return;
+
+  lastCorrectionAt.current = correctedAt;
+  lastCalledNumber.current = currentNumber;
+  audioQueue.current = audioQueue.current.filter(item => item.id !== `number-${correction.number}`);
+
+  const revertedPrizes: { id: string; name: string }[] = correction.revertedPrizes || [];
+  revertedPrizes.forEach(prize => announcedPrizes.current.delete(prize.id));
+
+  let announcement = `Correction! Number ${correction.number} has been cancelled.`;
+  if (revertedPrizes.length > 0) {
+    announcement += ` ${revertedPrizes.map(prize => prize.name).join(' and ')} ${revertedPrizes.length === 1 ? 'is' : 'are'} back in play.`;
+  }
+
+  console.log(`↩️ Announcing correction: ${correction.number} cancelled`);
+  addToQueue({
+    id: `correction-${correctedAt}`,
+    text: announcement,
+    priority: 'high'
+  });
+}, [gameState, currentNumber, addToQueue]);
+
 // Handle number announcements
 useEffect(() => {
   // ✅ SOLUTION 3: Don't announce numbers if blocked by prize announcement
   if (currentNumber && currentNumber !== lastCalledNumber.current && !isBlockedForAnnouncement) {
     lastCalledNumber.current = currentNumber;
     
-    const callText = numberCalls[currentNumber] || `Number ${currentNumber}`;
+    // 75-ball calls the column letter first: "B, 7"
+    const callText = isBingoVariant(gameVariant)
+      ? `${getBingoLetter(currentNumber)}, ${currentNumber}`
+      : numberCalls[currentNumber] || `Number ${currentNumber}`;
     
     console.log(`📢 Announcing number: ${currentNumber} - will trigger timer continuation`);
     
@@ -613,34 +664,41 @@ useEffect(() => {
       }
     });
   }
-}, [currentNumber, addToQueue, onAudioComplete, isBlockedForAnnouncement, onAudioStarted]);
+}, [currentNumber, addToQueue, onAudioComplete, isBlockedForAnnouncement, onAudioStarted, gameVariant]);
 // Handle prize announcements
 useEffect(() => {
   prizes.forEach(prize => {
     if (prize.won && !announcedPrizes.current.has(prize.id)) {
       announcedPrizes.current.add(prize.id);
       
-      let announcement = `Congratulations! ${prize.name} has been won`;
+      const prizeName = getSpokenPrizeName(prize);
+      let announcement = `Congratulations! ${prizeName} has been won`;
+      const spokenTicket = (ticketId: string) => formatStoredTicketIds(ticketId, tickets, ticketIdFormat);
       
       if (prize.winners && prize.winners.length > 0) {
         if (prize.winners.length === 1) {
           const winner = prize.winners[0];
-          announcement += ` by ${winner.name} with ticket ${winner.ticketId}`;
+          announcement += ` by ${winner.name} with ticket ${spokenTicket(winner.ticketId)}`;
         } else if (prize.winners.length === 2) {
           // For 2 winners, mention both
           const winner1 = prize.winners[0];
           const winner2 = prize.winners[1];
-          announcement += ` by ${winner1.name} with ticket ${winner1.ticketId} and ${winner2.name} with ticket ${winner2.ticketId}`;
+          announcement += ` by ${winner1.name} with ticket ${spokenTicket(winner1.ticketId)} and ${winner2.name} with ticket ${spokenTicket(winner2.ticketId)}`;
         } else {
           // For 3+ winners, mention count and first winner as example
           const firstWinner = prize.winners[0];
-          announcement += ` by ${prize.winners.length} players including ${firstWinner.name} with ticket ${firstWinner.ticketId}`;
+          announcement += ` by ${prize.winners.length} players including ${firstWinner.name} with ticket ${spokenTicket(firstWinner.ticketId)}`;
         }
       }
       
       announcement += '! Well done!';
+
+      const tieAnnouncement = getTieAnnouncement(prize.tieBreak);
+      if (tieAnnouncement) {
+        announcement += ` ${tieAnnouncement}`;
+      }
       
-     console.log(`🏆 Announcing prize: ${prize.name}`);
+     console.log(`🏆 Announcing prize: ${prizeName}`);
       
       // ✅ FIX: Signal prize audio is starting
       if (onPrizeAudioComplete) {
@@ -660,7 +718,7 @@ useEffect(() => {
       });
     }
   });
-}, [prizes, addToQueue, onPrizeAudioComplete]);
+}, [prizes, addToQueue, onPrizeAudioComplete, tickets, ticketIdFormat]);
 
 
 // Game over audio removed - handled by SimplifiedWinnerDisplay
@@ -668,7 +726,9 @@ useEffect(() => {
   useEffect(() => {
     const wonPrizes = prizes.filter(p => p.won);
     
-   if (wonPrizes.length === 0 && (announcedPrizes.current.size > 0 || announcedGameOver.current)) {
+   // Prizes reverted by a correction mid-game are handled by the correction effect
+   const isGameInProgress = (gameState?.calledNumbers?.length || 0) > 0 && !gameState?.gameOver;
+   if (wonPrizes.length === 0 && !isGameInProgress && (announcedPrizes.current.size > 0 || announcedGameOver.current)) {
       console.log('🔄 Resetting audio state for new game');
       
       // FIX: Don't clear audio queue or cancel speech during game end sequence
@@ -0,0 +1,116 @@
+// src/components/ClaimCheckPanel.tsx - Host checks held claims before calling resumes
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Hand, Check, X } from 'lucide-react';
+import { useHostControls } from '@/providers/HostControlsProvider';
+import { formatCalledNumber } from '@/services/game-variants';
+import { resolveTicket } from '@/services/ticket-ids';
+import { getClaimCalledNumbers, getPendingClaims, getWinnerTicketIds } from '@/services/claim-checks';
+import { describeTieOutcome } from '@/services/prize-ties';
+import { renderTicket } from '@/utils/ticketRenderer';
+
+interface ClaimCheckPanelProps {
+  gameData: any;
+}
+
+export const ClaimCheckPanel: React.FC<ClaimCheckPanelProps> = ({ gameData }) => {
+  const { confirmClaim, rejectClaim, isProcessing } = useHostControls();
+  const [error, setError] = useState<string | null>(null);
+
+  const claims = getPendingClaims(gameData?.game_state);
+  const calledNumbers: number[] = gameData?.game_state?.calledNumbers || [];
+
+  const handleDecision = async (decide: (prizeId: string) => Promise<void>, prizeId: string) => {
+    setError(null);
+    try {
+      await decide(prizeId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update claim');
+    }
+  };
+
+  if (claims.length === 0) return null;
+
+  return (
+    <Card className="border-2 border-orange-400">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-orange-800">
+          <Hand className="w-5 h-5 mr-2" />
+          Checking {claims.length === 1 ? 'Claim' : `${claims.length} Claims`}
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Calling is on hold. Check each winning ticket - calling resumes once every claim is decided.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {claims.map(claim => (
+          <div key={claim.prizeId} className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-800">{claim.prizeName}</h3>
+              <Badge variant="outline">
+                On {formatCalledNumber(claim.winningNumber, gameData.game_variant)}
+              </Badge>
+            </div>
+
+            {describeTieOutcome(claim.tieBreak) && (
+              <p className="text-sm text-gray-600">⚖️ {describeTieOutcome(claim.tieBreak)}</p>
+            )}
+
+            {claim.winners.map(winner => (
+              <div key={winner.ticketId} className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">{winner.name}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {getWinnerTicketIds(winner).map(ticketId => {
+                    const ticket = resolveTicket(ticketId, gameData.tickets);
+                    return ticket ? (
+                      <div key={ticketId}>
+                        {renderTicket({
+                          ticket,
+                          calledNumbers: getClaimCalledNumbers(calledNumbers, claim),
+                          showPlayerInfo: true,
+                          patternHighlight: gameData.prizes?.[claim.prizeId]?.prizeType,
+                          patternParams: gameData.prizes?.[claim.prizeId]?.ruleParams
+                        })}
+                      </div>
+                    ) : (
+                      <p key={ticketId} className="text-sm text-gray-500">Ticket {ticketId} not found</p>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Button
+                className="flex-1 bg-green-600 hover:bg-green-700"
+                onClick={() => handleDecision(confirmClaim, claim.prizeId)}
+                disabled={isProcessing}
+              >
+                <Check className="w-4 h-4 mr-2" />
+                Confirm
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1 border-red-300 text-red-700 hover:bg-red-50"
+                onClick={() => handleDecision(rejectClaim, claim.prizeId)}
+                disabled={isProcessing}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,302 @@
+// src/components/CustomPrizeDesigner.tsx - Design house patterns and save them as custom prizes
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Shapes, AlertCircle, Loader2, Trash2 } from 'lucide-react';
+import { supabaseService } from '@/services/supabase';
+import {
+  CUSTOM_PRIZE_PRESETS,
+  CUSTOM_RULE_KINDS,
+  DEFAULT_CUSTOM_RULES,
+  ROW_POSITIONS,
+  TICKET_COLUMNS,
+  TICKET_ROWS,
+  createCustomPrizeDefinition,
+  describeCustomRule,
+  getCustomPrizeError,
+  type CustomPrizeDefinition,
+  type CustomPrizeRule,
+  type CustomPrizeRuleKind
+} from '@/services/custom-prizes';
+
+interface CustomPrizeDesignerProps {
+  hostId: string;
+  customPrizes: CustomPrizeDefinition[];
+  disabled?: boolean;
+  onSaved: (customPrizes: CustomPrizeDefinition[], saved: CustomPrizeDefinition) => void;
+  onDeleted: (customPrizes: CustomPrizeDefinition[], prizeId: string) => void;
+}
+
+const ROW_NAMES = ['Top', 'Middle', 'Bottom'];
+
+const toggleCell = (cells: [number, number][], row: number, col: number): [number, number][] =>
+  cells.some(([r, c]) => r === row && c === col)
+    ? cells.filter(([r, c]) => !(r === row && c === col))
+    : [...cells, [row, col]];
+
+export const CustomPrizeDesigner: React.FC<CustomPrizeDesignerProps> = ({
+  hostId,
+  customPrizes,
+  disabled = false,
+  onSaved,
+  onDeleted
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [rule, setRule] = useState<CustomPrizeRule>(DEFAULT_CUSTOM_RULES.cells);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const ruleError = getCustomPrizeError({ name, rule });
+  const isDisabled = disabled || isSaving;
+
+  const applyPreset = (preset: typeof CUSTOM_PRIZE_PRESETS[number]) => {
+    setName(preset.name);
+    setDescription(preset.description);
+    setRule(preset.rule);
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    if (ruleError) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+
+    try {
+      const definition = createCustomPrizeDefinition(name, rule, description);
+      const updated = await supabaseService.saveCustomPrize(hostId, definition);
+
+      setName('');
+      setDescription('');
+      setRule(DEFAULT_CUSTOM_RULES[rule.kind]);
+      onSaved(updated, definition);
+    } catch (error: any) {
+      console.error('❌ Custom prize save failed:', error);
+      setSaveError(error.message || 'Failed to save custom prize');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (prizeId: string) => {
+    setSaveError(null);
+    try {
+      onDeleted(await supabaseService.deleteCustomPrize(hostId, prizeId), prizeId);
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to delete custom prize');
+    }
+  };
+
+  return (
+    <div className="p-4 border border-dashed border-gray-300 rounded-lg space-y-3">
+      <div>
+        <h3 className="font-medium flex items-center">
+          <Shapes className="w-4 h-4 mr-2" />
+          Design a Custom Prize
+        </h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Saved prizes appear in your prize list for every game you create.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {CUSTOM_PRIZE_PRESETS.map(preset => (
+          <Button
+            key={preset.name}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => applyPreset(preset)}
+            disabled={isDisabled}
+          >
+            {preset.name}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="customPrizeName" className="mb-1 block text-sm">Prize Name</Label>
+          <Input
+            id="customPrizeName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Lucky Seven"
+            disabled={isDisabled}
+          />
+        </div>
+        <div>
+          <Label className="mb-1 block text-sm">Rule</Label>
+          <Select
+            value={rule.kind}
+            onValueChange={(kind) => setRule(DEFAULT_CUSTOM_RULES[kind as CustomPrizeRuleKind])}
+            disabled={isDisabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CUSTOM_RULE_KINDS.map(option => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {CUSTOM_RULE_KINDS.find(option => option.id === rule.kind)?.description}
+      </p>
+
+      {rule.kind === 'cells' && (
+        <div className="grid grid-cols-9 gap-1 max-w-md">
+          {Array.from({ length: TICKET_ROWS }, (_, row) =>
+            Array.from({ length: TICKET_COLUMNS }, (_, col) => {
+              const isMarked = rule.cells.some(([r, c]) => r === row && c === col);
+              return (
+                <button
+                  key={`${row}-${col}`}
+                  type="button"
+                  onClick={() => setRule({ ...rule, cells: toggleCell(rule.cells, row, col) })}
+                  disabled={isDisabled}
+                  className={`aspect-square rounded border-2 border-yellow-500 text-xs ${
+                    isMarked ? 'bg-green-300' : 'bg-white hover:bg-green-50'
+                  }`}
+                  title={`${ROW_NAMES[row]} row, column ${col + 1}`}
+                >
+                  {isMarked ? '●' : ''}
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      {rule.kind === 'positions' && (
+        <div className="space-y-2">
+          {Array.from({ length: TICKET_ROWS }, (_, row) => (
+            <div key={row} className="flex items-center gap-1">
+              <span className="w-16 text-xs text-gray-600">{ROW_NAMES[row]}</span>
+              {Array.from({ length: ROW_POSITIONS }, (_, n) => {
+                const isPicked = rule.positions.some(([r, p]) => r === row && p === n);
+                return (
+                  <button
+                    key={n}
+                    type="button"
+                    onClick={() => {
+                      const positions = toggleCell(rule.positions, row, n);
+                      setRule({ ...rule, positions, required: Math.min(Math.max(rule.required, 1), Math.max(positions.length, 1)) });
+                    }}
+                    disabled={isDisabled}
+                    className={`w-8 h-8 rounded border-2 border-yellow-500 text-xs font-bold ${
+                      isPicked ? 'bg-green-300' : 'bg-white hover:bg-green-50'
+                    }`}
+                  >
+                    {n + 1}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Label htmlFor="customPrizeRequired" className="text-sm">Must be called:</Label>
+            <Input
+              id="customPrizeRequired"
+              type="number"
+              min={1}
+              max={Math.max(rule.positions.length, 1)}
+              value={rule.required}
+              onChange={(e) => setRule({ ...rule, required: parseInt(e.target.value) || 0 })}
+              className="w-20"
+              disabled={isDisabled}
+            />
+            <span className="text-sm text-gray-600">of {rule.positions.length} picked</span>
+          </div>
+        </div>
+      )}
+
+      {(rule.kind === 'first-numbers' || rule.kind === 'lines') && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="customPrizeCount" className="text-sm">
+            {rule.kind === 'lines' ? 'Lines:' : 'Numbers:'}
+          </Label>
+          <Input
+            id="customPrizeCount"
+            type="number"
+            min={1}
+            max={rule.kind === 'lines' ? TICKET_ROWS : TICKET_ROWS * ROW_POSITIONS}
+            value={rule.count}
+            onChange={(e) => setRule({ ...rule, count: parseInt(e.target.value) || 0 })}
+            className="w-20"
+            disabled={isDisabled}
+          />
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="customPrizeDescription" className="mb-1 block text-sm">Description (optional)</Label>
+        <Input
+          id="customPrizeDescription"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder={describeCustomRule(rule)}
+          disabled={isDisabled}
+        />
+      </div>
+
+      {(saveError || (ruleError && name.trim())) && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{saveError || ruleError}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={handleSave}
+        disabled={isDisabled || !!ruleError}
+      >
+        {isSaving ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          'Save Custom Prize'
+        )}
+      </Button>
+
+      {customPrizes.length > 0 && (
+        <div className="space-y-2 pt-2 border-t">
+          <p className="text-sm font-medium text-gray-700">Your custom prizes</p>
+          {customPrizes.map(prize => (
+            <div key={prize.id} className="flex items-center justify-between text-sm">
+              <span>
+                {prize.name}
+                <Badge variant="outline" className="ml-2 text-xs">{describeCustomRule(prize.rule)}</Badge>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(prize.id)}
+                disabled={isDisabled}
+                title={`Delete ${prize.name}`}
+              >
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
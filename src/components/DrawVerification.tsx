@@ -0,0 +1,195 @@
+// src/components/DrawVerification.tsx - Lets anyone check a finished game's draw
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldCheck, ShieldAlert, Lock, Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { supabaseService, type DrawVerificationData } from '@/services/supabase';
+import { verifyDraw, type DrawVerificationResult } from '@/services/provably-fair';
+import { getNumberSequenceAlgorithm } from '@/services/number-sequence';
+
+interface DrawVerificationProps {
+  gameId: string;
+}
+
+const CheckRow: React.FC<{ passed: boolean; label: string; detail?: string }> = ({ passed, label, detail }) => (
+  <div className="flex items-start gap-2">
+    {passed
+      ? <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+      : <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />}
+    <div>
+      <p className="font-medium text-gray-800">{label}</p>
+      {detail && <p className="text-sm text-gray-600">{detail}</p>}
+    </div>
+  </div>
+);
+
+export const DrawVerification: React.FC<DrawVerificationProps> = ({ gameId }) => {
+  const [draw, setDraw] = useState<DrawVerificationData | null>(null);
+  const [result, setResult] = useState<DrawVerificationResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const data = await supabaseService.getDrawVerificationData(gameId);
+        if (!data) throw new Error('Game not found');
+
+        const verification = await verifyDraw({
+          commitment: data.sessionMetadata?.commitment,
+          seed: data.sessionMetadata?.seed,
+          sequence: data.sessionNumbers,
+          calledNumbers: data.calledNumbers,
+          totalNumbers: data.sessionMetadata?.totalNumbers || data.sessionNumbers.length,
+          algorithmVersion: data.sessionMetadata?.algorithmVersion
+        });
+
+        if (!cancelled) {
+          setDraw(data);
+          setResult(verification);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load draw');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8 text-gray-600">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+        Checking draw...
+      </div>
+    );
+  }
+
+  if (error || !draw || !result) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error || 'Draw not available'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const metadata = draw.sessionMetadata;
+  const algorithm = getNumberSequenceAlgorithm(metadata?.algorithmVersion);
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm border-2 border-orange-200">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-gray-800">
+          <span className="flex items-center gap-2">
+            {result.isValid
+              ? <ShieldCheck className="w-6 h-6 text-green-600" />
+              : result.isRevealed
+                ? <ShieldAlert className="w-6 h-6 text-red-600" />
+                : <Lock className="w-6 h-6 text-gray-500" />}
+            {draw.name}
+          </span>
+          <Badge variant={result.isValid ? 'default' : result.isRevealed ? 'destructive' : 'secondary'}>
+            {result.isValid ? 'Verified' : result.isRevealed ? 'Verification failed' : 'Not revealed yet'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {!metadata?.commitment ? (
+          <Alert>
+            <AlertDescription>
+              No draw commitment was published for this game - its numbers were drawn by hand, or it was
+              started before draws were committed - so it can't be verified.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-gray-700">
+              Commitment ({metadata.commitmentAlgorithm || 'sha256'}), published when the countdown started
+            </p>
+            <p className="font-mono text-xs break-all bg-gray-50 border rounded p-2">{metadata.commitment}</p>
+          </div>
+        )}
+
+        {!result.isRevealed ? (
+          metadata?.commitment && (
+            <Alert>
+              <AlertDescription>
+                The seed and call order are revealed when the game finishes. Come back then to check them against
+                the commitment above.
+              </AlertDescription>
+            </Alert>
+          )
+        ) : (
+          <>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-700">Revealed seed</p>
+              <p className="font-mono text-xs break-all bg-gray-50 border rounded p-2">{metadata?.seed}</p>
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-700">Recomputed hash</p>
+              <p className="font-mono text-xs break-all bg-gray-50 border rounded p-2">{result.recomputedCommitment}</p>
+            </div>
+
+            <div className="space-y-3">
+              <CheckRow
+                passed={result.commitmentMatches}
+                label="Hash matches the commitment"
+                detail="SHA-256 of the seed and sequence equals the hash published before the game started"
+              />
+              <CheckRow
+                passed={result.sequenceMatchesSeed}
+                label="Sequence follows from the seed"
+                detail={`Re-shuffled 1-${metadata?.totalNumbers} with ${algorithm.name} (v${algorithm.version})`}
+              />
+              <CheckRow
+                passed={result.callOrderMatches}
+                label="Numbers were called in order"
+                detail={result.callOrderMatches
+                  ? `All ${draw.calledNumbers.length} called numbers match the sequence`
+                  : `Call ${result.firstMismatch + 1} was ${draw.calledNumbers[result.firstMismatch]}, expected ${draw.sessionNumbers[result.firstMismatch]}`}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Call order</p>
+              <div className="flex flex-wrap gap-1">
+                {draw.sessionNumbers.map((number, index) => {
+                  const called = draw.calledNumbers[index];
+                  const isCalled = called !== undefined;
+                  const matches = called === number;
+                  return (
+                    <span
+                      key={index}
+                      title={`Call ${index + 1}`}
+                      className={`w-9 h-9 flex items-center justify-center rounded text-sm font-bold border ${
+                        !isCalled
+                          ? 'bg-gray-50 text-gray-400 border-gray-200'
+                          : matches
+                            ? 'bg-green-100 text-green-800 border-green-300'
+                            : 'bg-red-100 text-red-800 border-red-300'
+                      }`}
+                    >
+                      {number}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -8,10 +8,13 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge'; 
 import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { HostDisplay } from './HostDisplay';
 import { TicketManagementGrid } from './TicketManagementGrid';
 import { AudioManager } from './AudioManager';
 import { SimplifiedWinnerDisplay } from './SimplifiedWinnerDisplay';
+import { TicketSetUpload } from './TicketSetUpload';
+import { CustomPrizeDesigner } from './CustomPrizeDesigner';
 import { useHostControls } from '@/providers/HostControlsProvider';
 import { 
   Plus,
@@ -28,10 +31,31 @@ import {
   Ticket,
   Settings,
   Crown,
-  Timer
+  Timer,
+  Hash,
+  Tag,
+  Hand,
+  CalendarClock
 } from 'lucide-react';
 import { supabaseService } from '@/services/supabase';
-import type { HostUser, GameData } from '@/services/supabase-types';
+import type { HostUser, GameData, HostTicketSet, CustomPrizeDefinition } from '@/services/supabase-types';
+import { getCustomTicketSetId, TICKETS_PER_STRIP } from '@/services/ticket-sets';
+import { GAME_VARIANTS, isBingoVariant, type GameVariant } from '@/services/game-variants';
+import {
+  TICKET_ID_SCHEMES,
+  DEFAULT_TICKET_ID_PREFIX,
+  MAX_TICKET_ID_PREFIX_LENGTH,
+  getTicketIdFormat,
+  normalizeTicketIdPrefix,
+  type TicketIdFormat,
+  type TicketIdScheme
+} from '@/services/ticket-ids';
+import { getPrizeTypes, getPrizeOfType, type PrizeType } from '@/services/prize-engine';
+import { CUSTOM_PRIZE_TYPE_ID, getCustomPrize, toCustomPrizeType } from '@/services/custom-prizes';
+import { CALLING_MODES, DEFAULT_CALLING_MODE, type CallingMode } from '@/services/calling-modes';
+import { COUNTDOWN_OPTIONS, DEFAULT_COUNTDOWN_SECONDS, getScheduleError } from '@/services/game-schedule';
+import { getGamePhase, isGameEditable } from '@/services/game-lifecycle';
+import { TIE_RULES, getTieRule, type TieRule } from '@/services/prize-ties';
 import { useGameData } from '@/providers/GameDataProvider';
 import { HostControlsProvider } from '@/providers/HostControlsProvider';
 
@@ -40,20 +64,29 @@ interface GameHostProps {
   userRole: 'host';
 }
 
-interface GamePrize {
+interface TicketSetOption {
   id: string;
   name: string;
-  pattern: string;
+  available: boolean;
+  ticketCount: number;
   description: string;
-  order: number;
-  difficulty: string;
 }
 
 interface CreateGameForm {
+  gameVariant: GameVariant;
   hostPhone: string;
   maxTickets: string;
   selectedTicketSet: string;
   selectedPrizes: string[];
+  // Prizes without an entry are shared when tied
+  tieRules: { [prizeId: string]: TieRule };
+  ticketIdScheme: TicketIdScheme;
+  ticketIdPrefix: string;
+  callingMode: CallingMode;
+  holdForClaims: boolean;
+  // datetime-local value; empty means the host starts the game by hand
+  scheduledStartAt: string;
+  countdownSeconds: number;
 }
 
 type UIState = 'calculated' | 'winners' | 'setup';
@@ -65,7 +98,7 @@ interface OperationState {
 }
 
 // Available ticket sets
-const TICKET_SETS = [
+const TICKET_SETS: TicketSetOption[] = [
   {
     id: "1",
     name: "Standard Set",
@@ -79,96 +112,26 @@ const TICKET_SETS = [
     available: true,
     ticketCount: 600,
     description: "Premium ticket set with optimized winning patterns"
-  }
-];
-
-// Available prizes with difficulty indicators
-const AVAILABLE_PRIZES: GamePrize[] = [
-{
-    id: 'fullHouse',
-    name: 'Full House',
-    pattern: '',
-    description: '',
-    order: 1,
-    difficulty: ''
-  },
-   {
-    id: 'secondFullHouse',
-    name: 'Second Full House',
-    pattern: '',
-    description: '',
-    order: 2,
-    difficulty: ''
-  },
- {
-    id: 'fullSheet', // ✅ MINIMAL CHANGE: Added Full Sheet
-    name: 'Full Sheet',
-    pattern: '',
-    description: '',
-    order: 3,
-    difficulty: ''
-  },
- {
-    id: 'halfSheet',
-    name: 'Half Sheet',
-    pattern: '',
-    description: '',
-    order: 4,
-    difficulty: ''
-  },
- {
-    id: 'starCorner',
-    name: 'Star Corner',
-    pattern: '',
-    description: '',
-    order: 5,
-    difficulty: ''
-  },
- {
-    id: 'corners',
-    name: 'Four Corners',
-    pattern: '',
-    description: '',
-    order: 6,
-    difficulty: ''
-  },
- {
-    id: 'topLine',
-    name: 'Top Line',
-    pattern: '',
-    description: '',
-    order: 7,
-    difficulty: ''
-  },
-  {
-    id: 'middleLine',
-    name: 'Middle Line',
-    pattern: '',
-    description: '',
-    order: 8,
-    difficulty: ''
   },
- {
-    id: 'bottomLine',
-    name: 'Bottom Line',
-    pattern: '',
-    description: '',
-    order: 9,
-    difficulty: ''
-  },
- 
- 
   {
-    id: 'earlyFive',
-    name: 'Early Five',
-    pattern: '',
-    description: '',
-    order: 10,
-    difficulty: ''
+    id: "generated",
+    name: "Generated Set",
+    available: true,
+    ticketCount: 600,
+    description: "Fresh strips generated for each game from a saved seed"
   }
-  
 ];
 
+const DEFAULT_PRIZES = ['earlyFive', 'topLine', 'middleLine', 'bottomLine', 'fullHouse'];
+const DEFAULT_BINGO_PRIZES = ['bingoRow', 'bingoDiagonal', 'blackout'];
+
+// Prize list for a game variant - 75-ball bingo has its own pattern prizes.
+// The host's custom prizes are drawn on the 3x9 grid, so only 90-ball offers them
+const getPrizeCatalog = (variant?: string, customPrizes: CustomPrizeDefinition[] = []): PrizeType[] =>
+  isBingoVariant(variant)
+    ? getPrizeTypes('75-ball')
+    : [...getPrizeTypes('90-ball'), ...customPrizes.map(toCustomPrizeType)];
+
 // Helper component to connect AudioManager with HostControls
 // ✅ SECURE: Host-only component with full controls
 const AudioManagerForHost: React.FC<{
@@ -176,7 +139,10 @@ const AudioManagerForHost: React.FC<{
   prizes: any[];
   forceEnable: boolean;
   gameState: any;
-}> = ({ currentNumber, prizes, forceEnable, gameState }) => {
+  gameVariant?: string;
+  tickets?: { [ticketId: string]: any };
+  ticketIdFormat?: TicketIdFormat;
+}> = ({ currentNumber, prizes, forceEnable, gameState, gameVariant, tickets, ticketIdFormat }) => {
   const { 
     handleAudioComplete, 
     handlePrizeAudioComplete, 
@@ -194,6 +160,9 @@ const AudioManagerForHost: React.FC<{
       onAudioStarted={handleAudioStarted}
       forceEnable={forceEnable}
       speechRate={speechRate}
+      gameVariant={gameVariant}
+      tickets={tickets}
+      ticketIdFormat={ticketIdFormat}
     />
   );
 };
@@ -233,18 +202,6 @@ const AudioManagerForPlayer: React.FC<{
     }
   }, [gameData?.id]);
   
-  // Early return if user data not loaded yet
-  if (!user || !user.id) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading user data...</p>
-        </div>
-      </div>
-    );
-  }
-
   const bookedCount = React.useMemo(() => {
   if (!gameData?.tickets) {
     return 0;
@@ -291,12 +248,6 @@ const AudioManagerForPlayer: React.FC<{
       errors.push(`Cannot set max tickets (${maxTickets}) below current bookings (${bookedCount})`);
     }
     
-    // ✅ NEW: Validate ticket reduction (expansion-only approach)
-    const currentMaxTickets = gameData.maxTickets;
-    if (maxTickets < currentMaxTickets) {
-      errors.push(`Cannot reduce tickets from ${currentMaxTickets} to ${maxTickets}. You can only increase the ticket count. To reduce tickets, create a new game instead.`);
-    }
-    
     if (!formData.hostPhone?.trim()) {
       errors.push('Host phone number is required');
     }
@@ -318,16 +269,14 @@ const AudioManagerForPlayer: React.FC<{
     canUpdate: boolean;
     reason?: string;
   } => {
-    if (gameData.game_state.isActive) {
-      return { canUpdate: false, reason: 'Game is currently active' };
-    }
-    
-    if (gameData.game_state.isCountdown) {
-      return { canUpdate: false, reason: 'Game is starting (countdown active)' };
-    }
-    
-    if (gameData.game_state.gameOver) {
-      return { canUpdate: false, reason: 'Game has already ended' };
+    if (!isGameEditable(gameData)) {
+      const phase = getGamePhase(gameData);
+      return {
+        canUpdate: false,
+        reason: phase === 'finished' ? 'Game has already ended'
+          : phase === 'countdown' ? 'Game is starting (countdown active)'
+          : 'Game is currently active'
+      };
     }
     
     const numbersCalledCount = gameData.game_state.calledNumbers?.length || 0;
@@ -380,18 +329,40 @@ const AudioManagerForPlayer: React.FC<{
   const [editMode, setEditMode] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
  const [createGameForm, setCreateGameForm] = useState<CreateGameForm>({
+  gameVariant: '90-ball',
   hostPhone: '',
   maxTickets: '100',
   selectedTicketSet: '1',
-  selectedPrizes: ['earlyFive', 'topLine', 'middleLine', 'bottomLine', 'fullHouse'] // ✅ Changed quickFive to earlyFive
+  selectedPrizes: DEFAULT_PRIZES, // ✅ Changed quickFive to earlyFive
+  tieRules: {},
+  ticketIdScheme: 'plain',
+  ticketIdPrefix: DEFAULT_TICKET_ID_PREFIX,
+  callingMode: DEFAULT_CALLING_MODE,
+  holdForClaims: false,
+  scheduledStartAt: '',
+  countdownSeconds: DEFAULT_COUNTDOWN_SECONDS
 });
 const [isCreatingGame, setIsCreatingGame] = useState(false);
+const [customTicketSets, setCustomTicketSets] = useState<HostTicketSet[]>([]);
+const [customPrizes, setCustomPrizes] = useState<CustomPrizeDefinition[]>([]);
 const [gameCreationError, setGameCreationError] = useState<string | null>(null);
 
   // Component-level state for winner display management
   const [uiState, setUIState] = useState<UIState>('calculated');
   const [cachedWinnerData, setCachedWinnerData] = useState<GameData | null>(null);
 
+  // Bundled sets first, then the host's uploaded sets
+  const ticketSetOptions: TicketSetOption[] = React.useMemo(() => [
+    ...TICKET_SETS,
+    ...customTicketSets.map(set => ({
+      id: getCustomTicketSetId(set.id),
+      name: set.name,
+      available: true,
+      ticketCount: set.ticket_count,
+      description: 'Uploaded from your own printed tickets'
+    }))
+  ], [customTicketSets]);
+
   // ================== SUBSCRIPTION VALIDATION ==================
   
 const isSubscriptionValid = React.useCallback(() => {
@@ -508,38 +479,17 @@ const getSubscriptionStatus = React.useCallback(() => {
       const currentMaxTickets = gameData.maxTickets;
       const newMaxTickets = maxTicketsNum;
       
-      // ✅ Check if we need to expand tickets
-      if (newMaxTickets > currentMaxTickets) {
-        console.log(`📈 Ticket expansion needed: ${currentMaxTickets} → ${newMaxTickets} (+${newMaxTickets - currentMaxTickets} tickets)`);
-        
-        // Use expansion method for ticket count increase
-        await supabaseService.expandGameTickets(
-          gameData.gameId,
-          newMaxTickets,
-          createGameForm.selectedTicketSet
-        );
-        
-        // Update host template separately (expansion method doesn't handle template)
-        await supabaseService.updateHostTemplate(user.id, {
-          hostPhone: createGameForm.hostPhone.trim(),
-          maxTickets: newMaxTickets,
-          selectedTicketSet: createGameForm.selectedTicketSet,
-          selectedPrizes: createGameForm.selectedPrizes
-        });
-        
-        console.log(`✅ Ticket expansion completed: ${currentMaxTickets} → ${newMaxTickets}`);
-      } 
-      else {
-        // No ticket expansion needed - use existing update method
-        console.log(`📝 Standard settings update (no ticket expansion)`);
-        
-        await supabaseService.updateGameAndTemplate(
-          gameData.gameId,
-          user.id,
-          updateData
-        );
+      if (newMaxTickets !== currentMaxTickets) {
+        console.log(`🎫 Ticket resize needed: ${currentMaxTickets} → ${newMaxTickets}`);
       }
       
+      // Expands or shrinks tickets as needed, then saves the host template
+      await supabaseService.updateGameAndTemplate(
+        gameData.gameId,
+        user.id,
+        updateData
+      );
+      
       logUpdateOperation('success');
 
       // Step 5: Update UI state
@@ -556,7 +506,7 @@ const getSubscriptionStatus = React.useCallback(() => {
       // Step 6: User-friendly error handling
       let errorMessage = 'Failed to update game settings';
       
-      if (error.message.includes('below current bookings')) {
+      if (error.message.includes('below current bookings') || error.message.includes('Cannot reduce tickets')) {
         errorMessage = error.message;
       } else if (error.message.includes('active') || error.message.includes('starting')) {
         errorMessage = 'Cannot change settings while game is running or starting';
@@ -615,6 +565,28 @@ const createNewGame = async () => {
     return;
   }
 
+  // datetime-local is in the host's time zone; stored as UTC
+  const scheduledStartAt = createGameForm.scheduledStartAt
+    ? new Date(createGameForm.scheduledStartAt).toISOString()
+    : null;
+  const scheduleError = scheduledStartAt && getScheduleError(scheduledStartAt);
+  if (scheduleError) {
+    alert(scheduleError);
+    return;
+  }
+
+  const isBingo = isBingoVariant(createGameForm.gameVariant);
+  const selectedSet = ticketSetOptions.find(set => set.id === createGameForm.selectedTicketSet);
+  if (!isBingo && !selectedSet) {
+    alert('Please select a ticket set');
+    return;
+  }
+
+  if (!isBingo && maxTicketsNum > selectedSet.ticketCount) {
+    alert(`${selectedSet.name} only has ${selectedSet.ticketCount} tickets`);
+    return;
+  }
+
   setIsCreating(true);
   setGameCreationError(null);
     setOperation({
@@ -640,45 +612,64 @@ if (cachedWinnerData) {
   setCachedWinnerData(null);
 }
       
-      // Save host template settings
-     await supabaseService.saveHostSettings(user.id, {
+      // Save host template settings - merged, so saved custom prizes are kept
+     await supabaseService.updateHostTemplate(user.id, {
+        gameVariant: createGameForm.gameVariant,
         hostPhone: createGameForm.hostPhone,
         maxTickets: maxTicketsNum,
         selectedTicketSet: createGameForm.selectedTicketSet,
-        selectedPrizes: createGameForm.selectedPrizes
+        selectedPrizes: createGameForm.selectedPrizes,
+        tieRules: createGameForm.tieRules,
+        ticketIdScheme: createGameForm.ticketIdScheme,
+        ticketIdPrefix: createGameForm.ticketIdPrefix,
+        callingMode: createGameForm.callingMode,
+        holdForClaims: createGameForm.holdForClaims,
+        countdownSeconds: createGameForm.countdownSeconds
       });
 
     // Generate game name
      const now = new Date();
      const gameName = `Tambola Game - ${now.toLocaleDateString()} ${now.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}`;
      
-    const prizesToCreate = createGameForm.selectedPrizes.map((prizeId: string) => {
-      const prizeTemplate = AVAILABLE_PRIZES.find(p => p.id === prizeId);
-      return {
-        // ✅ REMOVED id field - let database auto-generate UUID
-        name: prizeTemplate?.name || prizeId,
-        pattern: prizeTemplate?.pattern || '',
-        description: prizeTemplate?.description || '',
-        prize_order: prizeTemplate?.order || 0,
-        won: false,
-        winners: [],
-        winning_number: null
-      };
-    });
+    const prizeCatalog = getPrizeCatalog(createGameForm.gameVariant, customPrizes);
+    const prizesToCreate = createGameForm.selectedPrizes
+      // Skip saved selections whose custom prize has since been deleted
+      .filter((prizeId: string) => prizeCatalog.some(p => p.id === prizeId))
+      .map((prizeId: string) => {
+        const prizeTemplate = prizeCatalog.find(p => p.id === prizeId);
+        // A custom prize keeps a copy of its rule, so deleting the design later doesn't break the game
+        const customPrize = getCustomPrize(customPrizes, prizeId);
+        return {
+          // ✅ REMOVED id field - let database auto-generate UUID
+          name: prizeTemplate?.name || prizeId,
+          prize_type: customPrize ? CUSTOM_PRIZE_TYPE_ID : prizeId,
+          rule_params: customPrize?.rule || {},
+          pattern: prizeTemplate?.pattern || '',
+          description: prizeTemplate?.description || '',
+          prize_order: prizeTemplate?.order || 0,
+          tie_rule: getTieRule(createGameForm.tieRules[prizeId]),
+          won: false,
+          winners: [],
+          winning_number: null
+        };
+      });
      const gameConfig = {
           name: gameName,
           host_id: user.id, // ✅ FIXED: Use correct Supabase property
           max_tickets: parseInt(createGameForm.maxTickets),
           ticket_price: 0,
+          ticket_set_id: createGameForm.selectedTicketSet,
+          game_variant: createGameForm.gameVariant,
+          ticket_id_scheme: createGameForm.ticketIdScheme,
+          ticket_id_prefix: createGameForm.ticketIdPrefix,
+          calling_mode: createGameForm.callingMode,
+          hold_for_claims: createGameForm.holdForClaims,
+          scheduled_start_at: scheduledStartAt,
+          countdown_seconds: createGameForm.countdownSeconds,
           prizes: prizesToCreate
         };
 
-     const newGame = await supabaseService.createGame(
-        gameConfig,
-        user.id,
-        createGameForm.selectedTicketSet,
-        createGameForm.selectedPrizes
-      );
+     const newGame = await supabaseService.createGame(gameConfig);
       
       console.log('✅ Game created successfully:', newGame.gameId);
       
@@ -768,18 +759,29 @@ if (cachedWinnerData) {
   
   // Load previous settings
   useEffect(() => {
+    if (!user?.id) return;
+
     const loadPreviousSettings = async () => {
       try {
         console.log('🔧 Loading previous host settings...');
-        const settings = await supabaseService.getHostSettings(user.id);
+        const hostSettings = await supabaseService.getHostSettings(user.id);
+        // The saved template lives in the row's settings column
+        const settings = hostSettings?.settings;
         if (settings) {
           console.log('✅ Previous settings loaded');
           setCreateGameForm(prev => ({
             ...prev,
+            gameVariant: settings.gameVariant || prev.gameVariant,
             hostPhone: settings.hostPhone || prev.hostPhone,
             maxTickets: settings.maxTickets?.toString() || prev.maxTickets,
             selectedTicketSet: settings.selectedTicketSet || prev.selectedTicketSet,
-            selectedPrizes: settings.selectedPrizes || prev.selectedPrizes
+            selectedPrizes: settings.selectedPrizes || prev.selectedPrizes,
+            tieRules: settings.tieRules || prev.tieRules,
+            ticketIdScheme: settings.ticketIdScheme || prev.ticketIdScheme,
+            ticketIdPrefix: settings.ticketIdPrefix || prev.ticketIdPrefix,
+            callingMode: settings.callingMode || prev.callingMode,
+            holdForClaims: settings.holdForClaims ?? prev.holdForClaims,
+            countdownSeconds: settings.countdownSeconds || prev.countdownSeconds
           }));
         }
       } catch (error) {
@@ -788,7 +790,34 @@ if (cachedWinnerData) {
     };
 
     loadPreviousSettings();
-  }, [user.id]);
+  }, [user?.id]);
+
+  // Load host's uploaded ticket sets
+  useEffect(() => {
+    if (!user?.id) return;
+    supabaseService.getHostTicketSets(user.id).then(setCustomTicketSets);
+  }, [user?.id]);
+
+  const handleTicketSetUploaded = useCallback((ticketSet: HostTicketSet) => {
+    setCustomTicketSets(prev => [...prev, ticketSet]);
+    setCreateGameForm(prev => ({ ...prev, selectedTicketSet: getCustomTicketSetId(ticketSet.id) }));
+  }, []);
+
+  // Load host's custom prizes from the pattern designer
+  useEffect(() => {
+    if (!user?.id) return;
+    supabaseService.getCustomPrizes(user.id).then(setCustomPrizes);
+  }, [user?.id]);
+
+  const handleCustomPrizeSaved = useCallback((updated: CustomPrizeDefinition[], saved: CustomPrizeDefinition) => {
+    setCustomPrizes(updated);
+    setCreateGameForm(prev => ({ ...prev, selectedPrizes: [...prev.selectedPrizes, saved.id] }));
+  }, []);
+
+  const handleCustomPrizeDeleted = useCallback((updated: CustomPrizeDefinition[], prizeId: string) => {
+    setCustomPrizes(updated);
+    setCreateGameForm(prev => ({ ...prev, selectedPrizes: prev.selectedPrizes.filter(id => id !== prizeId) }));
+  }, []);
 
   // Handle game completion and winner display
   useEffect(() => {
@@ -824,6 +853,18 @@ if (cachedWinnerData) {
   }, [gameData, operation]);
 
 
+  // Early return if user data not loaded yet - after every hook, so they run on each render
+  if (!user || !user.id) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading user data...</p>
+        </div>
+      </div>
+    );
+  }
+
   // ================== VIEW CALCULATION ==================
 
 const getCurrentView = (): 'create' | 'booking' | 'live' | 'winners' | 'setup' => {
@@ -897,13 +938,14 @@ const getCurrentView = (): 'create' | 'booking' | 'live' | 'winners' | 'setup' =
     return 'setup';
   }
   
-  if (gameData.game_state.gameOver) {
+  const phase = getGamePhase(gameData);
+
+  if (phase === 'finished') {
     console.log('🏁 GameHost: Game over, returning winners');
     return 'winners';
   }
-  // ✅ FIXED: Include paused games with called numbers as 'live'
-if (gameData.game_state.isActive || gameData.game_state.isCountdown ||
-     (gameData.game_state.calledNumbers && gameData.game_state.calledNumbers.length > 0)) {
+  // Countdown, running and paused games all show the live view
+  if (phase === 'countdown' || phase === 'playing') {
     console.log('🎮 GameHost: Game started/paused - returning LIVE view');
     return 'live';
   }
@@ -1018,6 +1060,12 @@ if (gameData.game_state.isActive || gameData.game_state.isCountdown ||
             isCreating={isCreating}
             operationInProgress={operation.inProgress}
             isFromWinners={!!cachedWinnerData}
+            ticketSets={ticketSetOptions}
+            hostId={user.id}
+            onTicketSetUploaded={handleTicketSetUploaded}
+            customPrizes={customPrizes}
+            onCustomPrizeSaved={handleCustomPrizeSaved}
+            onCustomPrizeDeleted={handleCustomPrizeDeleted}
           />
         )}
 
@@ -1039,6 +1087,7 @@ if (gameData.game_state.isActive || gameData.game_state.isCountdown ||
             
            <TicketManagementGrid
               gameData={gameData}
+              hostName={user.name}
               onRefreshGame={handleRefreshGame}
             />
           </div>
@@ -1079,6 +1128,9 @@ if (gameData.game_state.isActive || gameData.game_state.isCountdown ||
       })()}
         forceEnable={true}
         gameState={gameData.game_state}
+        gameVariant={gameData.game_variant}
+        tickets={gameData.tickets}
+        ticketIdFormat={getTicketIdFormat(gameData)}
       />
     </HostControlsProvider>
   </div>
@@ -1131,7 +1183,13 @@ const CreateGameForm = ({
   onMaxTicketsChange, 
   isCreating,
   operationInProgress,
-  isFromWinners = false
+  isFromWinners = false,
+  ticketSets,
+  hostId,
+  onTicketSetUploaded,
+  customPrizes,
+  onCustomPrizeSaved,
+  onCustomPrizeDeleted
 }: any) => (
   <Card>
     <CardHeader>
@@ -1178,16 +1236,63 @@ const CreateGameForm = ({
           placeholder="Enter maximum tickets (1-600)"
           disabled={isCreating || operationInProgress}
         />
+        {!isBingoVariant(createGameForm.gameVariant) && parseInt(createGameForm.maxTickets) % TICKETS_PER_STRIP > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            Tickets come in strips of {TICKETS_PER_STRIP} - this rounds up to {Math.ceil(parseInt(createGameForm.maxTickets) / TICKETS_PER_STRIP) * TICKETS_PER_STRIP} tickets
+          </p>
+        )}
+      </div>
+
+      {/* Game Variant Selection */}
+      <div>
+        <Label className="flex items-center mb-3">
+          <Hash className="w-4 h-4 mr-2" />
+          Game Type
+        </Label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {Object.values(GAME_VARIANTS).map(variant => (
+            <div
+              key={variant.id}
+              className={`p-4 border rounded-lg cursor-pointer transition-colors ${
+                createGameForm.gameVariant === variant.id
+                  ? 'border-blue-500 bg-blue'
+                  : 'border-gray-200 hover:border-gray-300'
+              } ${(isCreating || operationInProgress) ? 'opacity-50 cursor-not-allowed' : ''}`}
+              onClick={() => {
+                if (!isCreating && !operationInProgress && createGameForm.gameVariant !== variant.id) {
+                  setCreateGameForm(prev => ({
+                    ...prev,
+                    gameVariant: variant.id,
+                    selectedPrizes: isBingoVariant(variant.id) ? DEFAULT_BINGO_PRIZES : DEFAULT_PRIZES
+                  }));
+                }
+              }}
+            >
+              <div className="flex items-center">
+                <input
+                  type="radio"
+                  checked={createGameForm.gameVariant === variant.id}
+                  onChange={() => {}}
+                  className="mr-3"
+                  disabled={isCreating || operationInProgress}
+                />
+                <h3 className="font-medium">{variant.name}</h3>
+              </div>
+              <p className="text-sm text-gray-600 mt-1">{variant.description}</p>
+            </div>
+          ))}
+        </div>
       </div>
 
       {/* Ticket Set Selection */}
+      {!isBingoVariant(createGameForm.gameVariant) && (
       <div>
         <Label className="flex items-center mb-3">
           <Settings className="w-4 h-4 mr-2" />
           Ticket Set
         </Label>
         <div className="grid grid-cols-1 gap-3">
-          {TICKET_SETS.map(set => (
+          {ticketSets.map((set: TicketSetOption) => (
             <div
               key={set.id}
               className={`p-4 border rounded-lg cursor-pointer transition-colors ${
@@ -1221,7 +1326,162 @@ const CreateGameForm = ({
               </div>
             </div>
           ))}
+          <TicketSetUpload
+            hostId={hostId}
+            disabled={isCreating || operationInProgress}
+            onUploaded={onTicketSetUploaded}
+          />
+        </div>
+      </div>
+      )}
+
+      {/* Ticket ID Scheme */}
+      <div>
+        <Label className="flex items-center mb-3">
+          <Tag className="w-4 h-4 mr-2" />
+          Ticket IDs
+        </Label>
+        <div className="grid grid-cols-2 gap-3">
+          {TICKET_ID_SCHEMES.map(option => (
+            <div
+              key={option.id}
+              className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                createGameForm.ticketIdScheme === option.id
+                  ? 'border-blue-500 bg-blue'
+                  : 'border-gray-200 hover:border-gray-300'
+              } ${(isCreating || operationInProgress) ? 'opacity-50 cursor-not-allowed' : ''}`}
+              onClick={() => {
+                if (!isCreating && !operationInProgress) {
+                  setCreateGameForm(prev => ({ ...prev, ticketIdScheme: option.id }));
+                }
+              }}
+            >
+              <div className="flex items-center">
+                <input
+                  type="radio"
+                  checked={createGameForm.ticketIdScheme === option.id}
+                  onChange={() => {}}
+                  className="mr-3"
+                  disabled={isCreating || operationInProgress}
+                />
+                <h3 className="font-medium text-sm">{option.name}</h3>
+              </div>
+              <p className="text-xs text-gray-600 mt-1 ml-6">
+                e.g. {option.id === 'prefix' ? `${createGameForm.ticketIdPrefix || DEFAULT_TICKET_ID_PREFIX}7` : option.example}
+              </p>
+            </div>
+          ))}
         </div>
+        {createGameForm.ticketIdScheme === 'prefix' && (
+          <div className="mt-3">
+            <Label htmlFor="ticketIdPrefix" className="mb-1 block text-sm">Prefix (letters only)</Label>
+            <Input
+              id="ticketIdPrefix"
+              value={createGameForm.ticketIdPrefix}
+              onChange={(e) => setCreateGameForm(prev => ({ ...prev, ticketIdPrefix: normalizeTicketIdPrefix(e.target.value) }))}
+              placeholder={DEFAULT_TICKET_ID_PREFIX}
+              maxLength={MAX_TICKET_ID_PREFIX_LENGTH}
+              className="w-32"
+              disabled={isCreating || operationInProgress}
+            />
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-2">
+          Players can search and book with any form - "7", "007", "S2-1" and "T7" all find the same ticket.
+        </p>
+      </div>
+
+      {/* Number Calling */}
+      <div>
+        <Label className="flex items-center mb-3">
+          <Hand className="w-4 h-4 mr-2" />
+          Number Calling
+        </Label>
+        <div className="grid grid-cols-2 gap-3">
+          {CALLING_MODES.map(option => (
+            <div
+              key={option.id}
+              className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                createGameForm.callingMode === option.id
+                  ? 'border-blue-500 bg-blue'
+                  : 'border-gray-200 hover:border-gray-300'
+              } ${(isCreating || operationInProgress) ? 'opacity-50 cursor-not-allowed' : ''}`}
+              onClick={() => {
+                if (!isCreating && !operationInProgress) {
+                  setCreateGameForm(prev => ({ ...prev, callingMode: option.id }));
+                }
+              }}
+            >
+              <div className="flex items-center">
+                <input
+                  type="radio"
+                  checked={createGameForm.callingMode === option.id}
+                  onChange={() => {}}
+                  className="mr-3"
+                  disabled={isCreating || operationInProgress}
+                />
+                <h3 className="font-medium text-sm">{option.name}</h3>
+              </div>
+              <p className="text-xs text-gray-600 mt-1 ml-6">{option.description}</p>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-start space-x-3 mt-3">
+          <Checkbox
+            id="hold-for-claims"
+            checked={createGameForm.holdForClaims}
+            onCheckedChange={(checked) => setCreateGameForm(prev => ({ ...prev, holdForClaims: checked === true }))}
+            disabled={isCreating || operationInProgress}
+          />
+          <div>
+            <Label htmlFor="hold-for-claims">Hold for claims</Label>
+            <p className="text-xs text-gray-600 mt-1">
+              Calling pauses when a prize is won so you can check the ticket before confirming it
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Start Time */}
+      <div>
+        <Label className="flex items-center mb-3">
+          <CalendarClock className="w-4 h-4 mr-2" />
+          Start Time
+        </Label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="scheduled-start" className="text-xs text-gray-600">Scheduled start (optional)</Label>
+            <Input
+              id="scheduled-start"
+              type="datetime-local"
+              value={createGameForm.scheduledStartAt}
+              onChange={(e) => setCreateGameForm(prev => ({ ...prev, scheduledStartAt: e.target.value }))}
+              disabled={isCreating || operationInProgress}
+            />
+          </div>
+          <div>
+            <Label htmlFor="countdown-seconds" className="text-xs text-gray-600">Countdown</Label>
+            <Select
+              value={createGameForm.countdownSeconds.toString()}
+              onValueChange={(value) => setCreateGameForm(prev => ({ ...prev, countdownSeconds: parseInt(value, 10) }))}
+              disabled={isCreating || operationInProgress}
+            >
+              <SelectTrigger id="countdown-seconds">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COUNTDOWN_OPTIONS.map(option => (
+                  <SelectItem key={option.seconds} value={option.seconds.toString()}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          {createGameForm.scheduledStartAt
+            ? 'The countdown begins on its own so the game goes live at this time. You can still start it early.'
+            : 'Leave empty to start the game yourself when players are ready.'}
+        </p>
       </div>
 
      {/* Prize Selection */}
@@ -1231,7 +1491,7 @@ const CreateGameForm = ({
           Select Prizes
         </Label>
         <div className="grid grid-cols-1 gap-3">
-       {AVAILABLE_PRIZES
+       {[...getPrizeCatalog(createGameForm.gameVariant, customPrizes)]
             .sort((a, b) => a.order - b.order)
             .map(prize => (
               <div key={prize.id} className="flex items-start space-x-3">
@@ -1264,21 +1524,47 @@ const CreateGameForm = ({
                     >
                       {prize.difficulty}
                     </Badge>
-                    {(prize.id === 'halfSheet' || prize.id === 'fullSheet') && (
+                    {prize.badge && (
                       <Badge variant="outline" className="ml-1 text-xs text-purple-600 border-purple-300">
-                        Traditional
-                      </Badge>
-                    )}
-                    {prize.id === 'secondFullHouse' && (
-                      <Badge variant="outline" className="ml-1 text-xs text-green-600 border-green-300">
-                        Independent
+                        {prize.badge}
                       </Badge>
                     )}
                   </Label>
                   <p className="text-sm text-gray-600">{prize.description}</p>
+                  {createGameForm.selectedPrizes.includes(prize.id) && (
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-xs text-gray-500">If tied:</span>
+                      <Select
+                        value={getTieRule(createGameForm.tieRules[prize.id])}
+                        onValueChange={(value) => setCreateGameForm(prev => ({
+                          ...prev,
+                          tieRules: { ...prev.tieRules, [prize.id]: value as TieRule }
+                        }))}
+                        disabled={isCreating || operationInProgress}
+                      >
+                        <SelectTrigger className="h-7 w-44 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TIE_RULES.map(rule => (
+                            <SelectItem key={rule.id} value={rule.id} className="text-xs">{rule.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
+          {!isBingoVariant(createGameForm.gameVariant) && (
+            <CustomPrizeDesigner
+              hostId={hostId}
+              customPrizes={customPrizes}
+              disabled={isCreating || operationInProgress}
+              onSaved={onCustomPrizeSaved}
+              onDeleted={onCustomPrizeDeleted}
+            />
+          )}
         </div>
       </div>
       
@@ -1387,6 +1673,17 @@ const EditGameForm = ({
         </div>
       )}
 
+      {parseInt(createGameForm.maxTickets) < gameData.maxTickets && (
+        <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+          <p className="text-sm text-orange-800 font-medium">
+            📉 Ticket Reduction Detected
+          </p>
+          <p className="text-xs text-orange-600 mt-1">
+            Will remove tickets {parseInt(createGameForm.maxTickets) + 1}-{gameData.maxTickets}. This is refused if any of them are booked.
+          </p>
+        </div>
+      )}
+
       {/* Host Phone */}
       <div>
         <Label htmlFor="editHostPhone" className="flex items-center mb-2">
@@ -1411,14 +1708,14 @@ const EditGameForm = ({
         <Input
           id="editMaxTickets"
           type="number"
-          min={gameData.maxTickets} // ✅ NEW: Prevent reduction
+          min="1"
           max="600"
           value={createGameForm.maxTickets}
           onChange={onMaxTicketsChange}
           disabled={isCreating || operationInProgress}
         />
         <p className="text-sm text-gray-600 mt-1">
-          ✅ Can only increase tickets (current: {gameData.maxTickets}, minimum: {gameData.maxTickets})
+          Current: {gameData.maxTickets}. Reducing removes unbooked tickets from the end only.
         </p>
       </div>
 
@@ -1429,7 +1726,7 @@ const EditGameForm = ({
           Update Prizes
         </Label>
         <div className="grid grid-cols-1 gap-3">
-          {AVAILABLE_PRIZES
+          {[...getPrizeCatalog(gameData.game_variant)]
           .sort((a, b) => a.order - b.order)
           .map(prize => (
               <div key={prize.id} className="flex items-start space-x-3">
@@ -1462,17 +1759,12 @@ const EditGameForm = ({
                     >
                       {prize.difficulty}
                     </Badge>
-                    {(prize.id === 'halfSheet' || prize.id === 'fullSheet') && (
+                    {prize.badge && (
                       <Badge variant="outline" className="ml-1 text-xs text-purple-600 border-purple-300">
-                        Traditional
-                      </Badge>
-                    )}
-                    {prize.id === 'secondFullHouse' && (
-                      <Badge variant="outline" className="ml-1 text-xs text-green-600 border-green-300">
-                        Independent
+                        {prize.badge}
                       </Badge>
                     )}
-                    {gameData.prizes[prize.id]?.won && (
+                    {getPrizeOfType(gameData.prizes, prize.id)?.won && (
                       <Badge variant="default" className="ml-2 text-xs bg-green-600">
                         Won
                       </Badge>
@@ -1494,7 +1786,8 @@ const EditGameForm = ({
           {isCreating ? (
             <>
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              {parseInt(createGameForm.maxTickets) > gameData.maxTickets ? 'Expanding...' : 'Updating...'}
+              {parseInt(createGameForm.maxTickets) > gameData.maxTickets ? 'Expanding...' :
+                parseInt(createGameForm.maxTickets) < gameData.maxTickets ? 'Reducing...' : 'Updating...'}
             </>
           ) : (
             <>
@@ -0,0 +1,284 @@
+// src/components/GameReplayViewer.tsx - Replays a finished game call by call
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import {
+  History,
+  Play,
+  Pause,
+  SkipBack,
+  SkipForward,
+  StepBack,
+  StepForward,
+  Trophy,
+  Ticket,
+  X
+} from 'lucide-react';
+import { NumberGrid } from './NumberGrid';
+import { renderTicket } from '@/utils/ticketRenderer';
+import { REPLAY_SPEEDS, getReplayFrame, getPrizeReplayEvents } from '@/utils/gameReplay';
+import { formatCalledNumber } from '@/services/game-variants';
+import { getTicketIdFormat, resolveTicketId, formatStoredTicketIds } from '@/services/ticket-ids';
+
+interface GameReplayViewerProps {
+  gameData: any;
+  onClose?: () => void;
+}
+
+export const GameReplayViewer: React.FC<GameReplayViewerProps> = ({ gameData, onClose }) => {
+  const calledNumbers: number[] = useMemo(
+    () => gameData?.game_state?.calledNumbers || gameData?.gameState?.calledNumbers || [],
+    [gameData]
+  );
+  const totalCalls = calledNumbers.length;
+  const ticketIdFormat = getTicketIdFormat(gameData);
+
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(0);
+  const [ticketQuery, setTicketQuery] = useState('');
+  const [ticketError, setTicketError] = useState<string | null>(null);
+  // Ticket ID -> prize to highlight on it (set when picked from the prize list)
+  const [selectedTickets, setSelectedTickets] = useState<Map<string, string | undefined>>(new Map());
+
+  const frame = useMemo(() => getReplayFrame(calledNumbers, step), [calledNumbers, step]);
+  const prizeEvents = useMemo(
+    () => getPrizeReplayEvents(gameData?.prizes, calledNumbers),
+    [gameData?.prizes, calledNumbers]
+  );
+
+  // Playback: one call per interval, stopping at the last call
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (step >= totalCalls) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setStep(current => current + 1), REPLAY_SPEEDS[speedIndex].intervalMs);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, speedIndex, totalCalls]);
+
+  const goTo = (nextStep: number) => {
+    setIsPlaying(false);
+    setStep(Math.max(0, Math.min(nextStep, totalCalls)));
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && step >= totalCalls) setStep(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const selectTicket = (ticketId: string, prizeId?: string) => {
+    setSelectedTickets(prev => new Map(prev).set(ticketId, prizeId));
+  };
+
+  const removeTicket = (ticketId: string) => {
+    setSelectedTickets(prev => {
+      const next = new Map(prev);
+      next.delete(ticketId);
+      return next;
+    });
+  };
+
+  const handleAddTicket = (event: React.FormEvent) => {
+    event.preventDefault();
+    const ticketId = resolveTicketId(ticketQuery, gameData?.tickets);
+
+    if (!ticketId) {
+      setTicketError(`Ticket ${ticketQuery} not found`);
+      return;
+    }
+
+    selectTicket(ticketId);
+    setTicketQuery('');
+    setTicketError(null);
+  };
+
+  // Jump to the call a prize fell on and show its winning tickets
+  const showPrize = (prizeId: string, callNumber: number | null, winners: { ticketId: string }[] = []) => {
+    if (callNumber) goTo(callNumber);
+    winners.forEach(winner => {
+      winner.ticketId
+        .split(',')
+        .map(id => resolveTicketId(id.trim(), gameData?.tickets))
+        .filter(Boolean)
+        .forEach(ticketId => selectTicket(ticketId, prizeId));
+    });
+  };
+
+  if (totalCalls === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-gray-600">
+          No numbers were called in this game, so there is nothing to replay.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="border-2 border-blue-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <History className="w-5 h-5 mr-2 text-blue-600" />
+            Game Replay
+          </span>
+          {onClose && (
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Playback controls */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Call {step} of {totalCalls}</p>
+              <p className="text-3xl font-bold text-blue-700">
+                {frame.currentNumber !== null ? formatCalledNumber(frame.currentNumber, gameData?.game_variant) : '—'}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {REPLAY_SPEEDS.map((speed, index) => (
+                <Button
+                  key={speed.label}
+                  size="sm"
+                  variant={index === speedIndex ? 'default' : 'outline'}
+                  onClick={() => setSpeedIndex(index)}
+                >
+                  {speed.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <Slider
+            min={0}
+            max={totalCalls}
+            step={1}
+            value={[step]}
+            onValueChange={([value]) => goTo(value)}
+          />
+
+          <div className="flex items-center justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => goTo(0)} disabled={step === 0}>
+              <SkipBack className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => goTo(step - 1)} disabled={step === 0}>
+              <StepBack className="w-4 h-4" />
+            </Button>
+            <Button size="sm" onClick={togglePlay} className="bg-blue-600 hover:bg-blue-700 min-w-24">
+              {isPlaying ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+              {isPlaying ? 'Pause' : step >= totalCalls ? 'Replay' : 'Play'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => goTo(step + 1)} disabled={step >= totalCalls}>
+              <StepForward className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => goTo(totalCalls)} disabled={step >= totalCalls}>
+              <SkipForward className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <NumberGrid
+          calledNumbers={frame.calledNumbers}
+          currentNumber={frame.currentNumber}
+          gameVariant={gameData?.game_variant}
+        />
+
+        {/* Prizes by the call they fell on */}
+        <div className="space-y-2">
+          <h4 className="font-semibold text-gray-800 flex items-center">
+            <Trophy className="w-4 h-4 mr-2 text-yellow-600" />
+            Prizes
+          </h4>
+          {prizeEvents.map(({ prize, callNumber }) => {
+            const hasFallen = callNumber !== null && callNumber <= step;
+            return (
+              <button
+                key={prize.id}
+                type="button"
+                onClick={() => showPrize(prize.id, callNumber, prize.winners)}
+                className={`w-full text-left p-2 rounded border transition-colors ${
+                  hasFallen ? 'bg-green-50 border-green-300' : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={`font-medium ${hasFallen ? 'text-green-800' : 'text-gray-700'}`}>
+                    {hasFallen ? '🏆' : '⏳'} {prize.name}
+                  </span>
+                  <Badge variant="outline" className="text-xs">
+                    {callNumber !== null
+                      ? `Call ${callNumber} · ${formatCalledNumber(prize.winningNumber, gameData?.game_variant)}`
+                      : prize.won ? 'Won' : 'Not won'}
+                  </Badge>
+                </div>
+                {hasFallen && prize.winners?.length > 0 && (
+                  <p className="text-xs text-green-700 mt-1">
+                    {prize.winners
+                      .map(winner => `${winner.name} (${formatStoredTicketIds(winner.ticketId, gameData.tickets, ticketIdFormat)})`)
+                      .join(', ')}
+                  </p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Tickets to follow through the replay */}
+        <div className="space-y-2">
+          <h4 className="font-semibold text-gray-800 flex items-center">
+            <Ticket className="w-4 h-4 mr-2 text-blue-600" />
+            Tickets
+          </h4>
+          <form onSubmit={handleAddTicket} className="flex gap-2">
+            <Input
+              value={ticketQuery}
+              onChange={event => setTicketQuery(event.target.value)}
+              placeholder="Ticket number"
+              className="flex-1"
+            />
+            <Button type="submit" variant="outline" disabled={!ticketQuery.trim()}>
+              Add
+            </Button>
+          </form>
+          {ticketError && <p className="text-sm text-red-600">{ticketError}</p>}
+
+          {Array.from(selectedTickets.entries()).map(([ticketId, prizeId]) => {
+            const ticket = gameData?.tickets?.[ticketId];
+            if (!ticket) return null;
+            const prize = prizeId ? gameData?.prizes?.[prizeId] : null;
+
+            return (
+              <div key={ticketId} className="relative">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="absolute top-1 right-1 z-10 h-6 w-6 p-0"
+                  onClick={() => removeTicket(ticketId)}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+                {renderTicket({
+                  ticket,
+                  calledNumbers: frame.calledNumbers,
+                  showPlayerInfo: true,
+                  patternHighlight: prize?.prizeType,
+                  patternParams: prize?.ruleParams
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
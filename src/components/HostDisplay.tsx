@@ -24,12 +24,22 @@ import {
   CheckCircle,
   ChevronDown,
   ChevronUp,
-  User
+  User,
+  Undo2
 } from 'lucide-react';
 import { useGameData } from '@/providers/GameDataProvider';
-import { useHostControls } from '@/providers/HostControlsProvider';
+import { useHostControls, SERVER_CALLER_ENABLED } from '@/providers/HostControlsProvider';
+import { formatCalledNumber } from '@/services/game-variants';
+import { getTicketIdFormat, formatStoredTicketIds } from '@/services/ticket-ids';
 // ✅ Import simplified winner component
 import { SimplifiedWinnerDisplay } from './SimplifiedWinnerDisplay';
+import { ManualCallingPanel } from './ManualCallingPanel';
+import { UndoLastCallDialog } from './UndoLastCallDialog';
+import { ClaimCheckPanel } from './ClaimCheckPanel';
+import { isScheduledGame, formatScheduledStart } from '@/services/game-schedule';
+import { canTransition } from '@/services/game-lifecycle';
+import { describeTieOutcome } from '@/services/prize-ties';
+import type { GamePrize } from '@/services/prize-registry';
 
 interface HostDisplayProps {
   onCreateNewGame?: () => void;
@@ -50,6 +60,7 @@ const bookedCount = React.useMemo(() => {
   }
 }, [gameData?.tickets]);
   const hostControls = useHostControls();
+  const callingModeLabel = hostControls?.isManualCalling ? 'Manual' : 'Automatic';
 // ✅ Extract new properties
 const {
   isPreparingGame,
@@ -58,6 +69,7 @@ const {
 } = hostControls || {};
   const [expandedPrizes, setExpandedPrizes] = useState<Set<string>>(new Set());
   const [showWinnerDisplay, setShowWinnerDisplay] = useState(false);
+  const [showUndoDialog, setShowUndoDialog] = useState(false);
 
   // Add delay before showing winner display
   useEffect(() => {
@@ -211,14 +223,15 @@ const {
   // ✅ EXISTING: Full interface for active games (booking, countdown, playing phases)
   return (
     <div className="space-y-6">
-      
+      {/* Hold-for-claims games wait here until the host decides each claim */}
+      {currentPhase === 'playing' && <ClaimCheckPanel gameData={gameData} />}
 
       {/* Game Controls */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center">
             <Timer className="w-5 h-5 mr-2" />
-            Automatic Game Controls
+            {callingModeLabel} Game Controls
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
@@ -231,17 +244,22 @@ const {
     
     <Button 
       onClick={handleStartGame}
-      disabled={bookedCount === 0 || hostControls?.isProcessing}
+      disabled={!canTransition('start', { ...gameData, bookedTickets: bookedCount }) || hostControls?.isProcessing}
       className="flex-1 bg-green-600 hover:bg-green-700"
       size="sm"
     >
       <Play className="w-4 h-4 mr-2" />
     {hostControls?.isProcessing 
         ? 'Starting...' 
-        : `Start Automatic Game (${bookedCount > 0 ? 'Ready' : 'Need players'})`
+        : `Start ${callingModeLabel} Game (${bookedCount > 0 ? 'Ready' : 'Need players'})`
       }
     </Button>
-   {/* ✅ REMOVED: Preparation instructions hidden */}
+    {isScheduledGame(gameData) && (
+      <p className="w-full text-xs text-blue-700 bg-blue-50 border border-blue-200 rounded px-2 py-1 text-center">
+        ⏰ Starts on its own at {formatScheduledStart(gameData)}
+        {SERVER_CALLER_ENABLED ? '' : ' - keep this page open until then'}. You can also start it now.
+      </p>
+    )}
   </>
 )}
             {currentPhase === 'countdown' && (
@@ -253,16 +271,16 @@ const {
 
             {currentPhase === 'playing' && (
               <>
-                {!hostControls?.supabasePaused ? (
+                {gameData.status !== 'paused' ? (
                   <Button 
                     onClick={handlePauseGame} 
                     variant="secondary" 
                     className="flex-1" 
                     size="lg"
-                    disabled={hostControls?.isProcessing}
+                    disabled={!canTransition('pause', gameData) || hostControls?.isProcessing}
                   >
                     <Pause className="w-4 h-4 mr-2" />
-                    {hostControls?.isProcessing ? 'Pausing...' : 'Pause Automatic Game'}
+                    {hostControls?.isProcessing ? 'Pausing...' : `Pause ${callingModeLabel} Game`}
                   </Button>
               ) : (
       <div className="space-y-2 flex-1">
@@ -270,11 +288,11 @@ const {
           onClick={handleResumeGame} 
           className="w-full bg-green-600 hover:bg-green-700" 
           size="lg"
-          disabled={hostControls?.isProcessing}
+          disabled={!canTransition('resume', gameData) || hostControls?.isProcessing}
         >
           <Play className="w-4 h-4 mr-2" />
          {hostControls?.isProcessing ? 'Starting...' : 
-           hostControls?.countdownTime === 0 && hostControls?.supabasePaused ? 'Click to Start Number Calling' : 'Resume Automatic Game'}
+           `Resume ${callingModeLabel} Game`}
         </Button>
         
         {/* ✅ NEW: Show auto-pause warning */}
@@ -298,6 +316,27 @@ const {
             )}
           </div>
 
+          {/* Corrections - only while paused, so no call can race the undo */}
+          {gameData.status === 'paused' && gameData.game_state.calledNumbers?.length > 0 && (
+            <>
+              <Button
+                onClick={() => setShowUndoDialog(true)}
+                variant="outline"
+                className="w-full border-red-300 text-red-700 hover:bg-red-50"
+                size="sm"
+                disabled={hostControls?.isProcessing}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo Last Call ({formatCalledNumber(gameData.game_state.currentNumber, gameData.game_variant)})
+              </Button>
+              <UndoLastCallDialog
+                gameData={gameData}
+                open={showUndoDialog}
+                onClose={() => setShowUndoDialog(false)}
+              />
+            </>
+          )}
+
 {/* Speech Rate Control */}
           {(currentPhase === 'booking' || (currentPhase === 'playing' && !gameData.gameState.gameOver)) && (
             <div className="space-y-2">
@@ -328,13 +367,18 @@ const {
         </CardContent>
       </Card>
 
+      {/* Manual calling - host taps or types numbers from the drum */}
+      {hostControls?.isManualCalling && currentPhase === 'playing' && (
+        <ManualCallingPanel />
+      )}
+
       {/* Recent Numbers Called */}
       {gameData.game_state.calledNumbers && gameData.game_state.calledNumbers.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center">
               <Hash className="w-5 h-5 mr-2" />
-              Recent Numbers Called (Automatically)
+              Recent Numbers Called {hostControls?.isManualCalling ? '(Manually)' : '(Automatically)'}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -351,7 +395,7 @@ const {
                         : 'bg-gradient-to-br from-blue-500 to-blue-600 text-sm'
                       }`}
                   >
-                    {num}
+                    {formatCalledNumber(num, gameData.game_variant)}
                   </div>
                 ))}
             </div>
@@ -375,7 +419,7 @@ const {
         <CardContent className="space-y-3">
           {(() => {
             try {
-              return Object.values(gameData.prizes || {})
+              return (Object.values(gameData.prizes || {}) as GamePrize[])
                 .sort((a, b) => (a.order || 0) - (b.order || 0));
             } catch (error) {
               console.error('Error processing prizes in HostDisplay:', error);
@@ -463,7 +507,7 @@ const {
                                   )}
                                 </p>
                                 <p className="text-xs text-gray-600">
-                                  Ticket {winner.ticketId}
+                                  Ticket {formatStoredTicketIds(winner.ticketId, gameData.tickets, getTicketIdFormat(gameData))}
                                 </p>
                               </div>
                             </div>
@@ -486,6 +530,16 @@ const {
                             )}
                           </div>
                         )}
+                        {describeTieOutcome(prize.tieBreak) && (
+                          <div className="text-xs text-green-700 text-center">
+                            ⚖️ {describeTieOutcome(prize.tieBreak)}
+                            {prize.tieBreak.seed && (
+                              <span className="block font-mono text-[10px] text-gray-500 break-all">
+                                Draw seed {prize.tieBreak.seed}
+                              </span>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
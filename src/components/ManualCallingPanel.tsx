@@ -0,0 +1,97 @@
+// src/components/ManualCallingPanel.tsx - Host enters numbers drawn from a physical drum
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Hand, Send } from 'lucide-react';
+import { NumberGrid } from './NumberGrid';
+import { useGameData } from '@/providers/GameDataProvider';
+import { useHostControls } from '@/providers/HostControlsProvider';
+import { getGameVariant, formatCalledNumber } from '@/services/game-variants';
+
+export const ManualCallingPanel: React.FC = () => {
+  const { gameData } = useGameData();
+  const { callManualNumber, isProcessing } = useHostControls();
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!gameData) return null;
+
+  const calledNumbers = gameData.game_state?.calledNumbers || [];
+  const currentNumber = gameData.game_state?.currentNumber ?? null;
+  const isPaused = gameData.status === 'paused';
+  const canCall = gameData.status === 'active' && !gameData.game_state?.gameOver && !isProcessing;
+
+  const callNumber = async (value: string | number) => {
+    setError(null);
+    try {
+      await callManualNumber(value);
+      setInput('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to call number');
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (input.trim()) callNumber(input);
+  };
+
+  return (
+    <Card className="border-2 border-purple-200">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Hand className="w-5 h-5 mr-2 text-purple-600" />
+          Manual Calling
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Draw a number from your drum, then tap it on the board or type it below.
+          {currentNumber !== null && (
+            <span className="ml-1 font-medium text-gray-800">
+              Last called: {formatCalledNumber(currentNumber, gameData.game_variant)}
+            </span>
+          )}
+        </p>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={input}
+            onChange={event => setInput(event.target.value)}
+            placeholder={`1-${getGameVariant(gameData.game_variant).totalNumbers}`}
+            inputMode="numeric"
+            disabled={!canCall}
+            className="flex-1 text-lg"
+          />
+          <Button type="submit" disabled={!canCall || !input.trim()} className="bg-purple-600 hover:bg-purple-700">
+            <Send className="w-4 h-4 mr-2" />
+            {isProcessing ? 'Calling...' : 'Call'}
+          </Button>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isPaused && (
+          <Alert>
+            <AlertDescription>Game is paused. Resume it to keep calling numbers.</AlertDescription>
+          </Alert>
+        )}
+
+        <NumberGrid
+          calledNumbers={calledNumbers}
+          currentNumber={currentNumber}
+          isHost={true}
+          gameVariant={gameData.game_variant}
+          onNumberSelect={callNumber}
+          selectionDisabled={!canCall}
+        />
+      </CardContent>
+    </Card>
+  );
+};
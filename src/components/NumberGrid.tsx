@@ -1,20 +1,30 @@
-// src/components/NumberGrid.tsx - CLEANED: Only display, no manual clicking
+// src/components/NumberGrid.tsx - Called-numbers board; hosts of manual games tap numbers to call them
 import React from 'react';
+import { getGameVariant, isBingoVariant, BINGO_LETTERS } from '@/services/game-variants';
 
 interface NumberGridProps {
   calledNumbers: number[];
   currentNumber: number | null;
   isHost?: boolean;
   isCallingNumber?: boolean; // Show calling state
+  gameVariant?: string; // '90-ball' (default) or '75-ball'
+  onNumberSelect?: (number: number) => void; // Manual calling - uncalled numbers become tappable
+  selectionDisabled?: boolean;
 }
 
 export const NumberGrid: React.FC<NumberGridProps> = ({ 
   calledNumbers, 
   currentNumber, 
   isHost = false,
-  isCallingNumber = false
+  isCallingNumber = false,
+  gameVariant,
+  onNumberSelect,
+  selectionDisabled = false
 }) => {
-  const numbers = Array.from({ length: 90 }, (_, i) => i + 1);
+  const variant = getGameVariant(gameVariant);
+  const isBingo = isBingoVariant(gameVariant);
+  const totalNumbers = variant.totalNumbers;
+  const numbers = Array.from({ length: totalNumbers }, (_, i) => i + 1);
 
   const getNumberStyle = (number: number) => {
     const isCalled = calledNumbers.includes(number);
@@ -48,10 +58,10 @@ export const NumberGrid: React.FC<NumberGridProps> = ({
     return 'text-base font-semibold';
   };
 
-  // Organize numbers in rows of 10 for better display
+  // Organize numbers in rows of 10 (90-ball) or one B-I-N-G-O row of 15 per letter (75-ball)
   const numberRows = [];
-  for (let i = 0; i < numbers.length; i += 10) {
-    numberRows.push(numbers.slice(i, i + 10));
+  for (let i = 0; i < numbers.length; i += variant.boardColumns) {
+    numberRows.push(numbers.slice(i, i + variant.boardColumns));
   }
 
   return (
@@ -74,22 +84,46 @@ export const NumberGrid: React.FC<NumberGridProps> = ({
         </div>
       </div>
 
-      {/* Number Grid - Display Only */}
+      {/* Number Grid */}
       <div className="space-y-2">
         {numberRows.map((row, rowIndex) => (
-          <div key={rowIndex} className="grid grid-cols-10 gap-2">
-            {row.map((number) => (
-              <div
-                key={number}
-                className={getNumberStyle(number)}
-                style={{ aspectRatio: '1' }}
-                title={`Number ${number}${calledNumbers.includes(number) ? ' - Called' : ''}${currentNumber === number ? ' - Current' : ''}`}
-              >
-                <span className={getNumberDisplayClass(number)}>
-                  {number}
-                </span>
+          <div key={rowIndex} className={`grid ${isBingo ? 'grid-cols-[auto_repeat(15,minmax(0,1fr))] gap-1' : 'grid-cols-10 gap-2'}`}>
+            {isBingo && (
+              <div className="flex items-center justify-center w-8 font-black text-lg text-blue-700">
+                {BINGO_LETTERS[rowIndex]}
               </div>
-            ))}
+            )}
+            {row.map((number) => {
+              const isSelectable = !!onNumberSelect && !calledNumbers.includes(number);
+              const title = `Number ${number}${calledNumbers.includes(number) ? ' - Called' : ''}${currentNumber === number ? ' - Current' : ''}`;
+
+              return isSelectable ? (
+                <button
+                  key={number}
+                  type="button"
+                  onClick={() => onNumberSelect(number)}
+                  disabled={selectionDisabled}
+                  className={`${getNumberStyle(number)} cursor-pointer disabled:cursor-not-allowed disabled:opacity-60`}
+                  style={{ aspectRatio: '1' }}
+                  title={`${title} - Tap to call`}
+                >
+                  <span className={getNumberDisplayClass(number)}>
+                    {number}
+                  </span>
+                </button>
+              ) : (
+                <div
+                  key={number}
+                  className={getNumberStyle(number)}
+                  style={{ aspectRatio: '1' }}
+                  title={title}
+                >
+                  <span className={getNumberDisplayClass(number)}>
+                    {number}
+                  </span>
+                </div>
+              );
+            })}
           </div>
         ))}
       </div>
@@ -110,22 +144,18 @@ export const NumberGrid: React.FC<NumberGridProps> = ({
       <div className="mt-4 bg-gray-50 rounded-lg p-3">
         <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
           <span>Game Progress</span>
-          <span>{calledNumbers.length}/90 numbers called</span>
+          <span>{calledNumbers.length}/{totalNumbers} numbers called</span>
         </div>
         <div className="w-full bg-gray-200 rounded-full h-2">
           <div 
             className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300"
-            style={{ width: `${(calledNumbers.length / 90) * 100}%` }}
+            style={{ width: `${(calledNumbers.length / totalNumbers) * 100}%` }}
           ></div>
         </div>
         <div className="text-xs text-gray-500 mt-1 text-center">
-          {90 - calledNumbers.length} numbers remaining
+          {totalNumbers - calledNumbers.length} numbers remaining
         </div>
       </div>
-
-      {/* ❌ REMOVED: All manual clicking functionality */}
-      {/* ❌ REMOVED: onNumberClick handlers */}
-      {/* ❌ REMOVED: Manual calling UI elements */}
     </div>
   );
 };
@@ -10,6 +10,7 @@ import {
   Target
 } from 'lucide-react';
 import { GameData, Prize } from '@/services/supabase';
+import { getTicketIdFormat, formatStoredTicketIds } from '@/services/ticket-ids';
 
 interface PrizeManagementPanelProps {
   gameData: GameData;
@@ -179,7 +180,7 @@ export const PrizeManagementPanel: React.FC<PrizeManagementPanelProps> = ({
                               {prize.winners.map((winner, index) => (
                                 <div key={index} className="flex items-center justify-between text-sm">
                                   <span className="font-medium text-gray-800">
-                                    🎉 {winner.name} - Ticket {winner.ticketId}
+                                    🎉 {winner.name} - Ticket {formatStoredTicketIds(winner.ticketId, gameData.tickets, getTicketIdFormat(gameData))}
                                   </span>
                                   {winner.phone && (
                                     <span className="text-gray-500 flex items-center">
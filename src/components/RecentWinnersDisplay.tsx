@@ -12,11 +12,16 @@ import {
   Phone,
   CheckCircle,
   AlertCircle,
-  Play
+  Play,
+  History
 } from 'lucide-react';
 import { useGameData } from '@/providers/GameDataProvider';
 // ✅ NEW: Import shared ticket renderer utility
 import { renderTicket } from '@/utils/ticketRenderer';
+import { getTicketIdFormat, resolveTicket, formatStoredTicketIds } from '@/services/ticket-ids';
+import { GameReplayViewer } from './GameReplayViewer';
+import { describeTieOutcome } from '@/services/prize-ties';
+import type { GamePrize } from '@/services/prize-registry';
 
 interface RecentWinnersDisplayProps {
   hostMode?: boolean;
@@ -29,6 +34,7 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
 }) => {
   const { gameData, isLoading, error } = useGameData();
   const [expandedWinners, setExpandedWinners] = useState<Set<string>>(new Set());
+  const [showReplay, setShowReplay] = useState(false);
   
   // ✅ START WITH ALL TICKETS COLLAPSED for mobile-friendly one-screen view
   React.useEffect(() => {
@@ -104,7 +110,7 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
   
  const wonPrizes = (() => {
     try {
-      return Object.values(gameData.prizes || {}).filter(p => p && p.won);
+      return (Object.values(gameData.prizes || {}) as GamePrize[]).filter(p => p && p.won);
     } catch (error) {
       console.error('Error processing won prizes in RecentWinnersDisplay:', error);
       return [];
@@ -157,7 +163,7 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
                         <div className="flex-1">
                           <h3 className="text-lg font-bold text-green-800 flex items-center">
                             🏆 {prize.name}
-                            {prize.id === 'fullHouse' && ' ⭐ FINAL WINNER!'}
+                            {prize.prizeType === 'fullHouse' && ' ⭐ FINAL WINNER!'}
                           </h3>
                           <p className="text-sm text-green-600">{prize.pattern}</p>
                         </div>
@@ -166,6 +172,10 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
                         </Badge>
                       </div>
 
+                      {describeTieOutcome(prize.tieBreak) && (
+                        <p className="text-sm text-green-700 mt-2">⚖️ {describeTieOutcome(prize.tieBreak)}</p>
+                      )}
+
                       {/* Winners List - Compact for Host */}
                       {prize.winners && prize.winners.length > 0 && (
                         <div className="mt-3 space-y-2">
@@ -176,7 +186,7 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
                                 <span className="font-medium text-gray-800">{winner.name}</span>
                               </div>
                               <div className="text-sm text-gray-600">
-                                Ticket {winner.ticketId}
+                                Ticket {formatStoredTicketIds(winner.ticketId, gameData.tickets, getTicketIdFormat(gameData))}
                                 {winner.phone && (
                                   <span className="ml-2 text-xs text-gray-500">
                                     📞 {winner.phone}
@@ -195,6 +205,16 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
           </CardContent>
         </Card>
 
+        {/* Replay - step through the calls to settle disputes */}
+        {showReplay ? (
+          <GameReplayViewer gameData={gameData} onClose={() => setShowReplay(false)} />
+        ) : (
+          <Button variant="outline" onClick={() => setShowReplay(true)} className="w-full">
+            <History className="w-4 h-4 mr-2" />
+            Replay Game
+          </Button>
+        )}
+
         {/* Create New Game Button */}
         {onCreateNewGame && (
           <Card>
@@ -287,11 +307,16 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
                               </p>
                             </div>
                           )}
+
+                          {/* How a tie was settled - a drawn or first-booked winner stands alone */}
+                          {describeTieOutcome(prize.tieBreak) && (
+                            <p className="text-xs text-green-700 mb-1.5">⚖️ {describeTieOutcome(prize.tieBreak)}</p>
+                          )}
                           
                           {prize.winners.map((winner, idx) => {
                             const winnerId = `${prize.id}-${idx}`;
                             const isExpanded = expandedWinners.has(winnerId);
-                            const winnerTicket = gameData.tickets[winner.ticketId];
+                            const winnerTicket = resolveTicket(winner.ticketId, gameData.tickets);
                             
                             return (
                               <div key={winnerId} className="bg-white rounded-md border border-green-200">
@@ -317,7 +342,7 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
                                         )}
                                       </p>
                                       <div className="flex items-center space-x-2 text-xs text-gray-600">
-                                        <span>Ticket {winner.ticketId}</span>
+                                        <span>Ticket {formatStoredTicketIds(winner.ticketId, gameData.tickets, getTicketIdFormat(gameData))}</span>
                                         {winner.phone && (
                                           <span className="hidden sm:inline flex items-center">
                                             <Phone className="w-3 h-3 mr-1" />
@@ -344,7 +369,7 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
                                    <div className="flex items-center justify-between mb-1.5 pt-1.5">
                                       <h5 className="font-medium text-gray-800 flex items-center text-xs sm:text-sm">
                                         <CheckCircle className="w-3 h-3 sm:w-4 sm:h-4 mr-1 text-green-600" />
-                                        {winner.name}'s Winning Ticket {winner.ticketId}
+                                        {winner.name}'s Winning Ticket {formatStoredTicketIds(winner.ticketId, gameData.tickets, getTicketIdFormat(gameData))}
                                         {prize.winners.length > 1 && (
                                           <span className="ml-2 text-green-600">(#{idx + 1})</span>
                                         )}
@@ -360,7 +385,8 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
                                           ticket: winnerTicket,
                                           calledNumbers: gameData.game_state?.calledNumbers || [],
                                           showPlayerInfo: false,
-                                          patternHighlight: prize.id // ✅ KEY FEATURE: Pattern highlighting
+                                          patternHighlight: prize.prizeType, // ✅ KEY FEATURE: Pattern highlighting
+                                          patternParams: prize.ruleParams
                                         })}
                                       </div>
                                     ) : (
@@ -395,6 +421,16 @@ export const RecentWinnersDisplay: React.FC<RecentWinnersDisplayProps> = ({
             )}
           </CardContent>
         </Card>
+
+        {/* Replay - step through the calls to settle disputes */}
+        {showReplay ? (
+          <GameReplayViewer gameData={gameData} onClose={() => setShowReplay(false)} />
+        ) : (
+          <Button variant="outline" onClick={() => setShowReplay(true)} className="w-full">
+            <History className="w-4 h-4 mr-2" />
+            Replay Game
+          </Button>
+        )}
       </div>
     </div>
   );
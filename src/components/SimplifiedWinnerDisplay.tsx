@@ -3,8 +3,12 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Trophy, User, Play, CheckCircle } from 'lucide-react';
+import { Trophy, User, Play, CheckCircle, History } from 'lucide-react';
 import { GameData } from '@/services/firebase';
+import { getTicketIdFormat, formatStoredTicketIds } from '@/services/ticket-ids';
+import { GameReplayViewer } from './GameReplayViewer';
+import { describeTieOutcome } from '@/services/prize-ties';
+import type { GamePrize } from '@/services/prize-registry';
 
 interface SimplifiedWinnerDisplayProps {
   gameData: GameData;
@@ -15,7 +19,8 @@ export const SimplifiedWinnerDisplay: React.FC<SimplifiedWinnerDisplayProps> = (
   gameData, 
   onCreateNewGame 
 }) => {
-  const wonPrizes = Object.values(gameData.prizes).filter(p => p.won);
+  const [showReplay, setShowReplay] = React.useState(false);
+  const wonPrizes = (Object.values(gameData.prizes) as GamePrize[]).filter(p => p.won);
   const totalWinners = wonPrizes.reduce((total, prize) => total + (prize.winners?.length || 0), 0);
   // 🔊 Game Over Audio Announcement
  // 🔊 Game Over Audio Announcement - MEGA FUN VERSION!
@@ -182,6 +187,10 @@ export const SimplifiedWinnerDisplay: React.FC<SimplifiedWinnerDisplayProps> = (
                         </Badge>
                       </div>
 
+                      {describeTieOutcome(prize.tieBreak) && (
+                        <p className="text-xs text-green-700 mb-1">⚖️ {describeTieOutcome(prize.tieBreak)}</p>
+                      )}
+
                       {/* Winners Grid - Mobile Optimized */}
                       {prize.winners && prize.winners.length > 0 && (
                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1">
@@ -193,7 +202,7 @@ export const SimplifiedWinnerDisplay: React.FC<SimplifiedWinnerDisplayProps> = (
                                   {winner.name}
                                 </span>
                                 <Badge variant="outline" className="text-xs border-gray-300 text-gray-600">
-                                  No. {winner.ticketId}
+                                  No. {formatStoredTicketIds(winner.ticketId, gameData.tickets, getTicketIdFormat(gameData))}
                                 </Badge>
                               </div>
                             </div>
@@ -208,9 +217,25 @@ export const SimplifiedWinnerDisplay: React.FC<SimplifiedWinnerDisplayProps> = (
           </CardContent>
         </Card>
 
+        {/* Replay - step back through the calls to settle disputes */}
+        {showReplay && (
+          <GameReplayViewer gameData={gameData} onClose={() => setShowReplay(false)} />
+        )}
+
         {/* Create New Game Button - Prominent */}
         <Card>
-          <CardContent className="p-3 sm:p-4 text-center">
+          <CardContent className="p-3 sm:p-4 text-center space-y-2 sm:space-y-0 sm:space-x-2">
+            {!showReplay && (
+              <Button
+                variant="outline"
+                onClick={() => setShowReplay(true)}
+                className="px-6 py-3 text-sm sm:text-base font-semibold w-full sm:w-auto"
+                size="lg"
+              >
+                <History className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                Replay Game
+              </Button>
+            )}
             <Button 
               onClick={() => {
                 console.log('🎮 Host clicked Create New Game from winner display');
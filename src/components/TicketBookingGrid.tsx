@@ -104,7 +104,7 @@ export const TicketBookingGrid: React.FC<TicketBookingGridProps> = ({
     }
 
     // Create simplified WhatsApp message with only ticket number
-    const message = `Hi! I want to book Ticket ${ticketId}. Please confirm my booking.`;
+    const message = `Hi! I want to book Ticket ${ticket.displayId || ticketId}. Please confirm my booking.`;
     const whatsappUrl = `https://wa.me/${hostPhone}?text=${encodeURIComponent(message)}`;
     window.open(whatsappUrl, '_blank');
   };
@@ -223,7 +223,7 @@ export const TicketBookingGrid: React.FC<TicketBookingGridProps> = ({
       {/* NEW: Ticket Info Header */}
       <div className="flex items-center justify-between p-3 border-b border-gray-200">
         <div className="flex items-center space-x-2">
-          <span className="font-bold text-gray-800">Ticket {ticketId}</span>
+          <span className="font-bold text-gray-800">Ticket {ticket.displayId || ticketId}</span>
         </div>
         <div className="text-right">
           {ticket.isBooked ? (
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   Ticket, 
   Users, 
@@ -16,13 +17,19 @@ import {
   UserPlus,
   CheckSquare,
   Loader2,
-  X
+  Printer,
+  Share2,
+  X,
+  AlertCircle
 } from 'lucide-react';
 import { supabaseService } from '@/services/supabase';
+import { TicketPrintView } from './TicketPrintView';
+import { TicketShareDialog } from './TicketShareDialog';
 import type { GameData, TambolaTicket } from '@/services/supabase-types';
 
 interface TicketManagementGridProps {
   gameData: GameData;
+  hostName?: string;
   onRefreshGame: () => void;
 }
 
@@ -33,6 +40,7 @@ interface BookingForm {
 
 interface TicketInfo {
   ticketId: string;
+  displayId: string;
   isBooked: boolean;
   playerName?: string;
   playerPhone?: string;
@@ -41,6 +49,7 @@ interface TicketInfo {
 
 export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({ 
   gameData,
+  hostName,
   onRefreshGame
 }) => {
   const [selectedTickets, setSelectedTickets] = useState<string[]>([]);
@@ -51,7 +60,10 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
   const [isUpdating, setIsUpdating] = useState(false);
   const [isCanceling, setIsCanceling] = useState('');
   const [isExpanding, setIsExpanding] = useState(false);
+  const [expandError, setExpandError] = useState<string | null>(null);
   const [isScrolledDown, setIsScrolledDown] = useState(false);
+  const [showPrintView, setShowPrintView] = useState(false);
+  const [shareTickets, setShareTickets] = useState<{ ticketIds: string[]; playerName?: string }>({ ticketIds: [] });
   
   const [bookingForm, setBookingForm] = useState<BookingForm>({
     playerName: '',
@@ -63,18 +75,6 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
     playerPhone: ''
   });
 
-  // Detect when tickets are being expanded
-  useEffect(() => {
-    const currentTicketCount = Object.keys(gameData.tickets || {}).length;
-    const expectedTicketCount = gameData.maxTickets;
-    
-    if (currentTicketCount > 0 && currentTicketCount < expectedTicketCount) {
-      setIsExpanding(true);
-    } else {
-      setIsExpanding(false);
-    }
-  }, [gameData.tickets, gameData.maxTickets]);
-
   // Generate ticket information
   const ticketInfo = useMemo(() => {
     const tickets: TicketInfo[] = [];
@@ -85,6 +85,7 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
       
       tickets.push({
         ticketId,
+        displayId: ticket?.displayId || ticketId,
         isBooked: ticket?.isBooked || false,
         playerName: ticket?.playerName,
         playerPhone: ticket?.playerPhone,
@@ -152,6 +153,8 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
         );
       }
 
+      // Offer the booked tickets as images to send the player
+      setShareTickets({ ticketIds: selectedTickets, playerName: bookingForm.playerName.trim() });
       setSelectedTickets([]);
       setBookingForm({ playerName: '', playerPhone: '' });
       setShowBookingDialog(false);
@@ -205,11 +208,13 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
 
   const expandTickets = async () => {
     setIsExpanding(true);
+    setExpandError(null);
     try {
       await supabaseService.expandGameTickets(gameData.gameId, gameData.maxTickets);
       onRefreshGame();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error expanding tickets:', error);
+      setExpandError(error.message || 'Failed to expand tickets. Please try again.');
     } finally {
       setIsExpanding(false);
     }
@@ -321,6 +326,16 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
                 <span className="hidden sm:inline">Clear</span>
               </Button>
             )}
+
+            <Button
+              onClick={() => setShowPrintView(true)}
+              variant="outline"
+              className="flex-shrink-0"
+              size="sm"
+            >
+              <Printer className="w-3 h-3 sm:mr-1" />
+              <span className="hidden sm:inline">Print</span>
+            </Button>
           </div>
 
           {/* Legend */}
@@ -359,6 +374,12 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
                   {isExpanding ? 'Expanding...' : 'Expand Tickets'}
                 </Button>
               </div>
+              {expandError && (
+                <Alert variant="destructive" className="mt-3">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{expandError}</AlertDescription>
+                </Alert>
+              )}
             </div>
           )}
         </CardContent>
@@ -378,10 +399,10 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
                     key={ticket.ticketId}
                     className={getTicketClassName(ticket)}
                     onClick={() => handleTicketClick(ticket.ticketId, ticket.isBooked)}
-                    title={`Ticket ${ticket.ticketId}${ticket.isBooked ? ` - Booked by ${ticket.playerName}` : selectedTickets.includes(ticket.ticketId) ? ' - Selected' : ' - Available'}`}
+                    title={`Ticket ${ticket.displayId}${ticket.isBooked ? ` - Booked by ${ticket.playerName}` : selectedTickets.includes(ticket.ticketId) ? ' - Selected' : ' - Available'}`}
                   >
                     <span className="font-bold text-lg">
-                      {ticket.ticketId}
+                      {ticket.displayId}
                     </span>
                   </div>
                 ))}
@@ -481,7 +502,7 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
             <div className="bg-gray-50 p-3 rounded">
               <p className="text-sm font-medium">Selected Tickets:</p>
               <p className="text-sm text-gray-600">
-                {selectedTickets.map(id => `${id}`).join(', ')}
+                {selectedTickets.map(id => gameData.tickets?.[id]?.displayId || id).join(', ')}
               </p>
             </div>
             <div className="flex justify-end space-x-3">
@@ -506,7 +527,7 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
       <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Edit Ticket #{editingTicket?.ticketId}</DialogTitle>
+            <DialogTitle>Edit Ticket #{editingTicket?.displayId}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
             <div>
@@ -545,6 +566,22 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
         </DialogContent>
      </Dialog>
 
+      {/* Ticket images for WhatsApp confirmations */}
+      <TicketShareDialog
+        gameData={gameData}
+        hostName={hostName}
+        ticketIds={shareTickets.ticketIds}
+        playerName={shareTickets.playerName}
+        onClose={() => setShareTickets({ ticketIds: [] })}
+      />
+
+      {/* Print / PDF export */}
+      <TicketPrintView
+        gameData={gameData}
+        open={showPrintView}
+        onOpenChange={setShowPrintView}
+      />
+
       {/* NEW: Booked Tickets List */}
       {(() => {
         const bookedTickets = ticketInfo.filter(t => t.isBooked);
@@ -575,7 +612,7 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
                             {ticket.playerName || 'Unknown Player'}
                           </div>
                           <div className="text-sm text-gray-600">
-                            Ticket #{ticket.ticketId}
+                            Ticket #{ticket.displayId}
                           </div>
                           {ticket.playerPhone && (
                             <div className="text-xs text-gray-500">
@@ -584,6 +621,15 @@ export const TicketManagementGrid: React.FC<TicketManagementGridProps> = ({
                           )}
                         </div>
                         <div className="flex space-x-2 ml-4">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setShareTickets({ ticketIds: [ticket.ticketId] })}
+                            className="text-green-600 hover:text-green-700"
+                            title="Share ticket image"
+                          >
+                            <Share2 className="w-4 h-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
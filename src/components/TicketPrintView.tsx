@@ -0,0 +1,191 @@
+// src/components/TicketPrintView.tsx - Print-ready ticket sheets (strips of 6 per page, saves cleanly to PDF)
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Printer } from 'lucide-react';
+import { renderTicket } from '@/utils/ticketRenderer';
+import {
+  selectTicketsForPrint,
+  paginateTicketsForPrint,
+  getTicketVerificationCode,
+  getBookedPlayerNames,
+  getTicketSetIds,
+  type PrintSelection,
+  type PrintPage
+} from '@/utils/ticketPrint';
+import { isBingoVariant } from '@/services/game-variants';
+import type { GameData } from '@/services/supabase-types';
+
+interface TicketPrintViewProps {
+  gameData: GameData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type SelectionType = PrintSelection['type'];
+
+const SELECTION_LABELS: Record<SelectionType, string> = {
+  all: 'All tickets',
+  booked: 'Only booked',
+  player: "A player's tickets",
+  set: 'A set'
+};
+
+interface PrintSheetProps {
+  gameName: string;
+  gameId: string;
+  pages: PrintPage[];
+}
+
+const PrintSheet: React.FC<PrintSheetProps> = ({ gameName, gameId, pages }) => (
+  <>
+    {pages.map((page, pageIndex) => (
+      <section key={pageIndex} className="ticket-print-page">
+        <header className="flex items-baseline justify-between border-b border-gray-400 pb-1 mb-3">
+          <h1 className="text-lg font-bold text-gray-900">{gameName}</h1>
+          <span className="text-xs text-gray-600">
+            {page.setId ? `Set ${page.setId} · ` : ''}Page {pageIndex + 1} of {pages.length}
+          </span>
+        </header>
+
+        <div className="grid grid-cols-2 gap-3">
+          {page.tickets.map(ticket => (
+            <div key={ticket.ticketId} className="ticket-print-ticket">
+              <div className="flex items-center justify-between text-xs text-gray-800 mb-1 px-1">
+                <span className="font-bold">Ticket #{ticket.displayId || ticket.ticketId}</span>
+                <span className="truncate mx-2">{ticket.isBooked && ticket.playerName ? ticket.playerName : '________________'}</span>
+                <span className="font-mono tracking-wider">{getTicketVerificationCode(gameId, ticket)}</span>
+              </div>
+              {renderTicket({ ticket, calledNumbers: [], showPlayerInfo: false })}
+            </div>
+          ))}
+        </div>
+      </section>
+    ))}
+  </>
+);
+
+export const TicketPrintView: React.FC<TicketPrintViewProps> = ({
+  gameData,
+  open,
+  onOpenChange
+}) => {
+  const [selectionType, setSelectionType] = useState<SelectionType>('all');
+  const [playerName, setPlayerName] = useState('');
+  const [setId, setSetId] = useState('');
+
+  const tickets = useMemo(() => gameData.tickets || {}, [gameData]);
+  const playerNames = useMemo(() => getBookedPlayerNames(tickets), [tickets]);
+  const setIds = useMemo(() => getTicketSetIds(tickets), [tickets]);
+
+  const selection: PrintSelection | null = useMemo(() => {
+    switch (selectionType) {
+      case 'player':
+        return playerName ? { type: 'player', playerName } : null;
+      case 'set':
+        return setId ? { type: 'set', setId: parseInt(setId) } : null;
+      default:
+        return { type: selectionType };
+    }
+  }, [selectionType, playerName, setId]);
+
+  const selectedTickets = useMemo(
+    () => (selection ? selectTicketsForPrint(tickets, selection) : []),
+    [tickets, selection]
+  );
+
+  const pages = useMemo(
+    () => paginateTicketsForPrint(selectedTickets, !isBingoVariant(gameData.game_variant)),
+    [selectedTickets, gameData.game_variant]
+  );
+
+  const gameName = gameData.name || 'Tambola';
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Printer className="w-5 h-5 mr-2" />
+              Print Tickets
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label className="mb-1 block text-sm">Tickets to print</Label>
+              <Select value={selectionType} onValueChange={(value) => setSelectionType(value as SelectionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SELECTION_LABELS) as SelectionType[]).map(type => (
+                    <SelectItem key={type} value={type}>{SELECTION_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectionType === 'player' && (
+              <div>
+                <Label className="mb-1 block text-sm">Player</Label>
+                <Select value={playerName} onValueChange={setPlayerName} disabled={playerNames.length === 0}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={playerNames.length === 0 ? 'No booked players yet' : 'Choose a player'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {playerNames.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {selectionType === 'set' && (
+              <div>
+                <Label className="mb-1 block text-sm">Set</Label>
+                <Select value={setId} onValueChange={setSetId} disabled={setIds.length === 0}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a set" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {setIds.map(id => (
+                      <SelectItem key={id} value={id.toString()}>Set {id}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+              {selectedTickets.length} ticket(s) on {pages.length} page(s).
+              Use "Save as PDF" as the printer to export a PDF.
+            </div>
+
+            <Button
+              onClick={() => window.print()}
+              disabled={pages.length === 0}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Print / Save as PDF
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Only rendered while the dialog is open - print styles hide the rest of the app */}
+      {open && createPortal(
+        <div className="ticket-print-root">
+          <PrintSheet gameName={gameName} gameId={gameData.id} pages={pages} />
+        </div>,
+        document.body
+      )}
+    </>
+  );
+};
@@ -0,0 +1,121 @@
+// src/components/TicketSetUpload.tsx - Upload a host's own printed tickets as a ticket set
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Upload, AlertCircle, Loader2 } from 'lucide-react';
+import { supabaseService } from '@/services/supabase';
+import { parseTicketSetFile } from '@/services/ticket-sets';
+import type { HostTicketSet } from '@/services/supabase-types';
+
+interface TicketSetUploadProps {
+  hostId: string;
+  disabled?: boolean;
+  onUploaded: (ticketSet: HostTicketSet) => void;
+}
+
+export const TicketSetUpload: React.FC<TicketSetUploadProps> = ({
+  hostId,
+  disabled = false,
+  onUploaded
+}) => {
+  const [name, setName] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setFile(selected);
+    setUploadError(null);
+
+    if (selected && !name.trim()) {
+      setName(selected.name.replace(/\.(json|csv)$/i, ''));
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file || !name.trim()) return;
+
+    setIsUploading(true);
+    setUploadError(null);
+
+    try {
+      const rows = parseTicketSetFile(file.name, await file.text());
+      const ticketSet = await supabaseService.saveHostTicketSet(hostId, name, rows);
+
+      setName('');
+      setFile(null);
+      onUploaded(ticketSet);
+    } catch (error: any) {
+      console.error('❌ Ticket set upload failed:', error);
+      setUploadError(error.message || 'Failed to upload ticket set');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const isDisabled = disabled || isUploading;
+
+  return (
+    <div className="p-4 border border-dashed border-gray-300 rounded-lg space-y-3">
+      <div>
+        <h3 className="font-medium flex items-center">
+          <Upload className="w-4 h-4 mr-2" />
+          Upload Your Own Tickets
+        </h3>
+        <p className="text-sm text-gray-600 mt-1">
+          JSON in the standard ticket set format, or CSV with one ticket per line (27 cells, row by row, blank or 0 for empty cells).
+          Every 6 tickets must form a complete strip covering 1-90.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="ticketSetName" className="mb-1 block text-sm">Set Name</Label>
+          <Input
+            id="ticketSetName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Diwali Book"
+            disabled={isDisabled}
+          />
+        </div>
+        <div>
+          <Label htmlFor="ticketSetFile" className="mb-1 block text-sm">File</Label>
+          <Input
+            id="ticketSetFile"
+            type="file"
+            accept=".json,.csv"
+            onChange={handleFileChange}
+            disabled={isDisabled}
+          />
+        </div>
+      </div>
+
+      {uploadError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{uploadError}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={handleUpload}
+        disabled={isDisabled || !file || !name.trim()}
+      >
+        {isUploading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Validating...
+          </>
+        ) : (
+          'Upload Ticket Set'
+        )}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+// src/components/TicketShareDialog.tsx - Ticket images to send players after booking
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Share2, Download, Loader2 } from 'lucide-react';
+import {
+  buildTicketSvg,
+  shareTicketImage,
+  downloadTicketImage,
+  type TicketImageOptions
+} from '@/utils/ticketImage';
+import type { PrintableTicket } from '@/utils/ticketPrint';
+import type { GameData } from '@/services/supabase-types';
+
+interface TicketShareDialogProps {
+  gameData: GameData;
+  hostName?: string;
+  ticketIds: string[];
+  // Name just booked - gameData may not have refreshed yet
+  playerName?: string;
+  onClose: () => void;
+}
+
+export const TicketShareDialog: React.FC<TicketShareDialogProps> = ({
+  gameData,
+  hostName,
+  ticketIds,
+  playerName,
+  onClose
+}) => {
+  const [busyAction, setBusyAction] = useState('');
+
+  const images = useMemo(() => {
+    const tickets: { [ticketId: string]: PrintableTicket } = gameData.tickets || {};
+
+    return ticketIds
+      .map(ticketId => tickets[ticketId])
+      .filter(ticket => ticket && Array.isArray(ticket.rows))
+      .map(ticket => {
+        const options: TicketImageOptions = {
+          ticket: playerName ? { ...ticket, playerName } : ticket,
+          gameId: gameData.id,
+          gameName: gameData.name || 'Tambola',
+          hostName
+        };
+        const svg = buildTicketSvg(options);
+        return { options, preview: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` };
+      });
+  }, [gameData, ticketIds, playerName, hostName]);
+
+  const runAction = async (key: string, action: () => Promise<unknown>) => {
+    setBusyAction(key);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('❌ Ticket image failed:', error);
+      alert(error.message || 'Failed to create ticket image. Please try again.');
+    } finally {
+      setBusyAction('');
+    }
+  };
+
+  return (
+    <Dialog open={ticketIds.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Share2 className="w-5 h-5 mr-2" />
+            Share Ticket{images.length === 1 ? '' : 's'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {images.length === 0 ? (
+          <p className="text-sm text-gray-600">Ticket data is still loading - please try again in a moment.</p>
+        ) : (
+          <div className="space-y-4">
+            {images.map(({ options, preview }) => {
+              const ticketId = options.ticket.ticketId;
+
+              return (
+                <div key={ticketId} className="space-y-2">
+                  <img src={preview} alt={`Ticket ${ticketId}`} className="w-full rounded" />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+                      disabled={!!busyAction}
+                      onClick={() => runAction(`share-${ticketId}`, () => shareTicketImage(options))}
+                    >
+                      {busyAction === `share-${ticketId}` ? (
+                        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                      ) : (
+                        <Share2 className="w-3 h-3 mr-1" />
+                      )}
+                      Share
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!!busyAction}
+                      onClick={() => runAction(`png-${ticketId}`, () => downloadTicketImage(options, 'png'))}
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      PNG
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!!busyAction}
+                      onClick={() => runAction(`svg-${ticketId}`, () => downloadTicketImage(options, 'svg'))}
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      SVG
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,101 @@
+// src/components/UndoLastCallDialog.tsx - Host removes a wrongly called number while paused
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Undo2 } from 'lucide-react';
+import { useHostControls } from '@/providers/HostControlsProvider';
+import { formatCalledNumber } from '@/services/game-variants';
+
+interface UndoLastCallDialogProps {
+  gameData: any;
+  open: boolean;
+  onClose: () => void;
+}
+
+export const UndoLastCallDialog: React.FC<UndoLastCallDialogProps> = ({ gameData, open, onClose }) => {
+  const { undoLastCall, isProcessing } = useHostControls();
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const calledNumbers: number[] = gameData?.game_state?.calledNumbers || [];
+  const lastNumber = calledNumbers.length > 0 ? calledNumbers[calledNumbers.length - 1] : null;
+
+  // Prizes won on the last call go back into play
+  const affectedPrizes = Object.values(gameData?.prizes || {}).filter(
+    (prize: any) => prize.won && prize.winningNumber === lastNumber
+  ) as { id: string; name: string }[];
+
+  const handleClose = () => {
+    setReason('');
+    setError(null);
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    setError(null);
+    try {
+      await undoLastCall(reason);
+      handleClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to undo last call');
+    }
+  };
+
+  if (lastNumber === null) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Undo2 className="w-5 h-5 mr-2" />
+            Undo {formatCalledNumber(lastNumber, gameData.game_variant)}?
+          </DialogTitle>
+          <DialogDescription>
+            The number is removed from the board and players hear a correction. The reason is
+            recorded in the game's audit log.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {affectedPrizes.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Won on this number and will be reverted: {affectedPrizes.map(prize => prize.name).join(', ')}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="undo-reason">Reason</Label>
+            <Textarea
+              id="undo-reason"
+              value={reason}
+              onChange={event => setReason(event.target.value)}
+              placeholder="e.g. Tapped 38 instead of 83"
+              rows={3}
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={isProcessing || !reason.trim()}>
+            {isProcessing ? 'Undoing...' : 'Undo Call'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -15,17 +15,25 @@ import {
   Clock,
   User,
   Hash,
-  CheckCircle
+  CheckCircle,
+  ShieldCheck,
+  Undo2,
+  Hand
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { useGameData } from '@/providers/GameDataProvider';
 import { NumberGrid } from './NumberGrid';
 import { AudioManager } from './AudioManager';
 import { AudioStatusComponent } from './AudioStatusComponent';
-import type { TambolaTicket } from '@/services/supabase-types';
+import type { GamePrize, GameTicket } from '@/services/prize-registry';
 import { renderTicket } from '@/utils/ticketRenderer';
+import { getGameVariant, formatCalledNumber } from '@/services/game-variants';
+import { getTicketIdFormat, resolveTicket, resolveTicketId, formatStoredTicketIds } from '@/services/ticket-ids';
+import { getPendingClaims } from '@/services/claim-checks';
+import { describeTieOutcome } from '@/services/prize-ties';
 
 interface SearchedTicket {
-  ticket: TambolaTicket;
+  ticket: GameTicket;
   playerName: string;
   uniqueId: string;
 }
@@ -41,13 +49,18 @@ export const UserDisplay: React.FC = () => {
   const [searchedTickets, setSearchedTickets] = useState<SearchedTicket[]>([]);
   // ✅ ENHANCED: Extract data safely with null checks and format validation
   const tickets = gameData?.tickets || {};
+  const ticketIdFormat = getTicketIdFormat(gameData);
   // ✅ CHANGED: Use visual called numbers instead of database
 
   const currentNumber = gameData?.game_state?.currentNumber;
+  // Shown until the host calls the next number
+  const lastCorrection = gameData?.game_state?.lastCorrection;
+  const showCorrection = !!lastCorrection && gameData?.game_state?.calledNumbers?.length === lastCorrection.callsAfter;
+  const pendingClaims = getPendingClaims(gameData?.game_state);
  const prizes = (() => {
     if (!gameData) return [];
     try {
-      return Object.values(gameData.prizes || {}).sort((a, b) => (a.order || 0) - (b.order || 0));
+      return (Object.values(gameData.prizes || {}) as GamePrize[]).sort((a, b) => (a.order || 0) - (b.order || 0));
     } catch (error) {
       console.error('Error processing prizes in UserDisplay:', error);
       return [];
@@ -102,29 +115,9 @@ export const UserDisplay: React.FC = () => {
     const searchedTicketId = searchQuery.trim();
     console.log(`🔍 Searching for ticket: "${searchedTicketId}"`);
     
-    // ✅ NEW: Try both formats for backward compatibility during transition
-    let ticket = tickets[searchedTicketId];
-    let actualTicketId = searchedTicketId;
-    
-    // If not found and it's a simple number, try padded format as fallback
-    if (!ticket && /^\d{1,2}$/.test(searchedTicketId)) {
-      const paddedId = searchedTicketId.padStart(3, '0');
-      if (tickets[paddedId]) {
-        ticket = tickets[paddedId];
-        actualTicketId = paddedId;
-        console.log(`🔄 Found ticket using padded format: ${paddedId}`);
-      }
-    }
-    
-    // If still not found and it's padded, try simple format
-    if (!ticket && /^\d{3}$/.test(searchedTicketId)) {
-      const simpleId = parseInt(searchedTicketId, 10).toString();
-      if (tickets[simpleId]) {
-        ticket = tickets[simpleId];
-        actualTicketId = simpleId;
-        console.log(`🔄 Found ticket using simple format: ${simpleId}`);
-      }
-    }
+    // Accepts every ticket ID form: "7", "007", "S2-1", "T7"
+    const actualTicketId = resolveTicketId(searchedTicketId, tickets);
+    const ticket = actualTicketId ? tickets[actualTicketId] : undefined;
 
     if (ticket && ticket.isBooked && ticket.playerName) {
       console.log(`✅ Found booked ticket: ${actualTicketId} for ${ticket.playerName}`);
@@ -183,7 +176,7 @@ export const UserDisplay: React.FC = () => {
       <div className="mt-3 p-4 bg-white rounded-lg border border-green-200">
         <div className="space-y-4">
           {prize.winners.map((winner: any, idx: number) => {
-            const winnerTicket = tickets[winner.ticketId];
+            const winnerTicket = resolveTicket(winner.ticketId, tickets);
             
             // ✅ ENHANCED: Check if ticket exists and has valid structure
             if (!winnerTicket || !winnerTicket.rows) {
@@ -192,7 +185,7 @@ export const UserDisplay: React.FC = () => {
                   <div className="flex items-center justify-between mb-2">
                     <h5 className="font-medium text-gray-800">
                       <User className="w-4 h-4 inline mr-1" />
-                      {winner.name} - Ticket {winner.ticketId}
+                      {winner.name} - Ticket {formatStoredTicketIds(winner.ticketId, tickets, ticketIdFormat)}
                     </h5>
                     {prize.winningNumber && (
                       <Badge variant="outline" className="text-gray-700 border-gray-300">
@@ -220,7 +213,7 @@ export const UserDisplay: React.FC = () => {
                 <div className="flex items-center justify-between mb-2">
                   <h5 className="font-medium text-gray-800">
                     <User className="w-4 h-4 inline mr-1" />
-                    {winner.name} - Ticket {winner.ticketId}
+                    {winner.name} - Ticket {formatStoredTicketIds(winner.ticketId, tickets, ticketIdFormat)}
                   </h5>
                   {prize.winningNumber && (
                     <Badge variant="outline" className="text-gray-700 border-gray-300">
@@ -314,12 +307,47 @@ export const UserDisplay: React.FC = () => {
           </Card>
         )}
 
+        {/* Correction notice after the host undoes a call */}
+        {showCorrection && currentPhase === 'playing' && (
+          <Card className="border-2 border-amber-300 bg-amber-50">
+            <CardContent className="py-3 flex items-start">
+              <Undo2 className="w-5 h-5 mr-3 mt-0.5 text-amber-700 flex-shrink-0" />
+              <div className="text-amber-900">
+                <p className="font-semibold">
+                  Correction: {formatCalledNumber(lastCorrection.number, gameData?.game_variant)} has been cancelled - unmark it on your ticket
+                </p>
+                <p className="text-sm">{lastCorrection.reason}</p>
+                {lastCorrection.revertedPrizes?.length > 0 && (
+                  <p className="text-sm mt-1">
+                    Back in play: {lastCorrection.revertedPrizes.map(prize => prize.name).join(', ')}
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Hold-for-claims games pause while the host checks a winning ticket */}
+        {pendingClaims.length > 0 && currentPhase === 'playing' && (
+          <Card className="border-2 border-orange-300 bg-orange-50">
+            <CardContent className="py-3 flex items-start">
+              <Hand className="w-5 h-5 mr-3 mt-0.5 text-orange-700 flex-shrink-0" />
+              <div className="text-orange-900">
+                <p className="font-semibold">
+                  Checking claim: {pendingClaims.map(claim => claim.prizeName).join(', ')}
+                </p>
+                <p className="text-sm">Calling will continue once the host has checked the ticket.</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
        {/* Current Number Display */}
         {currentNumber && currentPhase === 'playing' && (
           <Card className="bg-gradient-to-r from-red-500 to-red-600 text-white border-0">
             <CardContent className="text-center py-4">
               <p className="text-lg mb-2">Current Number</p>
-              <div className="text-5xl font-bold animate-pulse">{currentNumber}</div>
+              <div className="text-5xl font-bold animate-pulse">{formatCalledNumber(currentNumber, gameData?.game_variant)}</div>
               <p className="text-sm mt-2 opacity-90">Mark this number on your ticket!</p>
             </CardContent>
           </Card>
@@ -331,13 +359,14 @@ export const UserDisplay: React.FC = () => {
             <CardHeader>
               <CardTitle className="text-center text-gray-800 flex items-center justify-center">
                 <Hash className="w-5 h-5 mr-2" />
-                Numbers Board (1-90)
+                Numbers Board (1-{getGameVariant(gameData?.game_variant).totalNumbers})
               </CardTitle>
             </CardHeader>
             <CardContent>
               <NumberGrid
                 calledNumbers={calledNumbers}
                 currentNumber={currentNumber}
+                gameVariant={gameData?.game_variant}
               />
             </CardContent>
           </Card>
@@ -403,7 +432,7 @@ export const UserDisplay: React.FC = () => {
                             size="sm"
                             onClick={() => removeSearchedTicket(item.uniqueId)}
                             className="absolute top-0 right-0 z-10 bg-white/90 text-red-600 hover:text-red-700 hover:bg-red-50 p-0.5 h-3 w-3"
-                            title={`Remove Ticket ${item.ticket.ticketId}`}
+                            title={`Remove Ticket ${item.ticket.displayId || item.ticket.ticketId}`}
                           >
                             <X className="w-3 h-3" />
                           </Button>
@@ -455,6 +484,9 @@ export const UserDisplay: React.FC = () => {
                               Won by: {prize.winners.map(w => w.name).join(', ')}
                             </p>
                           )}
+                          {prize.won && describeTieOutcome(prize.tieBreak) && (
+                            <p className="text-xs text-green-700">⚖️ {describeTieOutcome(prize.tieBreak)}</p>
+                          )}
                         </div>
                         <div className="flex items-center space-x-2">
                           <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
@@ -493,6 +525,14 @@ export const UserDisplay: React.FC = () => {
                 <p>Total Numbers Called: {calledNumbers.length}</p>
                 <p>Prizes Won: {prizes.filter(p => p.won).length} of {prizes.length}</p>
               </div>
+              {gameData.session_metadata?.commitment && (
+                <Button asChild variant="secondary" className="mt-6">
+                  <Link to={`/verify/${gameData.gameId}`}>
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                    Verify the draw
+                  </Link>
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -534,6 +574,10 @@ export const UserDisplay: React.FC = () => {
               console.log('🔊 User audio announcement completed');
             }}
             forceEnable={false} // Let users enable manually
+            gameState={gameData.game_state}
+            gameVariant={gameData.game_variant}
+            tickets={tickets}
+            ticketIdFormat={ticketIdFormat}
           />
         )}
 
@@ -9,6 +9,7 @@ import { RecentWinnersDisplay } from './RecentWinnersDisplay';
 import { GameDataProvider } from '@/providers/GameDataProvider';
 import { useActiveGamesSubscription } from '@/hooks/useSupabaseSubscription';
 import type { GameData } from '@/services/supabase-types';
+import { getScheduledStart, isScheduledGame, formatTimeUntil, formatScheduledStart } from '@/services/game-schedule';
 import { 
   Loader2, 
   Trophy, 
@@ -19,7 +20,8 @@ import {
   Activity,
   Clock,
   Zap,
-  CheckCircle
+  CheckCircle,
+  CalendarClock
 } from 'lucide-react';
 
 interface UserLandingPageProps {
@@ -43,6 +45,9 @@ interface GameSummary {
   gameOver: boolean; // 🆕 NEW: Track if game is completed
   bookedTickets: number;
   createdAt: string;
+  // Epoch ms the game goes live on its own, for games still waiting to start
+  scheduledStart: number | null;
+  scheduledStartLabel: string | null;
   // 🆕 NEW: Winner information for completed games
   winnerCount?: number;
   prizesWon?: number;
@@ -134,6 +139,8 @@ export const UserLandingPage: React.FC<UserLandingPageProps> = ({
         gameOver: game.game_state.gameOver,
         bookedTickets,
         createdAt: game.createdAt,
+        scheduledStart: isScheduledGame(game) ? getScheduledStart(game) : null,
+        scheduledStartLabel: isScheduledGame(game) ? formatScheduledStart(game) : null,
         // 🆕 NEW: Winner statistics
         winnerCount,
         prizesWon,
@@ -142,6 +149,15 @@ export const UserLandingPage: React.FC<UserLandingPageProps> = ({
     }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }, [gameDataSource.games]);
 
+  // Keeps "starts in" labels current while any game is waiting for its start time
+  const [now, setNow] = useState(() => Date.now());
+  const hasScheduledGames = gameSummaries.some(game => game.scheduledStart !== null);
+  useEffect(() => {
+    if (!hasScheduledGames) return;
+    const ticker = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(ticker);
+  }, [hasScheduledGames]);
+
   // 🔧 MODIFIED: Handle completed game selection
   const selectGame = useCallback((gameId: string) => {
     console.log('🎯 Selecting game:', gameId);
@@ -468,6 +484,18 @@ useEffect(() => {
                            '⚪ Booking'}
                         </Badge>
                       </div>
+
+                      {game.scheduledStart !== null && (
+                        <div className="flex items-center mb-3 p-2 rounded bg-blue-50 text-blue-800">
+                          <CalendarClock className="w-4 h-4 mr-2 flex-shrink-0" />
+                          <span className="text-sm font-medium">
+                            {game.scheduledStart > now
+                              ? `Starts in ${formatTimeUntil(game.scheduledStart - now)}`
+                              : 'Starting now'}
+                          </span>
+                          <span className="text-xs text-blue-600 ml-auto">{game.scheduledStartLabel}</span>
+                        </div>
+                      )}
                       
                       <div className="space-y-3">
                         {!game.gameOver ? (
@@ -0,0 +1,28 @@
+// src/pages/VerifyDraw.tsx
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Home } from 'lucide-react';
+import { DrawVerification } from '@/components/DrawVerification';
+
+const VerifyDraw: React.FC = () => {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-red-50 to-pink-50 p-4">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-800">🎲 Verify Draw</h1>
+          <Button variant="outline" onClick={() => navigate('/')}>
+            <Home className="w-4 h-4 mr-2" />
+            Home
+          </Button>
+        </div>
+        {gameId && <DrawVerification gameId={gameId} />}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyDraw;
@@ -1,12 +1,17 @@
 // Supabase Game Data Provider
 // Replaces Firebase GameDataProvider - MUCH SIMPLER!
 
-import React, { createContext, useContext, useMemo } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import { useGameSubscription, useHostCurrentGameSubscription, useGamePrizesSubscription, useGameTicketsSubscription } from '@/hooks/useSupabaseSubscription';
 import { supabase } from '@/services/supabase';
 import type { GameData } from '@/services/supabase-types';
-// Game phase enum for cleaner state management
-export type GamePhase = 'creation' | 'setup' | 'booking' | 'countdown' | 'playing' | 'finished';
+import { getGameVariant } from '@/services/game-variants';
+import { getTicketIdFormat, formatTicketId } from '@/services/ticket-ids';
+import { getCountdownRemaining } from '@/services/game-schedule';
+import { getGamePhase, type GamePhase } from '@/services/game-lifecycle';
+
+// Phases come from the game lifecycle so the UI and service layer agree
+export type { GamePhase } from '@/services/game-lifecycle';
 
 interface GameDataContextValue {
   gameData: GameData | null;
@@ -73,6 +78,8 @@ const gameData = useMemo(() => {
     prizesData.forEach(prize => {
       prizesObject[prize.id] = {
         id: prize.id,
+        prizeType: prize.prize_type,
+        ruleParams: prize.rule_params || {},
         name: prize.name,
         pattern: prize.pattern,
         description: prize.description,
@@ -80,17 +87,25 @@ const gameData = useMemo(() => {
         order: prize.prize_order,
         winners: prize.winners || [],
         winningNumber: prize.winning_number,
-        wonAt: prize.won_at
+        wonAt: prize.won_at,
+        tieRule: prize.tie_rule,
+        tieBreak: prize.tie_break
       };
     });
   }
 
  // Convert tickets array to object format
 const ticketsObject: { [key: string]: any } = {};
+const ticketIdFormat = getTicketIdFormat(baseGameData);
 if (ticketsData && Array.isArray(ticketsData)) {
   ticketsData.forEach(ticket => {
     ticketsObject[ticket.ticket_id] = { // Use ticket_id as key (human readable: "1", "2", "3")
       ticketId: ticket.ticket_id,
+      // How the host's chosen ID scheme shows this ticket ("007", "S2-1", "T7")
+      displayId: formatTicketId(
+        { ticketId: ticket.ticket_id, setId: ticket.set_id, positionInSet: ticket.position_in_set },
+        ticketIdFormat
+      ),
       gameId: ticket.game_id,
       playerName: ticket.player_name,
       playerPhone: ticket.player_phone,
@@ -107,6 +122,7 @@ if (ticketsData && Array.isArray(ticketsData)) {
   // Return combined game data with all the properties GameHost expects
   return {
     ...baseGameData,
+    gameId: baseGameData.id,
     prizes: prizesObject,
     tickets: ticketsObject,
     maxTickets: baseGameData.max_tickets,
@@ -161,35 +177,27 @@ return {
 // ==================== COMPUTED VALUES ====================
 
 // Determine current game phase
-const currentPhase: GamePhase = useMemo(() => {
-  if (!finalGameData) return 'creation';
-  
-  switch (finalGameData.status) {
-    case 'setup':
-      return 'setup';
-    case 'countdown':
-      return 'countdown';
-    case 'active':
-      return finalGameData.game_state?.isActive ? 'playing' : 'booking';
-    case 'paused':
-      return 'playing'; // Still in playing phase, just paused
-    case 'finished':
-      return 'finished';
-    default:
-      return 'setup';
-  }
-}, [finalGameData]);
+const currentPhase: GamePhase = useMemo(() => getGamePhase(finalGameData), [finalGameData]);
+
+// Countdowns are computed from countdownEndsAt - tick once a second while one runs
+const [now, setNow] = useState(() => Date.now());
+useEffect(() => {
+  if (currentPhase !== 'countdown') return;
+  setNow(Date.now());
+  const ticker = setInterval(() => setNow(Date.now()), 1000);
+  return () => clearInterval(ticker);
+}, [currentPhase]);
 
 // Calculate time until next action (for countdown, etc.)
 const timeUntilAction = useMemo(() => {
   if (!finalGameData) return 0;
   
   if (currentPhase === 'countdown') {
-    return finalGameData.game_state?.countdownTime || 0;
+    return getCountdownRemaining(finalGameData.game_state, now);
   }
   
   return 0;
-}, [finalGameData, currentPhase]);
+}, [finalGameData, currentPhase, now]);
 
 const contextValue: GameDataContextValue = useMemo(() => ({
   gameData: finalGameData,
@@ -267,7 +275,7 @@ export const useGameStats = () => {
     }
 
     const calledCount = gameData.game_state?.totalNumbersCalled || 0;
-    const totalNumbers = 90;
+    const totalNumbers = getGameVariant(gameData.game_variant).totalNumbers;
     const remainingNumbers = totalNumbers - calledCount;
     const progress = (calledCount / totalNumbers) * 100;
 
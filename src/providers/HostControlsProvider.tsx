@@ -5,6 +5,9 @@ import React, { createContext, useContext, useState, useCallback, useRef, useEff
 import { supabaseService } from '@/services/supabase';
 import { useGameData } from './GameDataProvider';
 import type { GameData } from '@/services/supabase-types';
+import { isManualCalling as isManualCallingGame, getManualCallError, parseManualNumber } from '@/services/calling-modes';
+import { getCountdownRemaining, getCountdownSeconds, getScheduledStart, isScheduledGame } from '@/services/game-schedule';
+import { checkCallsForPrizes } from '@/services/prize-checks';
 
 interface HostControlsContextValue {
   // Game flow controls - MUCH SIMPLER!
@@ -15,6 +18,17 @@ interface HostControlsContextValue {
   
   // Number calling - NO RACE CONDITIONS!
   callNextNumber: () => Promise<void>;
+
+  // Manual calling - host enters numbers drawn from a physical drum
+  isManualCalling: boolean;
+  callManualNumber: (input: string | number) => Promise<void>;
+
+  // Corrections - only while paused
+  undoLastCall: (reason: string) => Promise<void>;
+
+  // Hold-for-claims games - the host decides each held prize
+  confirmClaim: (prizeId: string) => Promise<void>;
+  rejectClaim: (prizeId: string) => Promise<void>;
   
   // Configuration
   callInterval: number;
@@ -36,6 +50,10 @@ interface HostControlsContextValue {
 
 const HostControlsContext = createContext<HostControlsContextValue | null>(null);
 
+// When the standalone caller (scripts/number-caller.ts) is deployed it runs the
+// countdown and calls numbers; the browser only displays and announces them
+export const SERVER_CALLER_ENABLED = import.meta.env.VITE_SERVER_CALLER === 'true';
+
 interface HostControlsProviderProps {
   children: React.ReactNode;
   userId: string;
@@ -70,7 +88,7 @@ export const HostControlsProvider: React.FC<HostControlsProviderProps> = ({
   
   const [isProcessing, setIsProcessing] = useState(false);
   const [countdownTime, setCountdownTime] = useState(0);
-  const [callInterval, setCallInterval] = useState(8000);
+  const [callInterval, setCallIntervalState] = useState(gameData?.call_interval || 8000);
   const [speechRate, setSpeechRate] = useState(1.0);
   const [isAudioReady, setIsAudioReady] = useState(false);
   
@@ -78,6 +96,14 @@ export const HostControlsProvider: React.FC<HostControlsProviderProps> = ({
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const isTimerActive = !!timerRef.current;
 
+  // Manual games never start the timer - every number comes from the host
+  const isManualCalling = isManualCallingGame(gameData);
+
+  // Latest game for prize checks, which outlive the render that started them
+  const gameDataRef = useRef(gameData);
+  gameDataRef.current = gameData;
+  const prizeCheckRef = useRef({ running: false, again: false });
+
   // ==================== GAME FLOW CONTROLS (SUPER SIMPLE!) ====================
 
   const startGame = useCallback(async () => {
@@ -204,9 +230,139 @@ export const HostControlsProvider: React.FC<HostControlsProviderProps> = ({
     }
   }, [gameData, isProcessing]);
 
+  // ==================== PRIZE DETECTION ====================
+
+  /**
+   * Checks every call not yet checked - calls made while the page was closed
+   * included (see prize-checks.ts). The server-side caller runs the same
+   * check, so a second checker on the same calls is harmless
+   */
+  const checkUncheckedCalls = useCallback(async () => {
+    const game = gameDataRef.current;
+    if (!game) return;
+
+    const { awarded } = await checkCallsForPrizes(game, supabaseService);
+    if (awarded.length > 0) {
+      console.log('🏆 Prizes won:', awarded);
+    }
+  }, []);
+
+  /**
+   * One check at a time - calls landing meanwhile are picked up by a second pass
+   */
+  const runPrizeChecks = useCallback(async () => {
+    const state = prizeCheckRef.current;
+    if (state.running) {
+      state.again = true;
+      return;
+    }
+
+    state.running = true;
+    try {
+      do {
+        state.again = false;
+        await checkUncheckedCalls();
+      } while (state.again);
+    } catch (error) {
+      console.error('❌ Error checking prizes:', error);
+    } finally {
+      state.running = false;
+    }
+  }, [checkUncheckedCalls]);
+
+  // ==================== MANUAL CALLING ====================
+
+  const callManualNumber = useCallback(async (input: string | number) => {
+    if (!gameData || isProcessing) return;
+
+    const calledNumbers = gameData.game_state?.calledNumbers || [];
+    const validationError = getManualCallError(input, calledNumbers, gameData.game_variant);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const number = parseManualNumber(input);
+
+    setIsProcessing(true);
+    try {
+      await supabaseService.callManualNumber(gameData.id, number);
+
+    } catch (error: any) {
+      console.error('❌ Error calling manual number:', error);
+      throw error;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [gameData, isProcessing]);
+
+  // Every call lands through the subscription - manual ones, this page's timer
+  // or the server-side caller - and is checked as it arrives. Opening the page
+  // checks whatever was called while it was closed
+  useEffect(() => {
+    runPrizeChecks();
+  }, [gameData?.id, gameData?.game_state?.calledNumbers?.length, gameData?.game_state?.prizesCheckedThrough, runPrizeChecks]);
+
+  // ==================== CLAIM CHECKS ====================
+
+  const confirmClaim = useCallback(async (prizeId: string) => {
+    if (!gameData || isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      await supabaseService.confirmClaim(gameData.id, prizeId);
+    } catch (error: any) {
+      console.error('❌ Error confirming claim:', error);
+      throw error;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [gameData, isProcessing]);
+
+  const rejectClaim = useCallback(async (prizeId: string) => {
+    if (!gameData || isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      await supabaseService.rejectClaim(gameData.id, prizeId);
+    } catch (error: any) {
+      console.error('❌ Error rejecting claim:', error);
+      throw error;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [gameData, isProcessing]);
+
+  // ==================== CORRECTIONS ====================
+
+  const undoLastCall = useCallback(async (reason: string) => {
+    if (!gameData || isProcessing) return;
+
+    if (gameData.status !== 'paused') {
+      throw new Error('Pause the game before undoing a call');
+    }
+
+    if (!reason.trim()) {
+      throw new Error('Enter a reason for the correction');
+    }
+
+    setIsProcessing(true);
+    try {
+      const result = await supabaseService.undoLastCall(gameData.id, reason.trim());
+      console.log(`↩️ Removed ${result.number}, reverted prizes:`, result.reverted_prizes);
+
+    } catch (error: any) {
+      console.error('❌ Error undoing last call:', error);
+      throw error;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [gameData, isProcessing]);
+
   // ==================== SIMPLE TIMER MANAGEMENT ====================
 
   const startTimer = useCallback(() => {
+    if (SERVER_CALLER_ENABLED || isManualCalling) return;
+
     // Stop any existing timer
     if (timerRef.current) {
       clearInterval(timerRef.current);
@@ -218,7 +374,7 @@ export const HostControlsProvider: React.FC<HostControlsProviderProps> = ({
       callNextNumber();
     }, callInterval);
     
-  }, [callInterval, callNextNumber]);
+  }, [callInterval, callNextNumber, isManualCalling]);
 
   const stopTimer = useCallback(() => {
     if (timerRef.current) {
@@ -230,44 +386,67 @@ export const HostControlsProvider: React.FC<HostControlsProviderProps> = ({
 
   // ==================== COUNTDOWN MANAGEMENT (SIMPLE!) ====================
 
+  // Counts down from countdownEndsAt, so every screen agrees without the host
+  // pushing the remaining seconds
   useEffect(() => {
-    if (!gameData?.game_state?.isCountdown) return;
+    const game = gameDataRef.current;
+    if (!game?.game_state?.isCountdown) return;
     
-    let countdown = gameData.game_state.countdownTime;
-    setCountdownTime(countdown);
+    const gameState = game.game_state;
+    setCountdownTime(getCountdownRemaining(gameState));
     
-    if (countdown > 0) {
-      const countdownInterval = setInterval(async () => {
-        countdown--;
-        setCountdownTime(countdown);
-        
-        // Update server
-        try {
-          await supabaseService.updateCountdownTime(gameData.id, countdown);
-        } catch (error) {
-          console.error('Failed to update countdown:', error);
-        }
+    let isActivating = false;
+    const countdownInterval = setInterval(async () => {
+      const remaining = getCountdownRemaining(gameState);
+      setCountdownTime(remaining);
+      
+      // The server-side caller activates the game
+      if (remaining > 0 || SERVER_CALLER_ENABLED || isActivating) return;
+      
+      isActivating = true;
+      clearInterval(countdownInterval);
+      
+      try {
+        // Activate game after countdown
+        await supabaseService.activateGameAfterCountdown(game.id);
         
-        if (countdown <= 0) {
-          clearInterval(countdownInterval);
-          
-          try {
-            // Activate game after countdown
-            await supabaseService.activateGameAfterCountdown(gameData.id);
-            
-            // Start timer if audio is ready
-            if (isAudioReady) {
-              startTimer();
-            }
-          } catch (error) {
-            console.error('Failed to activate game:', error);
-          }
+        // Start timer if audio is ready
+        if (isAudioReady) {
+          startTimer();
         }
-      }, 1000);
-      
-      return () => clearInterval(countdownInterval);
-    }
-  }, [gameData?.game_state?.isCountdown, gameData?.game_state?.countdownTime, gameData?.id, isAudioReady, startTimer]);
+      } catch (error) {
+        console.error('Failed to activate game:', error);
+      }
+    }, 1000);
+    
+    return () => clearInterval(countdownInterval);
+  }, [gameData?.game_state?.isCountdown, gameData?.game_state?.countdownEndsAt, gameData?.id, isAudioReady, startTimer]);
+
+  // ==================== SCHEDULED START ====================
+
+  // Scheduled games start on their own - from this page, or from the
+  // server-side caller when it is deployed
+  useEffect(() => {
+    const game = gameDataRef.current;
+    if (!game || SERVER_CALLER_ENABLED || !isScheduledGame(game)) return;
+    
+    const countdownStartAt = getScheduledStart(game) - getCountdownSeconds(game) * 1000;
+    const delay = Math.max(0, countdownStartAt - Date.now());
+    
+    // Beyond setTimeout's ~24.8 day limit - picked up when the page next loads
+    if (delay > 2 ** 31 - 1) return;
+    
+    const scheduleTimer = setTimeout(async () => {
+      try {
+        console.log('⏰ Scheduled start reached');
+        await supabaseService.startGameWithCountdown(game.id);
+      } catch (error) {
+        console.error('Failed to start scheduled game:', error);
+      }
+    }, delay);
+    
+    return () => clearTimeout(scheduleTimer);
+  }, [gameData?.id, gameData?.status, gameData?.scheduled_start_at, gameData?.countdown_seconds]);
 
   // ==================== AUTO-START TIMER WHEN READY ====================
 
@@ -285,6 +464,26 @@ export const HostControlsProvider: React.FC<HostControlsProviderProps> = ({
     }
   }, [gameData?.game_state, isAudioReady, startTimer]);
 
+  // ==================== CALL INTERVAL ====================
+
+  useEffect(() => {
+    if (gameData?.call_interval) {
+      setCallIntervalState(gameData.call_interval);
+    }
+  }, [gameData?.call_interval]);
+
+  // Stored on the game so the server-side caller uses the same pace
+  const setCallInterval = useCallback((interval: number) => {
+    setCallIntervalState(interval);
+
+    const game = gameDataRef.current;
+    if (game) {
+      supabaseService.updateCallInterval(game.id, interval).catch(error => {
+        console.error('Failed to save call interval:', error);
+      });
+    }
+  }, []);
+
   // ==================== CLEANUP ====================
 
   useEffect(() => {
@@ -322,6 +521,11 @@ export const HostControlsProvider: React.FC<HostControlsProviderProps> = ({
     
     // Number calling
     callNextNumber,
+    isManualCalling,
+    callManualNumber,
+    undoLastCall,
+    confirmClaim,
+    rejectClaim,
     
     // Configuration
     callInterval,
@@ -0,0 +1,146 @@
+// src/services/bingo-cards.ts - 75-ball bingo cards and pattern prizes
+
+import { createSeededRandom, type RandomFn } from './ticket-generator';
+import { BINGO_NUMBERS_PER_LETTER } from './game-variants';
+
+// ================== CONSTANTS ==================
+
+export const BINGO_CARD_SIZE = 5;
+export const BINGO_CENTER = 2;
+// Free centre is stored as 0, like blank cells on 90-ball tickets
+export const FREE_CELL = 0;
+
+// ================== CARD GENERATION ==================
+
+/**
+ * Generates one 5x5 card: each column draws 5 distinct numbers from its
+ * letter's range (B 1-15 ... O 61-75), the centre cell is free
+ */
+export const generateBingoCard = (random: RandomFn): number[][] => {
+  const columns = Array.from({ length: BINGO_CARD_SIZE }, (_, column) => {
+    const pool = Array.from({ length: BINGO_NUMBERS_PER_LETTER }, (_, i) => column * BINGO_NUMBERS_PER_LETTER + i + 1);
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, BINGO_CARD_SIZE);
+  });
+
+  return Array.from({ length: BINGO_CARD_SIZE }, (_, row) =>
+    Array.from({ length: BINGO_CARD_SIZE }, (_, column) =>
+      row === BINGO_CENTER && column === BINGO_CENTER ? FREE_CELL : columns[column][row]
+    )
+  );
+};
+
+/**
+ * Generates a reproducible list of cards from a seed
+ */
+export const generateBingoCards = (seed: number, count: number): number[][][] => {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, () => generateBingoCard(random));
+};
+
+export const isBingoCard = (rows: number[][] | undefined): boolean =>
+  Array.isArray(rows) &&
+  rows.length === BINGO_CARD_SIZE &&
+  rows.every(row => Array.isArray(row) && row.length === BINGO_CARD_SIZE);
+
+// ================== PATTERNS ==================
+
+export type BingoCell = [number, number];
+
+const range = Array.from({ length: BINGO_CARD_SIZE }, (_, i) => i);
+const rowCells = (row: number): BingoCell[] => range.map(column => [row, column] as BingoCell);
+const columnCells = (column: number): BingoCell[] => range.map(row => [row, column] as BingoCell);
+const mainDiagonal: BingoCell[] = range.map(i => [i, i] as BingoCell);
+const antiDiagonal: BingoCell[] = range.map(i => [i, BINGO_CARD_SIZE - 1 - i] as BingoCell);
+
+/**
+ * Each prize lists the cell groups that win it - completing any one group wins
+ */
+export const BINGO_PATTERNS: { [prizeId: string]: BingoCell[][] } = {
+  bingoRow: range.map(rowCells),
+  bingoColumn: range.map(columnCells),
+  bingoDiagonal: [mainDiagonal, antiDiagonal],
+  bingoX: [[...mainDiagonal, ...antiDiagonal.filter(([row]) => row !== BINGO_CENTER)]],
+  blackout: [range.flatMap(rowCells)]
+};
+
+export const BINGO_PRIZES = [
+  {
+    id: 'bingoRow',
+    name: 'Any Row',
+    pattern: 'Any horizontal line',
+    description: 'Complete any full row of 5 on the card',
+    order: 1,
+    difficulty: 'easy'
+  },
+  {
+    id: 'bingoColumn',
+    name: 'Any Column',
+    pattern: 'Any vertical line',
+    description: 'Complete any full B, I, N, G or O column',
+    order: 2,
+    difficulty: 'easy'
+  },
+  {
+    id: 'bingoDiagonal',
+    name: 'Diagonal',
+    pattern: 'Either diagonal',
+    description: 'Complete either corner-to-corner diagonal through the free centre',
+    order: 3,
+    difficulty: 'medium'
+  },
+  {
+    id: 'bingoX',
+    name: 'Letter X',
+    pattern: 'Both diagonals',
+    description: 'Complete both diagonals to form an X',
+    order: 4,
+    difficulty: 'hard'
+  },
+  {
+    id: 'blackout',
+    name: 'Blackout',
+    pattern: 'Whole card',
+    description: 'Mark every number on the card',
+    order: 5,
+    difficulty: 'expert'
+  }
+];
+
+export const isBingoPrize = (prizeId?: string): boolean => !!prizeId && prizeId in BINGO_PATTERNS;
+
+const isCellMarked = (rows: number[][], [row, column]: BingoCell, calledNumbers: number[]): boolean => {
+  const number = rows[row][column];
+  return number === FREE_CELL || calledNumbers.includes(number);
+};
+
+/**
+ * The first completed cell group for a prize, or null if the card hasn't won it
+ */
+export const findCompletedBingoPattern = (
+  prizeId: string,
+  rows: number[][],
+  calledNumbers: number[]
+): BingoCell[] | null => {
+  const groups = BINGO_PATTERNS[prizeId];
+  if (!groups || !isBingoCard(rows)) return null;
+
+  return groups.find(cells => cells.every(cell => isCellMarked(rows, cell, calledNumbers))) || null;
+};
+
+/**
+ * Cells to highlight for a prize: the completed group if there is one,
+ * otherwise every cell that could be part of the pattern
+ */
+export const getBingoPatternCells = (
+  prizeId: string,
+  rows: number[][],
+  calledNumbers: number[]
+): BingoCell[] => {
+  const completed = findCompletedBingoPattern(prizeId, rows, calledNumbers);
+  if (completed) return completed;
+  return (BINGO_PATTERNS[prizeId] || []).flat();
+};
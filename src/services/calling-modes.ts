@@ -0,0 +1,75 @@
+// src/services/calling-modes.ts - Automatic calling or manual calling from a physical drum
+
+import type { CallingMode, SessionMetadata } from './supabase-types';
+import { getGameVariant } from './game-variants';
+
+export type { CallingMode } from './supabase-types';
+
+// ================== CONFIGURATION ==================
+
+export interface CallingModeOption {
+  id: CallingMode;
+  name: string;
+  description: string;
+}
+
+export const DEFAULT_CALLING_MODE: CallingMode = 'automatic';
+
+export const CALLING_MODES: CallingModeOption[] = [
+  {
+    id: 'automatic',
+    name: 'Automatic',
+    description: 'The app draws and calls a number every call interval'
+  },
+  {
+    id: 'manual',
+    name: 'Manual (physical drum)',
+    description: 'You draw numbers from a bag or drum and tap each one in'
+  }
+];
+
+/**
+ * Calling mode for a game - games created before modes existed are automatic
+ */
+export const getCallingMode = (game?: { calling_mode?: string | null } | null): CallingMode =>
+  CALLING_MODES.some(option => option.id === game?.calling_mode)
+    ? (game.calling_mode as CallingMode)
+    : DEFAULT_CALLING_MODE;
+
+export const isManualCalling = (game?: { calling_mode?: string | null } | null): boolean =>
+  getCallingMode(game) === 'manual';
+
+// ================== MANUAL CALLS ==================
+
+/**
+ * Manual games keep no sequence - calledNumbers is the only record of the draw
+ */
+export const getManualSessionMetadata = (totalNumbers: number, created = new Date().toISOString()): SessionMetadata => ({
+  created,
+  source: 'host',
+  validated: true,
+  totalNumbers
+});
+
+/**
+ * Why a number can't be called next, or null when it can. Accepts typed input
+ * such as "42" or "B-12"
+ */
+export const getManualCallError = (
+  input: string | number,
+  calledNumbers: number[],
+  gameVariant?: string | null
+): string | null => {
+  const number = parseManualNumber(input);
+  const { totalNumbers } = getGameVariant(gameVariant);
+
+  if (number === null) return 'Enter a number';
+  if (number < 1 || number > totalNumbers) return `Numbers go from 1 to ${totalNumbers}`;
+  if (calledNumbers.includes(number)) return `${number} has already been called`;
+  return null;
+};
+
+export const parseManualNumber = (input: string | number): number | null => {
+  const match = input.toString().trim().match(/^(?:[BINGO]\s*-?\s*)?(\d{1,2})$/i);
+  return match ? parseInt(match[1], 10) : null;
+};
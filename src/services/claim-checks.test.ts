@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addClaims,
+  dropClaimsOnNumber,
+  getClaimCalledNumbers,
+  getUncheckedCallCounts,
+  getWinnerTicketIds,
+  hasPendingClaims,
+  isHoldForClaims,
+  settleClaim,
+  toPendingClaims,
+  withoutRejectedClaims
+} from './claim-checks';
+import type { GameState, PendingClaim } from './supabase-types';
+
+const HELD_AT = '2026-01-01T00:00:00.000Z';
+
+const createGameState = (state: Partial<GameState> = {}): GameState => ({
+  isActive: true,
+  isCountdown: false,
+  countdownTime: 0,
+  gameOver: false,
+  calledNumbers: [],
+  currentNumber: null,
+  totalNumbersCalled: 0,
+  ...state
+});
+
+const createClaim = (prizeId: string, ticketIds: string[], winningNumber = 10): PendingClaim => ({
+  prizeId,
+  prizeName: prizeId,
+  winners: ticketIds.map(ticketId => ({ name: `Player ${ticketId}`, ticketId })),
+  winningNumber
+});
+
+describe('claim detection', () => {
+  it('only holds games that ask for it', () => {
+    expect(isHoldForClaims({ hold_for_claims: true })).toBe(true);
+    expect(isHoldForClaims({ hold_for_claims: null })).toBe(false);
+    expect(isHoldForClaims(null)).toBe(false);
+  });
+
+  it('splits sheet winners into their tickets', () => {
+    expect(getWinnerTicketIds({ name: 'Asha', ticketId: '7, 8,9,' })).toEqual(['7', '8', '9']);
+    expect(getWinnerTicketIds({ name: 'Asha', ticketId: '' })).toEqual([]);
+  });
+
+  it('drops rejected tickets and the prizes left without winners', () => {
+    const winners = {
+      topLine: { prizeName: 'Top Line', winners: [{ name: 'A', ticketId: '1' }, { name: 'B', ticketId: '2' }] },
+      fullSheet: { prizeName: 'Full Sheet', winners: [{ name: 'C', ticketId: '3,4,5' }] },
+      corners: { winners: [{ name: 'D', ticketId: '6' }] }
+    };
+    const gameState = createGameState({ rejectedClaims: { topLine: ['1'], fullSheet: ['4'] } });
+
+    expect(withoutRejectedClaims(winners, gameState)).toEqual({
+      topLine: { prizeName: 'Top Line', winners: [{ name: 'B', ticketId: '2' }] },
+      corners: { winners: [{ name: 'D', ticketId: '6' }] }
+    });
+  });
+
+  it('turns winners into claims on the winning number', () => {
+    expect(toPendingClaims({ corners: { winners: [{ name: 'D', ticketId: '6' }] } }, 33)).toEqual([
+      { prizeId: 'corners', prizeName: 'corners', winners: [{ name: 'D', ticketId: '6' }], winningNumber: 33, tieBreak: null }
+    ]);
+  });
+});
+
+describe('getUncheckedCallCounts', () => {
+  it('lists every call after the last checked one, oldest first', () => {
+    expect(getUncheckedCallCounts(createGameState({ calledNumbers: [5, 6, 7, 8], prizesCheckedThrough: 1 }))).toEqual([2, 3, 4]);
+  });
+
+  it('checks every call of a game that was never checked', () => {
+    expect(getUncheckedCallCounts(createGameState({ calledNumbers: [5, 6, 7] }))).toEqual([1, 2, 3]);
+    expect(getUncheckedCallCounts(null)).toEqual([]);
+  });
+
+  it('has nothing to check once every call is checked', () => {
+    expect(getUncheckedCallCounts(createGameState({ calledNumbers: [5, 6], prizesCheckedThrough: 2 }))).toEqual([]);
+    expect(getUncheckedCallCounts(createGameState({ calledNumbers: [5, 6], prizesCheckedThrough: 4 }))).toEqual([]);
+  });
+});
+
+describe('claim holds', () => {
+  it('keeps the first claim on a prize', () => {
+    const first = addClaims(null, [createClaim('topLine', ['1'])], true, HELD_AT);
+    const second = addClaims(first, [createClaim('topLine', ['2']), createClaim('corners', ['3'])], false, '2026-01-02T00:00:00.000Z');
+
+    expect(second.claims.map(claim => [claim.prizeId, claim.winners[0].ticketId])).toEqual([['topLine', '1'], ['corners', '3']]);
+    expect(second.heldAt).toBe(HELD_AT);
+    expect(second.pausedGame).toBe(true);
+  });
+
+  it('clears the check once the last claim is confirmed', () => {
+    const gameState = createGameState({ claimCheck: addClaims(null, [createClaim('topLine', ['1'])], true, HELD_AT) });
+    const settled = settleClaim(gameState, 'topLine', 'confirm');
+
+    expect(settled.claim?.prizeId).toBe('topLine');
+    expect(settled.gameState.claimCheck).toBeNull();
+    expect(settled.gameState.rejectedClaims).toEqual({});
+    expect(hasPendingClaims(settled.gameState)).toBe(false);
+  });
+
+  it('remembers rejected tickets and keeps the other claims', () => {
+    const claimCheck = addClaims(null, [createClaim('topLine', ['1', '2,3']), createClaim('corners', ['4'])], true, HELD_AT);
+    const gameState = createGameState({ claimCheck, rejectedClaims: { topLine: ['9'] } });
+    const settled = settleClaim(gameState, 'topLine', 'reject');
+
+    expect(settled.gameState.rejectedClaims).toEqual({ topLine: ['9', '1', '2', '3'] });
+    expect(settled.gameState.claimCheck?.claims.map(claim => claim.prizeId)).toEqual(['corners']);
+    expect(settled.gameState.claimCheck?.pausedGame).toBe(true);
+  });
+
+  it('settles nothing for a prize that is not held', () => {
+    const settled = settleClaim(createGameState(), 'topLine', 'reject');
+
+    expect(settled.claim).toBeNull();
+    expect(settled.gameState.rejectedClaims).toEqual({});
+  });
+});
+
+describe('undoing a call', () => {
+  it('drops claims on the undone number and rechecks the replacement call', () => {
+    const claimCheck = addClaims(null, [createClaim('topLine', ['1'], 44), createClaim('corners', ['2'], 12)], true, HELD_AT);
+    const gameState = createGameState({ calledNumbers: [3, 12], claimCheck, prizesCheckedThrough: 3 });
+    const dropped = dropClaimsOnNumber(gameState, 44);
+
+    expect(dropped.claimCheck?.claims.map(claim => claim.prizeId)).toEqual(['corners']);
+    expect(dropped.prizesCheckedThrough).toBe(2);
+    expect(getUncheckedCallCounts({ ...dropped, calledNumbers: [3, 12, 50] })).toEqual([3]);
+  });
+
+  it('clears the check when its only claim was on the undone number', () => {
+    const claimCheck = addClaims(null, [createClaim('topLine', ['1'], 44)], true, HELD_AT);
+
+    expect(dropClaimsOnNumber(createGameState({ calledNumbers: [3], claimCheck }), 44).claimCheck).toBeNull();
+  });
+});
+
+describe('getClaimCalledNumbers', () => {
+  it('shows the numbers called up to the winning number', () => {
+    expect(getClaimCalledNumbers([4, 9, 21, 30], createClaim('topLine', ['1'], 21))).toEqual([4, 9, 21]);
+    expect(getClaimCalledNumbers([4, 9], createClaim('topLine', ['1'], 77))).toEqual([4, 9]);
+  });
+});
@@ -0,0 +1,154 @@
+// src/services/claim-checks.ts - Holding the game while the host checks a claim
+//
+// In a hall the caller stops when someone shouts a claim. Games with
+// hold_for_claims do the same: winners found after a call are parked in
+// game_state.claimCheck and the game pauses until the host has confirmed or
+// rejected every claim. Other games award prizes straight away.
+
+import type { ClaimCheck, GameState, PendingClaim, PrizeWinner, TieBreak } from './supabase-types';
+
+export type { ClaimCheck, PendingClaim } from './supabase-types';
+
+/**
+ * Winners as returned by validateTicketsForPrizes, with the tie settled by resolvePrizeTies
+ */
+export type DetectedWinners = {
+  [prizeId: string]: { prizeName?: string; winners: PrizeWinner[]; tieBreak?: TieBreak | null };
+};
+
+export const isHoldForClaims = (game?: { hold_for_claims?: boolean | null } | null): boolean =>
+  !!game?.hold_for_claims;
+
+export const getPendingClaims = (gameState?: Partial<GameState> | null): PendingClaim[] =>
+  gameState?.claimCheck?.claims || [];
+
+export const hasPendingClaims = (gameState?: Partial<GameState> | null): boolean =>
+  getPendingClaims(gameState).length > 0;
+
+// ================== DETECTION ==================
+
+/**
+ * Ticket IDs behind a winner - sheet prizes record several, comma separated
+ */
+export const getWinnerTicketIds = (winner: PrizeWinner): string[] =>
+  (winner.ticketId || '').split(',').map(id => id.trim()).filter(Boolean);
+
+/**
+ * Drops winners the host already rejected for a prize, and prizes left with none
+ */
+export const withoutRejectedClaims = (
+  winners: DetectedWinners,
+  gameState?: Partial<GameState> | null
+): DetectedWinners => {
+  const rejected = gameState?.rejectedClaims || {};
+  const result: DetectedWinners = {};
+
+  for (const [prizeId, prizeWinners] of Object.entries(winners)) {
+    const remaining = prizeWinners.winners.filter(winner =>
+      !getWinnerTicketIds(winner).some(ticketId => rejected[prizeId]?.includes(ticketId))
+    );
+
+    if (remaining.length > 0) {
+      result[prizeId] = { ...prizeWinners, winners: remaining };
+    }
+  }
+
+  return result;
+};
+
+export const toPendingClaims = (winners: DetectedWinners, winningNumber: number): PendingClaim[] =>
+  Object.entries(winners).map(([prizeId, { prizeName, winners: prizeWinners, tieBreak }]) => ({
+    prizeId,
+    prizeName: prizeName || prizeId,
+    winners: prizeWinners,
+    winningNumber,
+    tieBreak: tieBreak || null
+  }));
+
+/**
+ * Called-number counts still to be checked for prizes, oldest first. Calls
+ * made while no host screen was open are checked once one is
+ */
+export const getUncheckedCallCounts = (gameState?: Partial<GameState> | null): number[] => {
+  const total = gameState?.calledNumbers?.length || 0;
+  const checked = Math.min(gameState?.prizesCheckedThrough || 0, total);
+  return Array.from({ length: total - checked }, (_, index) => checked + index + 1);
+};
+
+// ================== HOLDING ==================
+
+/**
+ * Adds claims to a game's check. A prize already waiting keeps its first
+ * claim - another host screen may have found the same winners
+ */
+export const addClaims = (
+  claimCheck: ClaimCheck | null | undefined,
+  claims: PendingClaim[],
+  pausedGame: boolean,
+  heldAt = new Date().toISOString()
+): ClaimCheck => {
+  const existing = claimCheck?.claims || [];
+  const added = claims.filter(claim => !existing.some(held => held.prizeId === claim.prizeId));
+
+  return {
+    claims: [...existing, ...added],
+    heldAt: claimCheck?.heldAt || heldAt,
+    pausedGame: claimCheck ? claimCheck.pausedGame : pausedGame
+  };
+};
+
+/**
+ * Game state once the host has decided on a prize's claim. A rejection
+ * remembers the tickets so the same claim isn't held again on the next call
+ */
+export const settleClaim = (
+  gameState: GameState,
+  prizeId: string,
+  decision: 'confirm' | 'reject'
+): { gameState: GameState; claim: PendingClaim | null } => {
+  const claims = getPendingClaims(gameState);
+  const claim = claims.find(held => held.prizeId === prizeId) || null;
+  const remaining = claims.filter(held => held.prizeId !== prizeId);
+
+  const rejectedClaims = { ...gameState.rejectedClaims };
+  if (claim && decision === 'reject') {
+    rejectedClaims[prizeId] = [
+      ...(rejectedClaims[prizeId] || []),
+      ...claim.winners.flatMap(getWinnerTicketIds)
+    ];
+  }
+
+  return {
+    claim,
+    gameState: {
+      ...gameState,
+      claimCheck: remaining.length > 0 ? { ...gameState.claimCheck, claims: remaining } : null,
+      rejectedClaims
+    }
+  };
+};
+
+/**
+ * Claims on a number that was undone no longer stand, and the call that
+ * replaces it has to be checked for prizes again
+ */
+export const dropClaimsOnNumber = (gameState: GameState, number: number): GameState => {
+  const remaining = getPendingClaims(gameState).filter(claim => claim.winningNumber !== number);
+
+  return {
+    ...gameState,
+    claimCheck: remaining.length > 0 ? { ...gameState.claimCheck, claims: remaining } : null,
+    prizesCheckedThrough: Math.min(gameState.prizesCheckedThrough || 0, gameState.calledNumbers?.length || 0)
+  };
+};
+
+// ================== DISPLAY ==================
+
+/**
+ * Numbers called up to and including the claim's winning number, so the
+ * host sees the ticket as it was when the prize was won
+ */
+export const getClaimCalledNumbers = (calledNumbers: number[], claim: PendingClaim): number[] => {
+  const index = calledNumbers.indexOf(claim.winningNumber);
+  return index === -1 ? calledNumbers : calledNumbers.slice(0, index + 1);
+};
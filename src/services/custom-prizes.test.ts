@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CUSTOM_PRIZE_PRESETS,
+  CUSTOM_PRIZE_TYPE_ID,
+  createCustomPrizeDefinition,
+  describeCustomRule,
+  getCustomPrizeError,
+  isCustomPrizeCell,
+  isCustomPrizeWon,
+  toCustomPrizeType,
+  type CustomPrizeRule
+} from './custom-prizes';
+import { validateTicketsForPrizes, type GameTicket } from './prize-engine';
+
+//  4  .  23  .  45  .  67  .  81
+//  . 12   . 34  46 58   . 72   .
+//  7 15   . 39   .  .  69  .  90
+const TICKET: GameTicket = {
+  ticketId: '1',
+  isBooked: true,
+  playerName: 'Ravi',
+  rows: [
+    [4, 0, 23, 0, 45, 0, 67, 0, 81],
+    [0, 12, 0, 34, 46, 58, 0, 72, 0],
+    [7, 15, 0, 39, 0, 0, 69, 0, 90]
+  ]
+};
+
+const X_SHAPE = CUSTOM_PRIZE_PRESETS.find(preset => preset.name === 'X Shape')!.rule;
+
+describe('getCustomPrizeError', () => {
+  it('accepts every preset', () => {
+    for (const preset of CUSTOM_PRIZE_PRESETS) {
+      expect(getCustomPrizeError(preset)).toBeNull();
+    }
+  });
+
+  it('needs a name of at most 40 characters', () => {
+    expect(getCustomPrizeError({ name: '  ', rule: X_SHAPE })).toBe('Give the prize a name');
+    expect(getCustomPrizeError({ name: 'x'.repeat(41), rule: X_SHAPE })).toBe('Prize names can be at most 40 characters');
+  });
+
+  it('keeps cells on the 3x9 grid', () => {
+    expect(getCustomPrizeError({ name: 'Dot', rule: { kind: 'cells', cells: [] } })).toBe('Mark at least one cell');
+    expect(getCustomPrizeError({ name: 'Dot', rule: { kind: 'cells', cells: [[3, 0]] } })).toBe('Marked cells must be on the 3x9 grid');
+    expect(getCustomPrizeError({ name: 'Dot', rule: { kind: 'cells', cells: [[0, 9]] } })).toBe('Marked cells must be on the 3x9 grid');
+  });
+
+  it('keeps row positions and the required count in range', () => {
+    const positions: [number, number][] = [[0, 0], [1, 4]];
+
+    expect(getCustomPrizeError({ name: 'Ends', rule: { kind: 'positions', positions: [[0, 5]], required: 1 } }))
+      .toBe('Row positions must be 1-5 on one of the three rows');
+    expect(getCustomPrizeError({ name: 'Ends', rule: { kind: 'positions', positions, required: 3 } }))
+      .toBe('Between 1 and 2 of the picked positions must be called');
+    expect(getCustomPrizeError({ name: 'Ends', rule: { kind: 'positions', positions, required: 0 } }))
+      .toBe('Between 1 and 2 of the picked positions must be called');
+  });
+
+  it('keeps number and line counts on the ticket', () => {
+    expect(getCustomPrizeError({ name: 'Early', rule: { kind: 'first-numbers', count: 16 } })).toBe('Pick between 1 and 15 numbers');
+    expect(getCustomPrizeError({ name: 'Lines', rule: { kind: 'lines', count: 4 } })).toBe('Pick between 1 and 3 lines');
+    expect(getCustomPrizeError({ name: 'Lines', rule: { kind: 'lines', count: 1.5 } })).toBe('Pick between 1 and 3 lines');
+  });
+
+  it('needs a rule', () => {
+    expect(getCustomPrizeError({ name: 'Nothing', rule: null })).toBe('Pick a rule for the prize');
+  });
+});
+
+describe('custom prize definitions', () => {
+  it('trims the name and description and gets a custom ID', () => {
+    const definition = createCustomPrizeDefinition('  Lucky Seven ', { kind: 'first-numbers', count: 7 }, '  ');
+
+    expect(definition.id.startsWith('custom-')).toBe(true);
+    expect(definition.name).toBe('Lucky Seven');
+    expect(definition.description).toBeUndefined();
+  });
+
+  it('describes each rule kind', () => {
+    expect(describeCustomRule({ kind: 'cells', cells: [[0, 0]] })).toBe('1 marked cell');
+    expect(describeCustomRule(X_SHAPE)).toBe('5 row positions');
+    expect(describeCustomRule({ ...X_SHAPE, required: 3 } as CustomPrizeRule)).toBe('Any 3 of 5 row positions');
+    expect(describeCustomRule({ kind: 'first-numbers', count: 7 })).toBe('First 7 numbers');
+    expect(describeCustomRule({ kind: 'lines', count: 1 })).toBe('Any line');
+  });
+
+  it('lists a saved prize as a custom pattern type', () => {
+    const definition = createCustomPrizeDefinition('Any Two', { kind: 'lines', count: 2 });
+    const prizeType = toCustomPrizeType(definition, 2);
+
+    expect(prizeType).toMatchObject({ id: definition.id, name: 'Any Two', pattern: 'Any 2 lines', order: 102, custom: true });
+  });
+});
+
+describe('isCustomPrizeWon', () => {
+  it('needs every filled marked cell, skipping blanks', () => {
+    const rule: CustomPrizeRule = { kind: 'cells', cells: [[0, 0], [1, 0], [2, 0]] };
+
+    expect(isCustomPrizeWon(TICKET, [4], rule)).toBe(false);
+    expect(isCustomPrizeWon(TICKET, [4, 7], rule)).toBe(true);
+  });
+
+  it('never awards cells that are all blank on the ticket', () => {
+    expect(isCustomPrizeWon(TICKET, [4, 7, 12], { kind: 'cells', cells: [[1, 0]] })).toBe(false);
+  });
+
+  it('counts called row positions against the required number', () => {
+    // X Shape on this ticket: 4, 81, 46, 7, 90
+    expect(isCustomPrizeWon(TICKET, [4, 81, 46, 7], X_SHAPE)).toBe(false);
+    expect(isCustomPrizeWon(TICKET, [4, 81, 46, 7, 90], X_SHAPE)).toBe(true);
+    expect(isCustomPrizeWon(TICKET, [4, 81, 46], { ...X_SHAPE, required: 3 } as CustomPrizeRule)).toBe(true);
+  });
+
+  it('counts the ticket\'s called numbers and complete lines', () => {
+    expect(isCustomPrizeWon(TICKET, [4, 23, 1, 2], { kind: 'first-numbers', count: 3 })).toBe(false);
+    expect(isCustomPrizeWon(TICKET, [4, 23, 1, 45], { kind: 'first-numbers', count: 3 })).toBe(true);
+    expect(isCustomPrizeWon(TICKET, [4, 23, 45, 67, 81], { kind: 'lines', count: 2 })).toBe(false);
+    expect(isCustomPrizeWon(TICKET, [4, 23, 45, 67, 81, 7, 15, 39, 69, 90], { kind: 'lines', count: 2 })).toBe(true);
+  });
+
+  it('only checks traditional tickets', () => {
+    expect(isCustomPrizeWon({ ...TICKET, rows: [[1, 2, 3, 4, 5]] }, [1, 2, 3, 4, 5], { kind: 'lines', count: 1 })).toBe(false);
+  });
+});
+
+describe('isCustomPrizeCell', () => {
+  it('highlights the pattern on the ticket', () => {
+    expect(isCustomPrizeCell({ row: 2, col: 8, number: 90 }, TICKET, [], X_SHAPE)).toBe(true);
+    expect(isCustomPrizeCell({ row: 2, col: 6, number: 69 }, TICKET, [], X_SHAPE)).toBe(false);
+    expect(isCustomPrizeCell({ row: 0, col: 2, number: 23 }, TICKET, [23, 4], { kind: 'first-numbers', count: 1 })).toBe(true);
+    expect(isCustomPrizeCell({ row: 0, col: 0, number: 4 }, TICKET, [23, 4], { kind: 'first-numbers', count: 1 })).toBe(false);
+  });
+});
+
+describe('custom prizes in a game', () => {
+  it('are won through the custom pattern type and their rule params', async () => {
+    const prize = {
+      id: 'prize-uuid',
+      prizeType: CUSTOM_PRIZE_TYPE_ID,
+      ruleParams: X_SHAPE,
+      name: 'X Shape',
+      won: false
+    };
+    const tickets = { [TICKET.ticketId]: TICKET };
+
+    expect((await validateTicketsForPrizes(tickets, [4, 81, 46, 7], { [prize.id]: prize })).winners).toEqual({});
+    expect((await validateTicketsForPrizes(tickets, [4, 81, 46, 7, 90], { [prize.id]: prize })).winners).toEqual({
+      'prize-uuid': { prizeName: 'X Shape', winners: [{ name: 'Ravi', ticketId: '1', phone: undefined }] }
+    });
+  });
+});
@@ -0,0 +1,287 @@
+// src/services/custom-prizes.ts - Host-designed prize patterns
+//
+// Hosts design house patterns ("X shape", "first column", "any 2 lines") in the
+// pattern designer and keep them in host settings as CustomPrizeDefinitions.
+// A game's custom prize is stored with the customPattern prize type and the
+// rule as its rule params, so players' screens can check and highlight it
+// without the host's settings.
+
+import type { CustomPrizeDefinition, CustomPrizeRule } from './supabase-types';
+import type { GameTicket, PrizeCell, PrizeType } from './prize-registry';
+
+export type { CustomPrizeDefinition, CustomPrizeRule } from './supabase-types';
+
+export type CustomPrizeRuleKind = CustomPrizeRule['kind'];
+
+export const CUSTOM_PRIZE_TYPE_ID = 'customPattern';
+
+export const TICKET_ROWS = 3;
+export const TICKET_COLUMNS = 9;
+// Numbers in each row of a 90-ball ticket
+export const ROW_POSITIONS = 5;
+
+const MAX_NAME_LENGTH = 40;
+const TICKET_NUMBERS = TICKET_ROWS * ROW_POSITIONS;
+
+// ================== CONFIGURATION ==================
+
+export interface CustomRuleKindOption {
+  id: CustomPrizeRuleKind;
+  name: string;
+  description: string;
+}
+
+export const CUSTOM_RULE_KINDS: CustomRuleKindOption[] = [
+  {
+    id: 'cells',
+    name: 'Marked cells',
+    description: 'Mark cells on the ticket grid - blank cells on a ticket are skipped'
+  },
+  {
+    id: 'positions',
+    name: 'Row positions',
+    description: 'Pick numbers by their place along a row, and how many of them must be called'
+  },
+  {
+    id: 'first-numbers',
+    name: 'First N numbers',
+    description: 'The first tickets to have N of their numbers called'
+  },
+  {
+    id: 'lines',
+    name: 'Any N lines',
+    description: 'Complete any N of the three rows'
+  }
+];
+
+export const DEFAULT_CUSTOM_RULES: { [kind in CustomPrizeRuleKind]: CustomPrizeRule } = {
+  cells: { kind: 'cells', cells: [] },
+  positions: { kind: 'positions', positions: [], required: 1 },
+  'first-numbers': { kind: 'first-numbers', count: 7 },
+  lines: { kind: 'lines', count: 2 }
+};
+
+/**
+ * Starting points for the patterns hosts ask for most
+ */
+export const CUSTOM_PRIZE_PRESETS: { name: string; description: string; rule: CustomPrizeRule }[] = [
+  {
+    name: 'X Shape',
+    description: 'First and last numbers of the top and bottom rows, plus the middle number',
+    rule: { kind: 'positions', positions: [[0, 0], [0, 4], [1, 2], [2, 0], [2, 4]], required: 5 }
+  },
+  {
+    name: 'First Column',
+    description: 'Every number in the 1-9 column',
+    rule: { kind: 'cells', cells: [[0, 0], [1, 0], [2, 0]] }
+  },
+  {
+    name: 'Centre Column',
+    description: 'Every number in the 40s column',
+    rule: { kind: 'cells', cells: [[0, 4], [1, 4], [2, 4]] }
+  },
+  {
+    name: 'Any 2 Lines',
+    description: 'Complete any two rows',
+    rule: { kind: 'lines', count: 2 }
+  }
+];
+
+// ================== DEFINITIONS ==================
+
+const isInRange = (value: number, min: number, max: number): boolean =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Why a definition can't be saved, or null if it can
+ */
+export const getCustomPrizeError = (definition: Pick<CustomPrizeDefinition, 'name' | 'rule'>): string | null => {
+  const name = definition.name?.trim() || '';
+  if (!name) return 'Give the prize a name';
+  if (name.length > MAX_NAME_LENGTH) return `Prize names can be at most ${MAX_NAME_LENGTH} characters`;
+
+  const { rule } = definition;
+  switch (rule?.kind) {
+    case 'cells':
+      if (rule.cells.length === 0) return 'Mark at least one cell';
+      if (!rule.cells.every(([row, col]) => isInRange(row, 0, TICKET_ROWS - 1) && isInRange(col, 0, TICKET_COLUMNS - 1))) {
+        return 'Marked cells must be on the 3x9 grid';
+      }
+      return null;
+
+    case 'positions':
+      if (rule.positions.length === 0) return 'Pick at least one row position';
+      if (!rule.positions.every(([row, n]) => isInRange(row, 0, TICKET_ROWS - 1) && isInRange(n, 0, ROW_POSITIONS - 1))) {
+        return 'Row positions must be 1-5 on one of the three rows';
+      }
+      if (!isInRange(rule.required, 1, rule.positions.length)) {
+        return `Between 1 and ${rule.positions.length} of the picked positions must be called`;
+      }
+      return null;
+
+    case 'first-numbers':
+      return isInRange(rule.count, 1, TICKET_NUMBERS) ? null : `Pick between 1 and ${TICKET_NUMBERS} numbers`;
+
+    case 'lines':
+      return isInRange(rule.count, 1, TICKET_ROWS) ? null : `Pick between 1 and ${TICKET_ROWS} lines`;
+
+    default:
+      return 'Pick a rule for the prize';
+  }
+};
+
+export const createCustomPrizeDefinition = (
+  name: string,
+  rule: CustomPrizeRule,
+  description?: string
+): CustomPrizeDefinition => ({
+  id: `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim(),
+  description: description?.trim() || undefined,
+  rule,
+  createdAt: new Date().toISOString()
+});
+
+export const isCustomPrizeId = (prizeId?: string | null): boolean =>
+  !!prizeId && prizeId.startsWith('custom-');
+
+export const getCustomPrize = (
+  definitions: CustomPrizeDefinition[] | null | undefined,
+  prizeId: string
+): CustomPrizeDefinition | null =>
+  (definitions || []).find(definition => definition.id === prizeId) || null;
+
+/**
+ * "Any 3 of 5 row positions" - shown as the prize's pattern
+ */
+export const describeCustomRule = (rule: CustomPrizeRule): string => {
+  switch (rule.kind) {
+    case 'cells':
+      return `${rule.cells.length} marked cell${rule.cells.length === 1 ? '' : 's'}`;
+    case 'positions':
+      return rule.required === rule.positions.length
+        ? `${rule.positions.length} row position${rule.positions.length === 1 ? '' : 's'}`
+        : `Any ${rule.required} of ${rule.positions.length} row positions`;
+    case 'first-numbers':
+      return `First ${rule.count} numbers`;
+    case 'lines':
+      return rule.count === 1 ? 'Any line' : `Any ${rule.count} lines`;
+    default:
+      return 'Custom pattern';
+  }
+};
+
+// ================== CHECKING ==================
+
+const isTraditionalTicket = (ticket: GameTicket): boolean =>
+  Array.isArray(ticket?.rows) && ticket.rows.length === TICKET_ROWS &&
+  ticket.rows.every(row => Array.isArray(row) && row.length === TICKET_COLUMNS);
+
+const getRowNumbers = (ticket: GameTicket, row: number): number[] =>
+  (ticket.rows[row] || []).filter(num => num > 0);
+
+/**
+ * Numbers on this ticket a cells or positions rule is made of
+ */
+const getRuleNumbers = (rule: CustomPrizeRule, ticket: GameTicket): number[] => {
+  switch (rule.kind) {
+    case 'cells':
+      return rule.cells.map(([row, col]) => ticket.rows[row]?.[col]).filter(num => num > 0);
+    case 'positions':
+      return rule.positions.map(([row, n]) => getRowNumbers(ticket, row)[n]).filter(num => num > 0);
+    default:
+      return [];
+  }
+};
+
+const getCalledTicketNumbers = (ticket: GameTicket, calledNumbers: number[]): number[] => {
+  const allNumbers = ticket.rows.flat().filter(num => num > 0);
+  return calledNumbers.filter(num => allNumbers.includes(num));
+};
+
+const isRowComplete = (ticket: GameTicket, row: number, calledNumbers: number[]): boolean =>
+  getRowNumbers(ticket, row).every(num => calledNumbers.includes(num));
+
+export const isCustomPrizeWon = (ticket: GameTicket, calledNumbers: number[], rule: CustomPrizeRule): boolean => {
+  if (!rule || !isTraditionalTicket(ticket)) return false;
+
+  switch (rule.kind) {
+    case 'cells': {
+      // A ticket with none of the marked cells filled can't win the pattern
+      const numbers = getRuleNumbers(rule, ticket);
+      return numbers.length > 0 && numbers.every(num => calledNumbers.includes(num));
+    }
+    case 'positions':
+      return getRuleNumbers(rule, ticket).filter(num => calledNumbers.includes(num)).length >= rule.required;
+    case 'first-numbers':
+      return getCalledTicketNumbers(ticket, calledNumbers).length >= rule.count;
+    case 'lines':
+      return [0, 1, 2].filter(row => isRowComplete(ticket, row, calledNumbers)).length >= rule.count;
+    default:
+      return false;
+  }
+};
+
+export const isCustomPrizeCell = (
+  cell: PrizeCell,
+  ticket: GameTicket,
+  calledNumbers: number[],
+  rule: CustomPrizeRule
+): boolean => {
+  if (!rule || !isTraditionalTicket(ticket)) return false;
+
+  switch (rule.kind) {
+    case 'cells':
+      return rule.cells.some(([row, col]) => row === cell.row && col === cell.col);
+    case 'positions': {
+      const n = getRowNumbers(ticket, cell.row).indexOf(cell.number);
+      return rule.positions.some(([row, position]) => row === cell.row && position === n);
+    }
+    case 'first-numbers':
+      // The first N of this ticket's numbers to be called, in call order
+      return getCalledTicketNumbers(ticket, calledNumbers).slice(0, rule.count).includes(cell.number);
+    case 'lines':
+      return isRowComplete(ticket, cell.row, calledNumbers);
+    default:
+      return false;
+  }
+};
+
+// ================== PRIZE TYPE ==================
+
+/**
+ * The prize type every game's custom prize is won by - registered by prize-engine.ts
+ */
+export const CUSTOM_PRIZE_TYPE: PrizeType = {
+  id: CUSTOM_PRIZE_TYPE_ID,
+  variant: '90-ball',
+  name: 'Custom Pattern',
+  pattern: 'Host-designed pattern',
+  description: 'A pattern designed by the host',
+  order: 100,
+  difficulty: 'medium',
+  badge: 'Custom',
+  custom: true,
+  validator: {
+    kind: 'ticket',
+    isWon: (ticket, { calledNumbers, params }) => isCustomPrizeWon(ticket, calledNumbers, params as CustomPrizeRule)
+  },
+  highlight: {
+    label: 'Custom Pattern',
+    description: "Yellow borders show the host's pattern",
+    isHighlighted: (cell, ticket, calledNumbers, params) =>
+      isCustomPrizeCell(cell, ticket, calledNumbers, params as CustomPrizeRule)
+  }
+};
+
+/**
+ * A host's saved custom prize as an entry in the create-game prize list
+ */
+export const toCustomPrizeType = (definition: CustomPrizeDefinition, index = 0): PrizeType => ({
+  ...CUSTOM_PRIZE_TYPE,
+  id: definition.id,
+  name: definition.name,
+  pattern: describeCustomRule(definition.rule),
+  description: definition.description || describeCustomRule(definition.rule),
+  order: CUSTOM_PRIZE_TYPE.order + index
+});
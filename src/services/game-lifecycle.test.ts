@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GAME_TRANSITIONS,
+  assertTransition,
+  canTransition,
+  getGamePhase,
+  getTransitionError,
+  isGameEditable,
+  type GameAction,
+  type GameStatus
+} from './game-lifecycle';
+import type { ClaimCheck, PendingClaim } from './supabase-types';
+
+const ALL_STATUSES: GameStatus[] = ['setup', 'countdown', 'active', 'paused', 'finished'];
+
+const holdClaims = (claims: PendingClaim[]): ClaimCheck => ({
+  claims,
+  heldAt: '2026-01-01T00:00:00.000Z',
+  pausedGame: true
+});
+
+describe('game transitions', () => {
+  it('allows each action only from its listed statuses', () => {
+    for (const [action, transition] of Object.entries(GAME_TRANSITIONS) as [GameAction, typeof GAME_TRANSITIONS[GameAction]][]) {
+      for (const status of ALL_STATUSES) {
+        const error = getTransitionError(action, { status, bookedTickets: 1 });
+        expect(error?.code === 'INVALID_TRANSITION').toBe(!transition.from.includes(status));
+      }
+    }
+  });
+
+  it('moves the game to the transition target', () => {
+    expect(assertTransition('start', { status: 'setup', bookedTickets: 3 })).toBe('countdown');
+    expect(assertTransition('activate', { status: 'countdown' })).toBe('active');
+    expect(assertTransition('pause', { status: 'active' })).toBe('paused');
+    expect(assertTransition('resume', { status: 'paused' })).toBe('active');
+    expect(assertTransition('end', { status: 'paused' })).toBe('finished');
+  });
+
+  it('never moves a finished game', () => {
+    for (const action of Object.keys(GAME_TRANSITIONS) as GameAction[]) {
+      expect(canTransition(action, { status: 'finished', bookedTickets: 1 })).toBe(false);
+    }
+  });
+
+  it('reports a missing game', () => {
+    const error = getTransitionError('pause', null);
+    expect(error?.code).toBe('GAME_NOT_FOUND');
+    expect(error?.from).toBeNull();
+  });
+
+  it('needs a booked ticket to start', () => {
+    expect(getTransitionError('start', { status: 'setup' })?.code).toBe('NO_BOOKED_TICKETS');
+    expect(getTransitionError('start', { status: 'setup', bookedTickets: 0 })?.code).toBe('NO_BOOKED_TICKETS');
+    expect(canTransition('start', { status: 'setup', bookedTickets: 1 })).toBe(true);
+  });
+
+  it('does not pause or resume once every number is called', () => {
+    expect(getTransitionError('pause', { status: 'active', game_state: { gameOver: true } })?.code).toBe('GAME_OVER');
+    expect(getTransitionError('resume', { status: 'paused', game_state: { gameOver: true } })?.code).toBe('GAME_OVER');
+    expect(canTransition('end', { status: 'active', game_state: { gameOver: true } })).toBe(true);
+  });
+
+  it('holds the resume while claims are being checked', () => {
+    const claim: PendingClaim = { prizeId: 'fullHouse', prizeName: 'Full House', winners: [], winningNumber: 42 };
+    expect(getTransitionError('resume', { status: 'paused', game_state: { claimCheck: holdClaims([claim]) } })?.code)
+      .toBe('CLAIMS_PENDING');
+    expect(canTransition('resume', { status: 'paused', game_state: { claimCheck: holdClaims([]) } })).toBe(true);
+  });
+
+  it('throws the transition error with its action and status', () => {
+    expect(() => assertTransition('pause', { status: 'setup' })).toThrowError(
+      expect.objectContaining({ name: 'GameTransitionError', code: 'INVALID_TRANSITION', action: 'pause', from: 'setup' })
+    );
+  });
+});
+
+describe('game phases', () => {
+  it('derives the phase from the status', () => {
+    expect(getGamePhase(null)).toBe('creation');
+    expect(getGamePhase({ status: 'setup' })).toBe('booking');
+    expect(getGamePhase({ status: 'countdown' })).toBe('countdown');
+    expect(getGamePhase({ status: 'active' })).toBe('playing');
+    expect(getGamePhase({ status: 'paused' })).toBe('playing');
+    expect(getGamePhase({ status: 'finished' })).toBe('finished');
+  });
+
+  it('treats a game with every number called as finished', () => {
+    expect(getGamePhase({ status: 'active', game_state: { gameOver: true } })).toBe('finished');
+  });
+
+  it('only lets games be edited while booking', () => {
+    expect(ALL_STATUSES.filter(status => isGameEditable({ status }))).toEqual(['setup']);
+    expect(isGameEditable(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+// src/services/game-lifecycle.ts - Game status transitions and the phases shown for them
+//
+//   setup ──start──▶ countdown ──activate──▶ active ◀──resume── paused
+//                                              └────────pause────────▶┘
+//   any unfinished status ──end──▶ finished
+//
+// The service layer checks every status change against this table, and the
+// UI derives its phases from the same status so the two can't disagree.
+
+import type { GameState, GameStatus } from './supabase-types';
+
+export type { GameStatus } from './supabase-types';
+
+// ================== TRANSITIONS ==================
+
+export type GameAction = 'start' | 'activate' | 'pause' | 'resume' | 'end';
+
+export interface GameTransition {
+  from: GameStatus[];
+  to: GameStatus;
+  label: string;
+}
+
+export const GAME_TRANSITIONS: Record<GameAction, GameTransition> = {
+  start: { from: ['setup'], to: 'countdown', label: 'start' },
+  activate: { from: ['countdown'], to: 'active', label: 'activate' },
+  pause: { from: ['active'], to: 'paused', label: 'pause' },
+  resume: { from: ['paused'], to: 'active', label: 'resume' },
+  end: { from: ['setup', 'countdown', 'active', 'paused'], to: 'finished', label: 'end' }
+};
+
+/**
+ * What the preconditions look at. bookedTickets is only needed to start
+ */
+export interface LifecycleGame {
+  status: GameStatus;
+  game_state?: Partial<GameState> | null;
+  bookedTickets?: number;
+}
+
+// ================== ERRORS ==================
+
+export type GameTransitionErrorCode =
+  | 'GAME_NOT_FOUND'
+  | 'INVALID_TRANSITION'
+  | 'NO_BOOKED_TICKETS'
+  | 'GAME_OVER'
+  | 'CLAIMS_PENDING';
+
+export class GameTransitionError extends Error {
+  readonly code: GameTransitionErrorCode;
+  readonly action: GameAction;
+  readonly from: GameStatus | null;
+
+  constructor(code: GameTransitionErrorCode, action: GameAction, from: GameStatus | null, message: string) {
+    super(message);
+    this.name = 'GameTransitionError';
+    this.code = code;
+    this.action = action;
+    this.from = from;
+  }
+}
+
+/**
+ * game_state kept changing under a read-merge-write (see state_revision) and
+ * the retries ran out. Nothing was written
+ */
+export class GameStateConflictError extends Error {
+  readonly gameId: string;
+  readonly attempts: number;
+
+  constructor(gameId: string, attempts: number) {
+    super('The game was updated by someone else at the same time - please try again');
+    this.name = 'GameStateConflictError';
+    this.gameId = gameId;
+    this.attempts = attempts;
+  }
+}
+
+export const isGameTransitionError = (error: unknown): error is GameTransitionError =>
+  error instanceof GameTransitionError;
+
+const STATUS_LABELS: Record<GameStatus, string> = {
+  setup: 'in setup',
+  countdown: 'counting down',
+  active: 'in progress',
+  paused: 'paused',
+  finished: 'finished'
+};
+
+/**
+ * Why an action can't be taken on a game right now, or null when it can
+ */
+export const getTransitionError = (action: GameAction, game: LifecycleGame | null): GameTransitionError | null => {
+  const transition = GAME_TRANSITIONS[action];
+
+  if (!game) {
+    return new GameTransitionError('GAME_NOT_FOUND', action, null, 'Game not found');
+  }
+
+  if (!transition.from.includes(game.status)) {
+    return new GameTransitionError(
+      'INVALID_TRANSITION',
+      action,
+      game.status,
+      `Cannot ${transition.label} a game that is ${STATUS_LABELS[game.status] || game.status}`
+    );
+  }
+
+  if (action === 'start' && (game.bookedTickets ?? 0) < 1) {
+    return new GameTransitionError('NO_BOOKED_TICKETS', action, game.status, 'Book at least one ticket before starting the game');
+  }
+
+  if ((action === 'pause' || action === 'resume') && game.game_state?.gameOver) {
+    return new GameTransitionError('GAME_OVER', action, game.status, `Cannot ${transition.label} - all numbers have been called`);
+  }
+
+  // Hold-for-claims games resume once every claim is confirmed or rejected
+  if (action === 'resume' && game.game_state?.claimCheck?.claims?.length) {
+    return new GameTransitionError('CLAIMS_PENDING', action, game.status, 'Confirm or reject the claims being checked first');
+  }
+
+  return null;
+};
+
+/**
+ * Status the game moves to; throws a GameTransitionError when the action isn't allowed
+ */
+export const assertTransition = (action: GameAction, game: LifecycleGame | null): GameStatus => {
+  const error = getTransitionError(action, game);
+  if (error) throw error;
+  return GAME_TRANSITIONS[action].to;
+};
+
+export const canTransition = (action: GameAction, game: LifecycleGame | null): boolean =>
+  getTransitionError(action, game) === null;
+
+// ================== PHASES ==================
+
+export type GamePhase = 'creation' | 'booking' | 'countdown' | 'playing' | 'finished';
+
+const STATUS_PHASES: Record<GameStatus, GamePhase> = {
+  setup: 'booking',
+  countdown: 'countdown',
+  active: 'playing',
+  paused: 'playing',
+  finished: 'finished'
+};
+
+/**
+ * Phase the UI shows for a game - no game yet is 'creation'
+ */
+export const getGamePhase = (game: LifecycleGame | null | undefined): GamePhase => {
+  if (!game) return 'creation';
+  if (game.game_state?.gameOver) return 'finished';
+  return STATUS_PHASES[game.status] || 'booking';
+};
+
+/**
+ * Prizes, ticket counts and the like can only change before the game starts
+ */
+export const isGameEditable = (game: LifecycleGame | null | undefined): boolean =>
+  getGamePhase(game) === 'booking';
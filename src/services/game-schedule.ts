@@ -0,0 +1,123 @@
+// src/services/game-schedule.ts - Scheduled start times and timestamp-based countdowns
+//
+// A scheduled game enters its countdown countdown_seconds before
+// scheduled_start_at and goes live at that time. Every screen counts down from
+// game_state.countdownEndsAt, so nobody has to push the remaining seconds.
+
+import type { GameState } from './supabase-types';
+
+// ================== CONFIGURATION ==================
+
+export const DEFAULT_COUNTDOWN_SECONDS = 10;
+export const MIN_COUNTDOWN_SECONDS = 5;
+export const MAX_COUNTDOWN_SECONDS = 600;
+
+export const COUNTDOWN_OPTIONS: { seconds: number; label: string }[] = [
+  { seconds: 10, label: '10 seconds' },
+  { seconds: 30, label: '30 seconds' },
+  { seconds: 60, label: '1 minute' },
+  { seconds: 120, label: '2 minutes' },
+  { seconds: 300, label: '5 minutes' }
+];
+
+export interface ScheduledGame {
+  status?: string;
+  scheduled_start_at?: string | null;
+  countdown_seconds?: number | null;
+}
+
+/**
+ * Countdown length for a game - games created before it was stored use 10 seconds
+ */
+export const getCountdownSeconds = (game?: ScheduledGame | null): number =>
+  Math.min(MAX_COUNTDOWN_SECONDS, Math.max(MIN_COUNTDOWN_SECONDS, game?.countdown_seconds || DEFAULT_COUNTDOWN_SECONDS));
+
+export const getScheduledStart = (game?: ScheduledGame | null): number | null => {
+  const time = game?.scheduled_start_at ? Date.parse(game.scheduled_start_at) : NaN;
+  return Number.isFinite(time) ? time : null;
+};
+
+/**
+ * A game still waiting for its scheduled start
+ */
+export const isScheduledGame = (game?: ScheduledGame | null): boolean =>
+  game?.status === 'setup' && getScheduledStart(game) !== null;
+
+/**
+ * Whether a scheduled game's countdown should have begun by now
+ */
+export const isScheduledStartDue = (game: ScheduledGame, now = Date.now()): boolean => {
+  const scheduledStart = getScheduledStart(game);
+  return isScheduledGame(game) && now >= scheduledStart - getCountdownSeconds(game) * 1000;
+};
+
+/**
+ * Why a start time can't be used, or null when it can
+ */
+export const getScheduleError = (scheduledStartAt: string, now = Date.now()): string | null => {
+  const time = Date.parse(scheduledStartAt);
+  if (!Number.isFinite(time)) return 'Enter a valid start date and time';
+  if (time <= now) return 'The start time must be in the future';
+  return null;
+};
+
+// ================== COUNTDOWN ==================
+
+/**
+ * Game state for the start of a countdown. A scheduled game whose countdown is
+ * due finishes it exactly at its start time; a game started by hand (early,
+ * late or unscheduled) runs the full countdown from now
+ */
+export const createCountdownState = (game: ScheduledGame, now = Date.now()): GameState => {
+  const scheduledStart = getScheduledStart(game);
+  const countdownMs = getCountdownSeconds(game) * 1000;
+  const endsAt = scheduledStart !== null && scheduledStart > now && scheduledStart - now <= countdownMs
+    ? scheduledStart
+    : now + countdownMs;
+
+  return {
+    isActive: false,
+    isCountdown: true,
+    countdownTime: Math.ceil((endsAt - now) / 1000),
+    countdownEndsAt: new Date(endsAt).toISOString(),
+    gameOver: false,
+    calledNumbers: [],
+    currentNumber: null,
+    totalNumbersCalled: 0
+  };
+};
+
+/**
+ * Seconds left in a countdown. States from before countdownEndsAt existed
+ * fall back to the stored countdownTime
+ */
+export const getCountdownRemaining = (gameState?: Partial<GameState> | null, now = Date.now()): number => {
+  const endsAt = gameState?.countdownEndsAt ? Date.parse(gameState.countdownEndsAt) : NaN;
+  if (!Number.isFinite(endsAt)) return gameState?.countdownTime || 0;
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+};
+
+// ================== DISPLAY ==================
+
+/**
+ * "2h 15m", "3d 4h", "45s" - the two largest units
+ */
+export const formatTimeUntil = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  if (minutes > 0) return seconds > 0 && minutes < 10 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+  return `${seconds}s`;
+};
+
+export const formatScheduledStart = (game?: ScheduledGame | null): string | null => {
+  const scheduledStart = getScheduledStart(game);
+  return scheduledStart === null
+    ? null
+    : new Date(scheduledStart).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit', day: 'numeric', month: 'short' });
+};
@@ -0,0 +1,67 @@
+// src/services/game-variants.ts - 90-ball Tambola and 75-ball bingo game variants
+
+import type { GameVariant } from './supabase-types';
+
+export type { GameVariant } from './supabase-types';
+
+// ================== CONFIGURATION ==================
+
+export interface GameVariantConfig {
+  id: GameVariant;
+  name: string;
+  description: string;
+  totalNumbers: number;
+  ticketRows: number;
+  ticketColumns: number;
+  // Numbers per row on the called-numbers board
+  boardColumns: number;
+}
+
+export const DEFAULT_GAME_VARIANT: GameVariant = '90-ball';
+
+export const GAME_VARIANTS: Record<GameVariant, GameVariantConfig> = {
+  '90-ball': {
+    id: '90-ball',
+    name: '90-Ball Tambola',
+    description: 'Traditional 3x9 tickets in strips of 6, numbers 1-90',
+    totalNumbers: 90,
+    ticketRows: 3,
+    ticketColumns: 9,
+    boardColumns: 10
+  },
+  '75-ball': {
+    id: '75-ball',
+    name: '75-Ball Bingo',
+    description: 'US-style 5x5 cards with a free centre, B-I-N-G-O calling 1-75',
+    totalNumbers: 75,
+    ticketRows: 5,
+    ticketColumns: 5,
+    boardColumns: 15
+  }
+};
+
+/**
+ * Variant config for a game - games created before variants existed are 90-ball
+ */
+export const getGameVariant = (variant?: string | null): GameVariantConfig =>
+  GAME_VARIANTS[variant as GameVariant] || GAME_VARIANTS[DEFAULT_GAME_VARIANT];
+
+export const isBingoVariant = (variant?: string | null): boolean =>
+  getGameVariant(variant).id === '75-ball';
+
+// ================== BINGO CALLING ==================
+
+export const BINGO_LETTERS = ['B', 'I', 'N', 'G', 'O'];
+export const BINGO_NUMBERS_PER_LETTER = 15;
+
+/**
+ * Column letter for a 75-ball number: B 1-15, I 16-30, N 31-45, G 46-60, O 61-75
+ */
+export const getBingoLetter = (number: number): string =>
+  BINGO_LETTERS[Math.floor((number - 1) / BINGO_NUMBERS_PER_LETTER)] || '';
+
+/**
+ * How a called number is shown: "B-7" for 75-ball, "7" for 90-ball
+ */
+export const formatCalledNumber = (number: number, variant?: string | null): string =>
+  isBingoVariant(variant) ? `${getBingoLetter(number)}-${number}` : number.toString();
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NumberCaller,
+  createStandInCallerDatabase,
+  getCallInterval,
+  MIN_CALL_INTERVAL,
+  type StandInGame
+} from './number-caller';
+import type { GamePrize, GameTicket } from './prize-registry';
+import type { GameState } from './supabase-types';
+
+const INTERVAL = 2000;
+const START = Date.parse('2026-01-01T10:00:00.000Z');
+
+//  4  .  23  .  45  .  67  .  81
+//  . 12   . 34  46 58   . 72   .
+//  7 15   . 39   .  .  69  .  90
+const TICKET: GameTicket = {
+  ticketId: '1',
+  isBooked: true,
+  playerName: 'Ravi',
+  rows: [
+    [4, 0, 23, 0, 45, 0, 67, 0, 81],
+    [0, 12, 0, 34, 46, 58, 0, 72, 0],
+    [7, 15, 0, 39, 0, 0, 69, 0, 90]
+  ]
+};
+
+const TOP_LINE: GamePrize = { id: 'prize-1', prizeType: 'topLine', name: 'Top Line', won: false };
+
+const createGameState = (state: Partial<GameState> = {}): GameState => ({
+  isActive: true,
+  isCountdown: false,
+  countdownTime: 0,
+  gameOver: false,
+  calledNumbers: [],
+  currentNumber: null,
+  totalNumbersCalled: 0,
+  ...state
+});
+
+const createGame = (game: Partial<StandInGame> = {}): StandInGame => ({
+  id: 'game-1',
+  status: 'active',
+  call_interval: INTERVAL,
+  session_numbers: [5, 12, 30, 44, 61, 77, 89],
+  game_state: createGameState(),
+  ...game
+});
+
+/**
+ * A caller over a stand-in holding one game, ticked by hand
+ */
+const createCaller = (game: Partial<StandInGame> = {}) => {
+  const db = createStandInCallerDatabase([createGame(game)]);
+  const caller = new NumberCaller(db, { log: () => {} });
+  const getGame = () => db.games.get('game-1')!;
+
+  return { db, caller, getGame };
+};
+
+describe('getCallInterval', () => {
+  it('falls back to the default and never calls faster than the minimum', () => {
+    expect(getCallInterval({ call_interval: null }, 5000)).toBe(5000);
+    expect(getCallInterval({ call_interval: 500 })).toBe(MIN_CALL_INTERVAL);
+  });
+});
+
+describe('NumberCaller', () => {
+  it('calls one number per interval from when it first sees the game', async () => {
+    const { caller, getGame } = createCaller();
+
+    await caller.tick(0);
+    await caller.tick(INTERVAL - 1);
+    expect(getGame().game_state.calledNumbers).toEqual([]);
+
+    await caller.tick(INTERVAL);
+    await caller.tick(INTERVAL + 1000);
+    expect(getGame().game_state.calledNumbers).toEqual([5]);
+
+    await caller.tick(2 * INTERVAL);
+    expect(getGame().game_state.calledNumbers).toEqual([5, 12]);
+  });
+
+  it('stops calling while paused and restarts the interval on resume', async () => {
+    const { db, caller, getGame } = createCaller();
+
+    await caller.tick(0);
+    await caller.tick(INTERVAL);
+    db.setStatus('game-1', 'paused');
+    await caller.tick(2 * INTERVAL);
+    await caller.tick(3 * INTERVAL);
+    expect(getGame().game_state.calledNumbers).toEqual([5]);
+
+    db.setStatus('game-1', 'active');
+    await caller.tick(3 * INTERVAL + 500);
+    await caller.tick(4 * INTERVAL);
+    expect(getGame().game_state.calledNumbers).toEqual([5]);
+
+    await caller.tick(4 * INTERVAL + 500);
+    expect(getGame().game_state.calledNumbers).toEqual([5, 12]);
+  });
+
+  it('leaves manual games to the host', async () => {
+    const { caller, getGame } = createCaller({ calling_mode: 'manual' });
+
+    await caller.tick(0);
+    await caller.tick(INTERVAL);
+    expect(getGame().game_state.calledNumbers).toEqual([]);
+  });
+
+  it('stops once every number is called', async () => {
+    const { caller, getGame } = createCaller({ session_numbers: [5, 12] });
+
+    for (let now = 0; now <= 4 * INTERVAL; now += INTERVAL) {
+      await caller.tick(now);
+    }
+
+    expect(getGame().status).toBe('finished');
+    expect(getGame().game_state).toMatchObject({ calledNumbers: [5, 12], gameOver: true, isActive: false });
+  });
+
+  it('starts a scheduled game, counts down and then calls', async () => {
+    const { caller, getGame } = createCaller({
+      status: 'setup',
+      booked_tickets: 1,
+      scheduled_start_at: new Date(START).toISOString(),
+      countdown_seconds: 10,
+      game_state: createGameState({ isActive: false })
+    });
+
+    await caller.tick(START - 11000);
+    expect(getGame().status).toBe('setup');
+
+    await caller.tick(START - 10000);
+    expect(getGame().status).toBe('countdown');
+    expect(getGame().game_state.countdownEndsAt).toBe(new Date(START).toISOString());
+
+    await caller.tick(START - 1000);
+    expect(getGame().status).toBe('countdown');
+
+    await caller.tick(START);
+    expect(getGame().status).toBe('active');
+    expect(getGame().game_state).toMatchObject({ isActive: true, isCountdown: false });
+
+    await caller.tick(START + INTERVAL - 1);
+    expect(getGame().game_state.calledNumbers).toEqual([]);
+    await caller.tick(START + INTERVAL);
+    expect(getGame().game_state.calledNumbers).toEqual([5]);
+  });
+
+  it('keeps a scheduled game without booked tickets in setup', async () => {
+    const { caller, getGame } = createCaller({
+      status: 'setup',
+      scheduled_start_at: new Date(START).toISOString(),
+      game_state: createGameState({ isActive: false })
+    });
+
+    await caller.tick(START);
+    expect(getGame().status).toBe('setup');
+  });
+});
+
+describe('NumberCaller prize checks', () => {
+  const topLineGame = (game: Partial<StandInGame> = {}): Partial<StandInGame> => ({
+    session_numbers: [4, 23, 45, 67, 81, 12, 34],
+    tickets: { [TICKET.ticketId]: TICKET },
+    prizes: { [TOP_LINE.id]: TOP_LINE },
+    ...game
+  });
+
+  const callNumbers = async (caller: NumberCaller, count: number) => {
+    for (let call = 0; call <= count; call++) {
+      await caller.tick(call * INTERVAL);
+    }
+  };
+
+  it('awards a prize on the call that wins it', async () => {
+    const { caller, getGame } = createCaller(topLineGame());
+
+    await callNumbers(caller, 4);
+    expect(getGame().prizes![TOP_LINE.id].won).toBe(false);
+
+    await caller.tick(5 * INTERVAL);
+    expect(getGame().prizes![TOP_LINE.id]).toMatchObject({ won: true, winningNumber: 81, winners: [{ ticketId: '1' }] });
+    expect(getGame().game_state.prizesCheckedThrough).toBe(5);
+  });
+
+  it('pauses a hold-for-claims game before the next call', async () => {
+    const { caller, getGame } = createCaller(topLineGame({ hold_for_claims: true }));
+
+    await callNumbers(caller, 5);
+    await caller.tick(6 * INTERVAL);
+    await caller.tick(7 * INTERVAL);
+
+    expect(getGame().status).toBe('paused');
+    expect(getGame().game_state.calledNumbers).toEqual([4, 23, 45, 67, 81]);
+    expect(getGame().game_state.claimCheck?.claims.map(claim => [claim.prizeId, claim.winningNumber])).toEqual([[TOP_LINE.id, 81]]);
+    expect(getGame().prizes![TOP_LINE.id].won).toBe(false);
+  });
+
+  it('awards the final call instead of holding it', async () => {
+    const { caller, getGame } = createCaller(topLineGame({ hold_for_claims: true, session_numbers: [4, 23, 45, 67, 81] }));
+
+    await callNumbers(caller, 5);
+
+    expect(getGame().status).toBe('finished');
+    expect(getGame().prizes![TOP_LINE.id]).toMatchObject({ won: true, winningNumber: 81 });
+  });
+
+  it('checks calls made elsewhere before calling the next number', async () => {
+    const { caller, getGame } = createCaller(topLineGame({
+      hold_for_claims: true,
+      game_state: createGameState({ calledNumbers: [4, 23, 45, 67, 81], prizesCheckedThrough: 3 })
+    }));
+
+    await caller.tick(0);
+    await caller.tick(INTERVAL);
+
+    expect(getGame().status).toBe('paused');
+    expect(getGame().game_state.calledNumbers).toHaveLength(5);
+    expect(getGame().game_state.prizesCheckedThrough).toBe(5);
+  });
+});
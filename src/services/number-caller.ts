@@ -0,0 +1,625 @@
+// src/services/number-caller.ts - Host-independent number caller
+//
+// Runs outside the browser (see scripts/number-caller.ts): every tick it looks
+// at games in countdown/active/paused and scheduled games, starts countdowns
+// that are due, finishes countdowns and calls call_next_number for each active
+// game once its call interval has passed. Each call is checked for prizes
+// before the next one, so hold-for-claims games pause with no host page open.
+// The host's browser then only displays and announces numbers.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CallNextNumberResponse, CallingMode, GameState, GameStatus, GameVariant, PendingClaim } from './supabase-types';
+import type { GamePrizes, GameTickets } from './prize-registry';
+import { createSeededRandom } from './ticket-generator';
+import { getGameVariant } from './game-variants';
+import { getCallingMode, getManualSessionMetadata } from './calling-modes';
+import { createCommittedDraw, getCommittedSessionMetadata } from './provably-fair';
+import { createCountdownState, getCountdownRemaining, isScheduledStartDue } from './game-schedule';
+import { assertTransition, getTransitionError, GameStateConflictError, type LifecycleGame } from './game-lifecycle';
+import { addClaims, getUncheckedCallCounts } from './claim-checks';
+import { checkCallsForPrizes, type PrizeCheckActions, type PrizeCheckGame } from './prize-checks';
+
+// ================== CONFIGURATION ==================
+
+export const DEFAULT_CALL_INTERVAL = 8000;
+export const MIN_CALL_INTERVAL = 2000;
+export const CALLER_TICK_MS = 1000;
+
+export interface CallerGame {
+  id: string;
+  status: GameStatus;
+  game_state: GameState;
+  // Milliseconds between calls, null for games created before it was stored
+  call_interval?: number | null;
+  // Manual games are called by the host from a physical drum - only their countdown runs here
+  calling_mode?: CallingMode | null;
+  game_variant?: GameVariant | null;
+  scheduled_start_at?: string | null;
+  countdown_seconds?: number | null;
+  // Bumped on every game_state/status change - writes are checked against it
+  state_revision?: number;
+}
+
+/**
+ * What the caller needs from a database - implemented for Supabase and for
+ * the in-memory stand-in used to run the caller locally
+ */
+export interface CallerDatabase extends PrizeCheckActions {
+  getCallableGames(): Promise<CallerGame[]>;
+  // The game with its prizes and booked tickets, null once it is deleted
+  getPrizeCheckGame(gameId: string): Promise<PrizeCheckGame | null>;
+  callNextNumber(gameId: string): Promise<CallNextNumberResponse>;
+  countBookedTickets(gameId: string): Promise<number>;
+  // Begins the countdown of a scheduled game that is still in setup, then
+  // commits its draw. False when the game changed since it was read
+  startScheduledGame(game: CallerGame, now: number): Promise<boolean>;
+  // False when the game left its countdown (or changed) since it was read
+  activateGameAfterCountdown(gameId: string): Promise<boolean>;
+}
+
+export interface NumberCallerOptions {
+  tickMs?: number;
+  defaultCallInterval?: number;
+  log?: (message: string) => void;
+}
+
+export const getCallInterval = (game: Pick<CallerGame, 'call_interval'>, fallback = DEFAULT_CALL_INTERVAL): number =>
+  Math.max(MIN_CALL_INTERVAL, game.call_interval || fallback);
+
+const isCallingGame = (game: CallerGame): boolean =>
+  game.calling_mode !== 'manual' &&
+  game.status === 'active' &&
+  !!game.game_state?.isActive &&
+  !game.game_state?.isCountdown &&
+  !game.game_state?.gameOver;
+
+const isCountdownGame = (game: CallerGame): boolean =>
+  game.status === 'countdown' && !!game.game_state?.isCountdown;
+
+// ================== CALLER ==================
+
+export class NumberCaller {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  // When each active game's next number is due
+  private nextCallAt = new Map<string, number>();
+  // Countdown end for states without countdownEndsAt, from when they were first seen
+  private countdownEndsAt = new Map<string, number>();
+  private inFlight = new Set<string>();
+  // Scheduled games the lifecycle won't start yet, so the reason is logged once
+  private blockedStarts = new Set<string>();
+
+  private readonly tickMs: number;
+  private readonly defaultCallInterval: number;
+  private readonly log: (message: string) => void;
+
+  constructor(private readonly db: CallerDatabase, options: NumberCallerOptions = {}) {
+    this.tickMs = options.tickMs || CALLER_TICK_MS;
+    this.defaultCallInterval = options.defaultCallInterval || DEFAULT_CALL_INTERVAL;
+    this.log = options.log || (message => console.log(message));
+  }
+
+  get isRunning(): boolean {
+    return !!this.timer;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.log(`📞 Number caller started (tick ${this.tickMs}ms)`);
+    this.timer = setInterval(() => {
+      this.tick().catch(error => this.log(`❌ Caller tick failed: ${error.message || error}`));
+    }, this.tickMs);
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    this.log('🛑 Number caller stopped');
+  }
+
+  /**
+   * One pass over all games. Overlapping ticks are skipped so a slow database
+   * can't cause double calls
+   */
+  async tick(now = Date.now()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const games = await this.db.getCallableGames();
+      const seen = new Set<string>();
+
+      for (const game of games) {
+        seen.add(game.id);
+
+        try {
+          if (isScheduledStartDue(game, now)) {
+            await this.tickScheduledStart(game, now);
+          } else if (isCountdownGame(game)) {
+            await this.tickCountdown(game, now);
+          } else if (getUncheckedCallCounts(game.game_state).length > 0) {
+            // Calls made elsewhere (manual, a host page) or left by a failed
+            // check - the next number waits until they are checked
+            await this.checkPrizes(game.id);
+          } else if (isCallingGame(game)) {
+            await this.tickCalling(game, now);
+          } else {
+            // Paused (or otherwise idle) - the interval restarts on resume
+            this.nextCallAt.delete(game.id);
+            this.countdownEndsAt.delete(game.id);
+          }
+        } catch (error: any) {
+          // One failing game mustn't hold up the others - it's looked at again next tick
+          this.log(`❌ Game ${game.id}: ${error.message || 'Tick failed'}`);
+        }
+      }
+
+      // Finished or deleted games drop out of the query
+      for (const gameId of Array.from(this.nextCallAt.keys())) {
+        if (!seen.has(gameId)) this.nextCallAt.delete(gameId);
+      }
+      for (const gameId of Array.from(this.countdownEndsAt.keys())) {
+        if (!seen.has(gameId)) this.countdownEndsAt.delete(gameId);
+      }
+      for (const gameId of Array.from(this.blockedStarts)) {
+        if (!seen.has(gameId)) this.blockedStarts.delete(gameId);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async tickScheduledStart(game: CallerGame, now: number): Promise<void> {
+    const bookedTickets = await this.db.countBookedTickets(game.id);
+    const error = getTransitionError('start', { ...game, bookedTickets });
+
+    if (error) {
+      // Stays in setup - bookings made later still start it
+      if (!this.blockedStarts.has(game.id)) {
+        this.blockedStarts.add(game.id);
+        this.log(`⚠️ Game ${game.id} not started: ${error.message}`);
+      }
+      return;
+    }
+
+    this.blockedStarts.delete(game.id);
+    if (await this.db.startScheduledGame(game, now)) {
+      this.log(`⏰ Game ${game.id} countdown started`);
+    }
+  }
+
+  private async tickCountdown(game: CallerGame, now: number): Promise<void> {
+    if (game.game_state.countdownEndsAt) {
+      if (getCountdownRemaining(game.game_state, now) > 0) return;
+    } else {
+      if (!this.countdownEndsAt.has(game.id)) {
+        this.countdownEndsAt.set(game.id, now + (game.game_state.countdownTime || 0) * 1000);
+      }
+      if (now < this.countdownEndsAt.get(game.id)) return;
+    }
+
+    // Someone else moved the game on - the next tick sees it as it is now
+    if (!await this.db.activateGameAfterCountdown(game.id)) return;
+
+    this.countdownEndsAt.delete(game.id);
+    // First number comes one interval after the game goes live
+    this.nextCallAt.set(game.id, now + getCallInterval(game, this.defaultCallInterval));
+    this.log(`🎮 Game ${game.id} is live`);
+  }
+
+  private async tickCalling(game: CallerGame, now: number): Promise<void> {
+    const interval = getCallInterval(game, this.defaultCallInterval);
+    const dueAt = this.nextCallAt.get(game.id);
+
+    if (dueAt === undefined) {
+      this.nextCallAt.set(game.id, now + interval);
+      return;
+    }
+
+    if (now < dueAt || this.inFlight.has(game.id)) return;
+
+    this.inFlight.add(game.id);
+    try {
+      const result = await this.db.callNextNumber(game.id);
+
+      if (!result.success || result.game_over) {
+        this.nextCallAt.delete(game.id);
+        this.log(`🏁 Game ${game.id} over: ${result.message}`);
+        // Finished games drop out of the next tick - the last call is checked now
+        if (result.success) await this.checkPrizes(game.id);
+        return;
+      }
+
+      this.nextCallAt.set(game.id, now + interval);
+      this.log(`✅ Game ${game.id}: called ${result.number} (${result.total_called} total)`);
+      // A claim held on this call pauses the game before the next one is due
+      await this.checkPrizes(game.id);
+    } catch (error: any) {
+      // Try again next interval rather than hammering a failing game
+      this.nextCallAt.set(game.id, now + interval);
+      this.log(`❌ Game ${game.id}: ${error.message || 'Failed to call next number'}`);
+    } finally {
+      this.inFlight.delete(game.id);
+    }
+  }
+
+  private async checkPrizes(gameId: string): Promise<void> {
+    const game = await this.db.getPrizeCheckGame(gameId);
+    if (!game) return;
+
+    const { awarded, held } = await checkCallsForPrizes(game, this.db);
+    if (held.length > 0) this.log(`✋ Game ${gameId}: holding for claims on ${held.join(', ')}`);
+    if (awarded.length > 0) this.log(`🏆 Game ${gameId}: awarded ${awarded.join(', ')}`);
+  }
+}
+
+// ================== PRIZE CHECK WRITES ==================
+
+// The same game updates SupabaseGameService makes from the host's page
+
+const holdGameForClaims = (game: LifecycleGame & { game_state: GameState }, claims: PendingClaim[]) => ({
+  // A game the host already paused stays paused after the claims are decided
+  status: game.status === 'paused' ? game.status : assertTransition('pause', game),
+  game_state: { ...game.game_state, claimCheck: addClaims(game.game_state.claimCheck, claims, game.status !== 'paused') }
+});
+
+// Never moves back - a host page finishing an older check leaves it be
+const markGameChecked = (gameState: GameState, calledCount: number): GameState => ({
+  ...gameState,
+  prizesCheckedThrough: Math.max(gameState.prizesCheckedThrough || 0, Math.min(calledCount, gameState.calledNumbers?.length || 0))
+});
+
+// ================== SUPABASE DATABASE ==================
+
+/**
+ * Game update that only lands if game_state and status are unchanged since
+ * the read. No retries - a conflicting write is picked up again next tick
+ */
+const updateGameIfUnchanged = async (
+  client: SupabaseClient,
+  gameId: string,
+  buildUpdates: (game: LifecycleGame & { game_state: GameState }) => Partial<Pick<CallerGame, 'status' | 'game_state'>>
+): Promise<void> => {
+  const { data: game, error: readError } = await client
+    .from('games')
+    .select('status, game_state, state_revision')
+    .eq('id', gameId)
+    .single();
+
+  if (readError) throw new Error(readError.message);
+
+  const { data, error } = await client
+    .from('games')
+    .update(buildUpdates(game))
+    .eq('id', gameId)
+    .eq('state_revision', game.state_revision ?? 0)
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  if (!data || data.length === 0) throw new GameStateConflictError(gameId, 1);
+};
+
+/**
+ * Caller backed by Supabase. Needs a service role client - the caller acts
+ * for every host
+ */
+export const createSupabaseCallerDatabase = (client: SupabaseClient): CallerDatabase => ({
+  async getCallableGames() {
+    const { data, error } = await client
+      .from('games')
+      .select('id, status, game_state, state_revision, call_interval, calling_mode, game_variant, scheduled_start_at, countdown_seconds')
+      .or('status.in.(countdown,active,paused),and(status.eq.setup,scheduled_start_at.not.is.null)');
+
+    if (error) throw new Error(error.message);
+    return (data || []) as CallerGame[];
+  },
+
+  async getPrizeCheckGame(gameId) {
+    const [gameResult, prizesResult, ticketsResult] = await Promise.all([
+      client
+        .from('games')
+        .select('id, status, game_state, game_variant, hold_for_claims')
+        .eq('id', gameId)
+        .maybeSingle(),
+      client
+        .from('prizes')
+        .select('id, prize_type, rule_params, name, won, winners, tie_rule')
+        .eq('game_id', gameId),
+      client
+        .from('tickets')
+        .select('ticket_id, player_name, player_phone, rows, is_booked, booked_at, metadata, position_in_set, set_id')
+        .eq('game_id', gameId)
+        .eq('is_booked', true)
+    ]);
+
+    for (const { error } of [gameResult, prizesResult, ticketsResult]) {
+      if (error) throw new Error(error.message);
+    }
+    if (!gameResult.data) return null;
+
+    // Keyed and named as GameDataProvider hands them to the host's page
+    const prizes: GamePrizes = {};
+    for (const prize of prizesResult.data || []) {
+      prizes[prize.id] = {
+        id: prize.id,
+        prizeType: prize.prize_type,
+        ruleParams: prize.rule_params || {},
+        name: prize.name,
+        won: prize.won,
+        winners: prize.winners || [],
+        tieRule: prize.tie_rule
+      };
+    }
+
+    const tickets: GameTickets = {};
+    for (const ticket of ticketsResult.data || []) {
+      tickets[ticket.ticket_id] = {
+        ticketId: ticket.ticket_id,
+        playerName: ticket.player_name,
+        playerPhone: ticket.player_phone,
+        rows: ticket.rows,
+        isBooked: ticket.is_booked,
+        bookedAt: ticket.booked_at,
+        metadata: ticket.metadata,
+        positionInSet: ticket.position_in_set,
+        setId: ticket.set_id
+      };
+    }
+
+    return { ...gameResult.data, prizes, tickets } as PrizeCheckGame;
+  },
+
+  async holdForClaims(gameId, claims) {
+    await updateGameIfUnchanged(client, gameId, game => holdGameForClaims(game, claims));
+  },
+
+  async awardPrizes(prizeWinners, winningNumber) {
+    const wonAt = new Date().toISOString();
+
+    await Promise.all(
+      Object.entries(prizeWinners).map(async ([prizeId, { winners, tieBreak }]) => {
+        // Only a prize still in play - a host page may have awarded it first
+        const { error } = await client
+          .from('prizes')
+          .update({ won: true, winning_number: winningNumber, won_at: wonAt, winners, tie_break: tieBreak || null })
+          .eq('id', prizeId)
+          .eq('won', false);
+
+        if (error) throw new Error(error.message);
+      })
+    );
+  },
+
+  async markPrizesChecked(gameId, calledCount) {
+    await updateGameIfUnchanged(client, gameId, game => ({ game_state: markGameChecked(game.game_state, calledCount) }));
+  },
+
+  async callNextNumber(gameId) {
+    const { data, error } = await client.rpc('call_next_number', { game_id: gameId });
+    if (error) throw new Error(error.message);
+    return data as CallNextNumberResponse;
+  },
+
+  async countBookedTickets(gameId) {
+    const { count, error } = await client
+      .from('tickets')
+      .select('id', { count: 'exact', head: true })
+      .eq('game_id', gameId)
+      .eq('is_booked', true);
+
+    if (error) throw new Error(error.message);
+    return count || 0;
+  },
+
+  async startScheduledGame(game, now) {
+    const { totalNumbers } = getGameVariant(game.game_variant);
+
+    // Only the game as it was read - the host may have started it by hand
+    // meanwhile, and then the draw is theirs
+    const { data: started, error: startError } = await client
+      .from('games')
+      .update({ status: 'countdown', game_state: createCountdownState(game, now) })
+      .eq('id', game.id)
+      .eq('status', 'setup')
+      .eq('state_revision', game.state_revision ?? 0)
+      .select('id, state_revision');
+
+    if (startError) throw new Error(startError.message);
+    if (!started || started.length !== 1) return false;
+
+    try {
+      if (getCallingMode(game) === 'manual') {
+        const { error } = await client
+          .from('games')
+          .update({ session_numbers: [], session_metadata: getManualSessionMetadata(totalNumbers) })
+          .eq('id', game.id);
+
+        if (error) throw new Error(error.message);
+      } else {
+        const draw = await createCommittedDraw(totalNumbers);
+        const { error } = await client.rpc('commit_game_draw', {
+          game_id: game.id,
+          seed: draw.seed,
+          numbers: draw.sequence,
+          session_metadata: getCommittedSessionMetadata(draw, totalNumbers)
+        });
+
+        if (error) throw new Error(error.message);
+      }
+    } catch (drawError) {
+      // Back to setup for the next tick - never count down without a draw
+      await client
+        .from('games')
+        .update({ status: 'setup', game_state: game.game_state })
+        .eq('id', game.id)
+        .eq('status', 'countdown')
+        .eq('state_revision', started[0].state_revision);
+
+      throw drawError;
+    }
+
+    return true;
+  },
+
+  async activateGameAfterCountdown(gameId) {
+    const { data: game, error: readError } = await client
+      .from('games')
+      .select('game_state, state_revision')
+      .eq('id', gameId)
+      .single();
+
+    if (readError) throw new Error(readError.message);
+
+    const { data: activated, error } = await client
+      .from('games')
+      .update({
+        status: 'active',
+        game_state: { ...game.game_state, isActive: true, isCountdown: false, countdownTime: 0 },
+        started_at: new Date().toISOString()
+      })
+      .eq('id', gameId)
+      .eq('status', 'countdown')
+      // A game_state change since the read leaves it in countdown for the next tick
+      .eq('state_revision', game.state_revision ?? 0)
+      .select('id');
+
+    if (error) throw new Error(error.message);
+    return !!activated && activated.length === 1;
+  }
+});
+
+// ================== IN-MEMORY STAND-IN ==================
+
+export interface StandInGame extends CallerGame {
+  session_numbers: number[];
+  booked_tickets?: number;
+  hold_for_claims?: boolean | null;
+  prizes?: GamePrizes;
+  tickets?: GameTickets;
+}
+
+export interface StandInCallerDatabase extends CallerDatabase {
+  games: Map<string, StandInGame>;
+  setStatus(gameId: string, status: GameStatus): void;
+}
+
+/**
+ * Shuffled 1..totalNumbers, reproducible from a seed
+ */
+export const createStandInNumbers = (seed: number, totalNumbers = 90): number[] => {
+  const random = createSeededRandom(seed);
+  const numbers = Array.from({ length: totalNumbers }, (_, i) => i + 1);
+  for (let i = numbers.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
+  }
+  return numbers;
+};
+
+/**
+ * Stand-in database with the same call_next_number behaviour as the hosted
+ * function: next number from session_numbers, game over when all are called
+ */
+export const createStandInCallerDatabase = (initialGames: StandInGame[]): StandInCallerDatabase => {
+  const games = new Map(initialGames.map(game => [game.id, { ...game, game_state: { ...game.game_state } }]));
+
+  const getGame = (gameId: string): StandInGame => {
+    const game = games.get(gameId);
+    if (!game) throw new Error(`Game ${gameId} not found`);
+    return game;
+  };
+
+  return {
+    games,
+
+    setStatus(gameId, status) {
+      getGame(gameId).status = status;
+    },
+
+    async getCallableGames() {
+      return Array.from(games.values())
+        .filter(game => ['countdown', 'active', 'paused'].includes(game.status) || (game.status === 'setup' && game.scheduled_start_at))
+        .map(game => ({ ...game, game_state: { ...game.game_state } }));
+    },
+
+    async callNextNumber(gameId) {
+      const game = getGame(gameId);
+      const state = game.game_state;
+
+      if (game.status !== 'active' || !state.isActive || state.gameOver) {
+        return { success: false, number: null, game_over: state.gameOver, message: 'Game is not active', total_called: state.calledNumbers.length };
+      }
+
+      const number = game.session_numbers[state.calledNumbers.length];
+      if (number === undefined) {
+        return { success: false, number: null, game_over: true, message: 'All numbers called', total_called: state.calledNumbers.length };
+      }
+
+      const calledNumbers = [...state.calledNumbers, number];
+      const gameOver = calledNumbers.length >= game.session_numbers.length;
+
+      game.game_state = {
+        ...state,
+        calledNumbers,
+        currentNumber: number,
+        totalNumbersCalled: calledNumbers.length,
+        gameOver,
+        isActive: !gameOver
+      };
+      if (gameOver) game.status = 'finished';
+
+      return {
+        success: true,
+        number,
+        game_over: gameOver,
+        message: gameOver ? 'All numbers called' : 'Number called',
+        total_called: calledNumbers.length
+      };
+    },
+
+    async countBookedTickets(gameId) {
+      return getGame(gameId).booked_tickets || 0;
+    },
+
+    async getPrizeCheckGame(gameId) {
+      const game = games.get(gameId);
+      return game ? { ...game, game_state: { ...game.game_state }, prizes: { ...game.prizes } } : null;
+    },
+
+    async holdForClaims(gameId, claims) {
+      Object.assign(getGame(gameId), holdGameForClaims(getGame(gameId), claims));
+    },
+
+    async awardPrizes(prizeWinners, winningNumber) {
+      for (const game of games.values()) {
+        for (const [prizeId, { winners, tieBreak }] of Object.entries(prizeWinners)) {
+          const prize = game.prizes?.[prizeId];
+          if (!prize || prize.won) continue;
+          game.prizes[prizeId] = { ...prize, won: true, winners, winningNumber, tieBreak: tieBreak || null };
+        }
+      }
+    },
+
+    async markPrizesChecked(gameId, calledCount) {
+      const game = getGame(gameId);
+      game.game_state = markGameChecked(game.game_state, calledCount);
+    },
+
+    async startScheduledGame(game, now) {
+      const standInGame = getGame(game.id);
+      if (standInGame.status !== 'setup') return false;
+      standInGame.status = 'countdown';
+      standInGame.game_state = createCountdownState(standInGame, now);
+      return true;
+    },
+
+    async activateGameAfterCountdown(gameId) {
+      const game = getGame(gameId);
+      if (game.status !== 'countdown') return false;
+      game.status = 'active';
+      game.game_state = { ...game.game_state, isActive: true, isCountdown: false, countdownTime: 0 };
+      return true;
+    }
+  };
+};
@@ -0,0 +1,146 @@
+// src/services/number-sequence.ts - Reproducible call-order generator
+//
+// Every sequence is a Fisher-Yates shuffle driven by a seed, so the full call
+// order of any game can be regenerated from the seed and algorithm version in
+// its SessionMetadata. The seed comes from crypto.getRandomValues by default;
+// tests and replays can pass their own.
+
+import type { NumberSequenceSource, NumberSequenceAlgorithmVersion } from './supabase-types';
+
+export type { NumberSequenceSource, NumberSequenceAlgorithmVersion } from './supabase-types';
+
+// ================== CONFIGURATION ==================
+
+export interface NumberSequenceAlgorithm {
+  version: NumberSequenceAlgorithmVersion;
+  name: string;
+  description: string;
+}
+
+export const NUMBER_SEQUENCE_ALGORITHMS: Record<NumberSequenceAlgorithmVersion, NumberSequenceAlgorithm> = {
+  1: {
+    version: 1,
+    name: 'sha256-fisher-yates',
+    description: 'SHA-256 of "seed:counter" blocks, rejection-sampled to avoid bias'
+  }
+};
+
+export const CURRENT_NUMBER_SEQUENCE_VERSION: NumberSequenceAlgorithmVersion = 1;
+export const DEFAULT_NUMBER_SEQUENCE_SOURCE: NumberSequenceSource = 'crypto';
+
+const SEED_BYTES = 16;
+const UINT32_RANGE = 0x100000000;
+
+export interface NumberSequenceOptions {
+  source?: NumberSequenceSource;
+  // Required for the 'seeded' source
+  seed?: string;
+  version?: NumberSequenceAlgorithmVersion;
+}
+
+export interface GeneratedNumberSequence {
+  seed: string;
+  sequence: number[];
+  source: NumberSequenceSource;
+  algorithmVersion: NumberSequenceAlgorithmVersion;
+}
+
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Random 128-bit seed as hex, from the platform's secure random source
+ */
+export const createSequenceSeed = (): string => {
+  const bytes = new Uint8Array(SEED_BYTES);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+};
+
+export const getNumberSequenceAlgorithm = (version?: number | null): NumberSequenceAlgorithm =>
+  NUMBER_SEQUENCE_ALGORITHMS[version as NumberSequenceAlgorithmVersion] ||
+  NUMBER_SEQUENCE_ALGORITHMS[CURRENT_NUMBER_SEQUENCE_VERSION];
+
+// ================== ALGORITHMS ==================
+
+type RandomIndexFn = (bound: number) => Promise<number>;
+
+/**
+ * v1: unbiased indexes from a SHA-256 counter stream. Each block gives eight
+ * 32-bit words; words past the largest multiple of the bound are discarded
+ */
+const createSha256Index = (seed: string): RandomIndexFn => {
+  const encoder = new TextEncoder();
+  let counter = 0;
+  let words: Uint32Array = new Uint32Array(0);
+  let position = 0;
+
+  const nextWord = async (): Promise<number> => {
+    if (position >= words.length) {
+      const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${seed}:${counter++}`));
+      const view = new DataView(digest);
+      words = new Uint32Array(digest.byteLength / 4).map((_, i) => view.getUint32(i * 4));
+      position = 0;
+    }
+    return words[position++];
+  };
+
+  return async bound => {
+    const limit = UINT32_RANGE - (UINT32_RANGE % bound);
+    let word = await nextWord();
+    while (word >= limit) {
+      word = await nextWord();
+    }
+    return word % bound;
+  };
+};
+
+const INDEX_GENERATORS: Record<NumberSequenceAlgorithmVersion, (seed: string) => RandomIndexFn> = {
+  1: createSha256Index
+};
+
+// ================== GENERATION ==================
+
+/**
+ * Call order for a seed: Fisher-Yates shuffle of 1..totalNumbers with the
+ * given algorithm version. Same inputs always give the same sequence
+ */
+export const regenerateNumberSequence = async (
+  seed: string,
+  totalNumbers: number,
+  version: NumberSequenceAlgorithmVersion = CURRENT_NUMBER_SEQUENCE_VERSION
+): Promise<number[]> => {
+  const randomIndex = INDEX_GENERATORS[getNumberSequenceAlgorithm(version).version](seed);
+  const numbers = Array.from({ length: totalNumbers }, (_, i) => i + 1);
+
+  for (let i = numbers.length - 1; i > 0; i--) {
+    const j = await randomIndex(i + 1);
+    [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
+  }
+
+  return numbers;
+};
+
+/**
+ * New call order for a game (1-90, or 1-75 for bingo)
+ */
+export const generateNumberSequence = async (
+  totalNumbers: number,
+  options: NumberSequenceOptions = {}
+): Promise<GeneratedNumberSequence> => {
+  const source = options.source || DEFAULT_NUMBER_SEQUENCE_SOURCE;
+  const algorithmVersion = options.version || CURRENT_NUMBER_SEQUENCE_VERSION;
+
+  if (source === 'seeded' && !options.seed?.trim()) {
+    throw new Error('A seed is required for a seeded number sequence');
+  }
+
+  const seed = source === 'seeded' ? options.seed.trim() : createSequenceSeed();
+
+  return {
+    seed,
+    sequence: await regenerateNumberSequence(seed, totalNumbers, algorithmVersion),
+    source,
+    algorithmVersion
+  };
+};
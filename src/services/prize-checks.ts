@@ -0,0 +1,84 @@
+// src/services/prize-checks.ts - Checking each call for prize winners
+//
+// Run by the host's page (HostControlsProvider) and by the server-side number
+// caller, so prizes are found and claims held whether or not a host page is
+// open. Every call after game_state.prizesCheckedThrough is checked, oldest
+// first. Awards only land on prizes still in play and a held prize keeps its
+// first claim, so two checkers on the same call find each prize once.
+
+import type { GameState, GameStatus, GameVariant, PendingClaim } from './supabase-types';
+import type { GamePrizes, GameTickets } from './prize-registry';
+import { validateTicketsForPrizes } from './prize-engine';
+import { getUncheckedCallCounts, isHoldForClaims, toPendingClaims, withoutRejectedClaims, type DetectedWinners } from './claim-checks';
+import { resolvePrizeTies } from './prize-ties';
+import { getGameVariant } from './game-variants';
+
+export interface PrizeCheckGame {
+  id: string;
+  status: GameStatus;
+  game_state: GameState;
+  game_variant?: GameVariant | null;
+  hold_for_claims?: boolean | null;
+  prizes?: GamePrizes;
+  tickets?: GameTickets;
+}
+
+/**
+ * Where a check records what it found - supabaseService on the host's page,
+ * the caller's database on the server
+ */
+export interface PrizeCheckActions {
+  holdForClaims(gameId: string, claims: PendingClaim[]): Promise<void>;
+  awardPrizes(prizeWinners: DetectedWinners, winningNumber: number): Promise<void>;
+  markPrizesChecked(gameId: string, calledCount: number): Promise<void>;
+}
+
+export interface PrizeCheckResult {
+  // Names of the prizes awarded and held for the host to check
+  awarded: string[];
+  held: string[];
+}
+
+/**
+ * Checks every call not checked yet. The final call of a game is never held -
+ * there is nothing left to pause
+ */
+export const checkCallsForPrizes = async (game: PrizeCheckGame, actions: PrizeCheckActions): Promise<PrizeCheckResult> => {
+  const result: PrizeCheckResult = { awarded: [], held: [] };
+  const calledNumbers = game.game_state?.calledNumbers || [];
+  const callCounts = getUncheckedCallCounts(game.game_state);
+  if (callCounts.length === 0) return result;
+
+  // Prizes found on an earlier call of this pass are out of play for the later ones
+  const prizes = { ...(game.prizes || {}) };
+  const tickets = game.tickets || {};
+  const totalNumbers = getGameVariant(game.game_variant).totalNumbers;
+
+  for (const count of callCounts) {
+    const called = calledNumbers.slice(0, count);
+    const number = called[count - 1];
+
+    const { winners } = await validateTicketsForPrizes(tickets, called, prizes);
+    const eligible = withoutRejectedClaims(winners, game.game_state);
+    if (Object.keys(eligible).length === 0) continue;
+
+    const detected = await resolvePrizeTies(eligible, prizes, tickets);
+    const isFinalCall = count >= totalNumbers || game.status === 'finished';
+    const names = Object.entries(detected).map(([prizeId, { prizeName }]) => prizeName || prizeId);
+
+    if (isHoldForClaims(game) && !isFinalCall) {
+      await actions.holdForClaims(game.id, toPendingClaims(detected, number));
+      result.held.push(...names);
+    } else {
+      await actions.awardPrizes(detected, number);
+      result.awarded.push(...names);
+    }
+
+    for (const prizeId of Object.keys(detected)) {
+      prizes[prizeId] = { ...prizes[prizeId], won: true };
+    }
+  }
+
+  await actions.markPrizesChecked(game.id, callCounts[callCounts.length - 1]);
+  return result;
+};
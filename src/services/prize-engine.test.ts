@@ -0,0 +1,251 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeTicketMetadata,
+  createPrizeConfiguration,
+  getPrizeOfType,
+  getPrizeType,
+  getPrizeTypes,
+  getSpokenPrizeName,
+  registerPrizeType,
+  validateTicketsForPrizes,
+  type GamePrize,
+  type GameTicket
+} from './prize-engine';
+
+//  4  .  23  .  45  .  67  .  81
+//  . 12   . 34  46 58   . 72   .
+//  7 15   . 39   .  .  69  .  90
+const ROWS = [
+  [4, 0, 23, 0, 45, 0, 67, 0, 81],
+  [0, 12, 0, 34, 46, 58, 0, 72, 0],
+  [7, 15, 0, 39, 0, 0, 69, 0, 90]
+];
+
+const TICKET_NUMBERS = ROWS.flat().filter(num => num > 0);
+
+const createTicket = (ticketId: string, ticket: Partial<GameTicket> = {}): GameTicket => {
+  const rows = ticket.rows || ROWS;
+  return {
+    ticketId,
+    rows,
+    isBooked: true,
+    playerName: `Player ${ticketId}`,
+    metadata: computeTicketMetadata({ rows }),
+    ...ticket
+  };
+};
+
+const createPrize = (id: string, prizeType: string, prize: Partial<GamePrize> = {}): GamePrize => ({
+  id,
+  prizeType,
+  name: getPrizeType(prizeType)?.name || prizeType,
+  won: false,
+  ...prize
+});
+
+/**
+ * Ticket IDs that win each prize once the given numbers are called
+ */
+const findWinners = async (
+  prizes: GamePrize[],
+  calledNumbers: number[],
+  tickets: GameTicket[] = [createTicket('1')]
+): Promise<{ [prizeId: string]: string[] }> => {
+  const { winners } = await validateTicketsForPrizes(
+    Object.fromEntries(tickets.map(ticket => [ticket.ticketId, ticket])),
+    calledNumbers,
+    Object.fromEntries(prizes.map(prize => [prize.id, prize]))
+  );
+  return Object.fromEntries(
+    Object.entries(winners).map(([prizeId, { winners: prizeWinners }]) => [prizeId, prizeWinners.map(winner => winner.ticketId)])
+  );
+};
+
+describe('prize registry', () => {
+  it('lists the built-in types for each variant in display order', () => {
+    const traditional = getPrizeTypes('90-ball');
+    const bingo = getPrizeTypes('75-ball');
+
+    expect(traditional.map(prizeType => prizeType.id)).toContain('fullHouse');
+    expect(traditional.every(prizeType => prizeType.variant === '90-ball')).toBe(true);
+    expect(bingo.length).toBeGreaterThan(0);
+    expect(bingo.every(prizeType => prizeType.variant === '75-ball')).toBe(true);
+    for (const list of [traditional, bingo]) {
+      expect(list.map(prizeType => prizeType.order)).toEqual([...list.map(prizeType => prizeType.order)].sort((a, b) => a - b));
+    }
+  });
+
+  it('keeps the custom pattern type out of the prize list', () => {
+    expect(getPrizeType('customPattern')?.custom).toBe(true);
+    expect(getPrizeTypes('90-ball').some(prizeType => prizeType.id === 'customPattern')).toBe(false);
+  });
+
+  it('refuses to register a type twice', () => {
+    expect(() => registerPrizeType(getPrizeType('fullHouse')!)).toThrow('Prize type "fullHouse" is already registered');
+  });
+
+  it('finds nothing for unknown types', () => {
+    expect(getPrizeType('noSuchPrize')).toBeNull();
+    expect(getPrizeType(null)).toBeNull();
+  });
+
+  it('finds a game prize by its type', () => {
+    const prizes = { 'uuid-1': createPrize('uuid-1', 'topLine'), 'uuid-2': createPrize('uuid-2', 'fullHouse') };
+
+    expect(getPrizeOfType(prizes, 'fullHouse')?.id).toBe('uuid-2');
+    expect(getPrizeOfType(prizes, 'corners')).toBeNull();
+  });
+
+  it("announces a prize by its type's spoken name unless the host renamed it", () => {
+    expect(getSpokenPrizeName({ name: 'Temperature', prizeType: 'temperature' })).toBe('Temperature, the lowest and highest numbers,');
+    expect(getSpokenPrizeName({ name: 'Hot and Cold', prizeType: 'temperature' })).toBe('Hot and Cold');
+    expect(getSpokenPrizeName({ name: '', prizeType: 'noSuchPrize' })).toBe('A prize');
+  });
+
+  it('builds a new game\'s prizes from the selected types', () => {
+    const prizes = createPrizeConfiguration(['topLine', 'noSuchPrize', 'fullHouse']);
+
+    expect(Object.keys(prizes)).toEqual(['topLine', 'fullHouse']);
+    expect(prizes.topLine).toMatchObject({ id: 'topLine', prizeType: 'topLine', name: 'Top Line', won: false, ruleParams: {} });
+  });
+});
+
+describe('validateTicketsForPrizes', () => {
+  it('matches prizes by their stored type, not their ID', async () => {
+    const prizes = [createPrize('3f2a-uuid', 'topLine'), createPrize('topLine', 'middleLine')];
+
+    expect(await findWinners(prizes, ROWS[0])).toEqual({ '3f2a-uuid': ['1'] });
+  });
+
+  it('skips prizes of unknown types and prizes already won', async () => {
+    const prizes = [createPrize('a', 'noSuchPrize'), createPrize('b', 'topLine', { won: true })];
+
+    expect(await findWinners(prizes, TICKET_NUMBERS)).toEqual({});
+  });
+
+  it('only awards booked tickets', async () => {
+    const tickets = [createTicket('1', { isBooked: false }), createTicket('2')];
+
+    expect(await findWinners([createPrize('a', 'fullHouse')], TICKET_NUMBERS, tickets)).toEqual({ a: ['2'] });
+  });
+
+  it('checks lines, corners and early five', async () => {
+    const prizes = ['topLine', 'middleLine', 'bottomLine', 'corners', 'starCorner', 'earlyFive', 'fullHouse']
+      .map(prizeType => createPrize(prizeType, prizeType));
+
+    expect(await findWinners(prizes, [4, 81, 7, 90])).toEqual({ corners: ['1'] });
+    expect(await findWinners(prizes, [4, 81, 7, 90, 46])).toEqual({ corners: ['1'], starCorner: ['1'], earlyFive: ['1'] });
+    expect(await findWinners(prizes, ROWS[1])).toEqual({ middleLine: ['1'], earlyFive: ['1'] });
+  });
+
+  it('reads the early count from the rule params', async () => {
+    const prizes = [createPrize('early', 'earlyFive', { ruleParams: { count: 3 } })];
+
+    expect(await findWinners(prizes, [4, 23])).toEqual({});
+    expect(await findWinners(prizes, [4, 23, 99, 45])).toEqual({ early: ['1'] });
+  });
+
+  it('holds a dependent prize until the prize it depends on is won', async () => {
+    const tickets = [createTicket('1'), createTicket('2')];
+    const secondFullHouse = createPrize('second', 'secondFullHouse');
+
+    expect(await findWinners([createPrize('first', 'fullHouse'), secondFullHouse], TICKET_NUMBERS, tickets))
+      .toEqual({ first: ['1', '2'] });
+
+    const fullHouseWon = createPrize('first', 'fullHouse', { won: true, winners: [{ name: 'Player 1', ticketId: '1' }] });
+    expect(await findWinners([fullHouseWon, secondFullHouse], TICKET_NUMBERS, tickets)).toEqual({ second: ['2'] });
+  });
+
+  it('awards a half sheet to a player holding three tickets of a set', async () => {
+    const tickets = [1, 2, 3].map(position =>
+      createTicket(String(position), { setId: 4, positionInSet: position, playerName: 'Meera' })
+    );
+    const prizes = [createPrize('half', 'halfSheet'), createPrize('full', 'fullSheet')];
+
+    expect(await findWinners(prizes, [4, 23])).toEqual({});
+    expect(await findWinners(prizes, [4], tickets)).toEqual({});
+    expect(await findWinners(prizes, [4, 23], tickets)).toEqual({ half: ['1,2,3'] });
+  });
+});
+
+describe('column prizes', () => {
+  const prizes = ['breakfast', 'lunch', 'dinner', 'bamboo'].map(prizeType => createPrize(prizeType, prizeType));
+
+  it('awards Breakfast, Lunch and Dinner for every number in their columns', async () => {
+    expect(await findWinners(prizes, [4, 12, 23, 34, 67])).toEqual({});
+    expect(await findWinners(prizes, [4, 7, 12, 15, 23])).toEqual({ breakfast: ['1'], bamboo: ['1'] });
+    expect(await findWinners(prizes, [34, 39, 45, 46, 58])).toEqual({ lunch: ['1'], bamboo: ['1'] });
+    expect(await findWinners(prizes, [67, 69, 72, 81, 90])).toEqual({ dinner: ['1'], bamboo: ['1'] });
+  });
+
+  it('awards Bamboo for a full column of two or more numbers', async () => {
+    expect(await findWinners(prizes, [23, 58, 72])).toEqual({});
+    expect(await findWinners(prizes, [81, 90])).toEqual({ bamboo: ['1'] });
+  });
+
+  it('highlights the columns of the prize', () => {
+    const lunch = getPrizeType('lunch')!.highlight;
+    const bamboo = getPrizeType('bamboo')!.highlight;
+    const ticket = createTicket('1');
+
+    expect(lunch.label).toBe('Lunch - Columns 4-6');
+    expect(lunch.isHighlighted({ row: 1, col: 5, number: 58 }, ticket, [], {})).toBe(true);
+    expect(lunch.isHighlighted({ row: 1, col: 6, number: 0 }, ticket, [], {})).toBe(false);
+    expect(bamboo.isHighlighted({ row: 0, col: 8, number: 81 }, ticket, [81, 90], {})).toBe(true);
+    expect(bamboo.isHighlighted({ row: 0, col: 0, number: 4 }, ticket, [81, 90], {})).toBe(false);
+  });
+});
+
+describe('value prizes', () => {
+  const prizes = ['temperature', 'lowestFive', 'highestFive', 'allOdd', 'allEven', 'pyramid']
+    .map(prizeType => createPrize(prizeType, prizeType));
+
+  it('computes the value sets from the ticket numbers', () => {
+    expect(computeTicketMetadata({ rows: ROWS })).toMatchObject({
+      lowest: 4,
+      highest: 90,
+      lowestFive: [4, 7, 12, 15, 23],
+      highestFive: [67, 69, 72, 81, 90],
+      oddNumbers: [7, 15, 23, 39, 45, 67, 69, 81],
+      evenNumbers: [4, 12, 34, 46, 58, 72, 90],
+      pyramid: [45, 34, 58, 7, 39, 90]
+    });
+  });
+
+  it('gives unreadable tickets empty value sets', () => {
+    expect(computeTicketMetadata({ rows: [[1, 2]] })).toMatchObject({
+      allNumbers: [],
+      lowestFive: [],
+      oddNumbers: [],
+      pyramid: []
+    });
+  });
+
+  it('awards Temperature for the lowest and highest numbers', async () => {
+    expect(await findWinners(prizes, [4, 81])).toEqual({});
+    expect(await findWinners(prizes, [4, 90])).toEqual({ temperature: ['1'] });
+  });
+
+  it('awards Lowest and Highest Five', async () => {
+    expect(await findWinners(prizes, [4, 7, 12, 15, 23])).toEqual({ lowestFive: ['1'] });
+    expect(await findWinners(prizes, [67, 69, 72, 81, 90])).toEqual({ highestFive: ['1'] });
+  });
+
+  it('awards All Odd and All Even', async () => {
+    expect(await findWinners(prizes, [7, 15, 23, 39, 45, 67, 69])).toEqual({});
+    expect(await findWinners(prizes, [7, 15, 23, 39, 45, 67, 69, 81])).toEqual({ allOdd: ['1'] });
+    expect(await findWinners(prizes, [4, 12, 34, 46, 58, 72])).toEqual({});
+    expect(await findWinners(prizes, [4, 12, 34, 46, 58, 72, 90])).toEqual({ allEven: ['1'], temperature: ['1'] });
+  });
+
+  it('awards the Pyramid for 1 top, 2 middle and 3 bottom numbers', async () => {
+    expect(await findWinners(prizes, [45, 34, 58, 7, 39, 90])).toEqual({ pyramid: ['1'] });
+  });
+
+  it('computes value sets for tickets stored before them', async () => {
+    const { lowestFive: _lowestFive, ...stored } = computeTicketMetadata({ rows: ROWS });
+    const ticket = createTicket('1', { metadata: stored });
+
+    expect(await findWinners(prizes, [4, 7, 12, 15, 23], [ticket])).toEqual({ lowestFive: ['1'] });
+  });
+});
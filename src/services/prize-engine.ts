@@ -1,38 +1,117 @@
-// src/services/prize-engine.ts - FIXED with Traditional Logic
-
-import { 
-  type TambolaTicket,
-  type Prize,
-  type TicketMetadata
-} from './firebase-core';
+// src/services/prize-engine.ts - Built-in prize types and ticket validation
+//
+// Validators for every built-in prize are registered with the prize registry
+// below; validateTicketsForPrizes runs whichever validator a prize's type has.
+
+import type { PrizeWinner, TicketMetadata } from './supabase-types';
+import {
+  BINGO_CARD_SIZE,
+  BINGO_CENTER,
+  BINGO_PRIZES,
+  isBingoCard,
+  findCompletedBingoPattern,
+  getBingoPatternCells
+} from './bingo-cards';
+import { resolveTicket, isSameTicketId } from './ticket-ids';
+import { CUSTOM_PRIZE_TYPE } from './custom-prizes';
+import {
+  registerPrizeType,
+  getPrizeType,
+  getPrizeTypes,
+  getPrizeOfType,
+  getTypeOfPrize,
+  type GamePrize,
+  type GamePrizes,
+  type GameTicket,
+  type GameTickets,
+  type PrizeContext,
+  type PrizeDifficulty,
+  type PrizeRuleParams,
+  type PrizeType
+} from './prize-registry';
+
+export {
+  registerPrizeType,
+  getPrizeType,
+  getPrizeTypes,
+  getPrizeOfType,
+  getTypeOfPrize,
+  getSpokenPrizeName,
+  type GamePrize,
+  type GameTicket,
+  type PrizeRuleParams,
+  type PrizeType
+} from './prize-registry';
 
 // ================== UTILITY FUNCTIONS ==================
 
+// Numbers in the Pyramid prize: [row, nth number along the row]
+const PYRAMID_POSITIONS: [number, number][] = [[0, 2], [1, 1], [1, 3], [2, 0], [2, 2], [2, 4]];
+
 /**
- * Computes metadata for a ticket including corners, center, and all numbers
+ * Number-value sets the value prizes (Temperature, Lowest Five, All Odd...) are checked against
  */
-export const computeTicketMetadata = (ticket: TambolaTicket): TicketMetadata => {
-  if (!ticket.rows || !Array.isArray(ticket.rows) || ticket.rows.length !== 3) {
-    console.warn(`Invalid ticket structure for ${ticket.ticketId}`);
+const computeValueSets = (allNumbers: number[]) => {
+  const sorted = [...allNumbers].sort((a, b) => a - b);
+  return {
+    lowest: sorted[0] || 0,
+    highest: sorted[sorted.length - 1] || 0,
+    lowestFive: sorted.slice(0, 5),
+    highestFive: sorted.slice(-5),
+    oddNumbers: sorted.filter(n => n % 2 === 1),
+    evenNumbers: sorted.filter(n => n % 2 === 0)
+  };
+};
+
+/**
+ * Metadata of a ticket that can't be read - the same shape, with nothing on it
+ */
+const getEmptyTicketMetadata = (): TicketMetadata => ({
+  corners: [],
+  center: 0,
+  hasValidCorners: false,
+  hasValidCenter: false,
+  allNumbers: [],
+  ...computeValueSets([]),
+  pyramid: []
+});
+
+/**
+ * Computes metadata for a ticket including corners, center, and all numbers.
+ * 75-ball cards (5x5) use their corner cells; the free centre is reported as 0.
+ */
+export const computeTicketMetadata = (ticket: Pick<GameTicket, 'rows'> & { ticketId?: string }): TicketMetadata => {
+  if (isBingoCard(ticket.rows)) {
+    const last = BINGO_CARD_SIZE - 1;
+    const corners = [
+      ticket.rows[0][0],
+      ticket.rows[0][last],
+      ticket.rows[last][0],
+      ticket.rows[last][last]
+    ];
+
+    const allNumbers = ticket.rows.flat().filter(n => n > 0);
+
     return {
-      corners: [],
-      center: 0,
-      hasValidCorners: false,
+      corners,
+      center: ticket.rows[BINGO_CENTER][BINGO_CENTER],
+      hasValidCorners: corners.every(n => n > 0),
       hasValidCenter: false,
-      allNumbers: []
+      allNumbers,
+      ...computeValueSets(allNumbers),
+      pyramid: []
     };
   }
 
+  if (!ticket.rows || !Array.isArray(ticket.rows) || ticket.rows.length !== 3) {
+    console.warn(`Invalid ticket structure for ${ticket.ticketId}`);
+    return getEmptyTicketMetadata();
+  }
+
   for (let i = 0; i < 3; i++) {
     if (!Array.isArray(ticket.rows[i]) || ticket.rows[i].length !== 9) {
       console.warn(`Invalid row ${i} for ticket ${ticket.ticketId}`);
-      return {
-        corners: [],
-        center: 0,
-        hasValidCorners: false,
-        hasValidCenter: false,
-        allNumbers: []
-      };
+      return getEmptyTicketMetadata();
     }
   }
 
@@ -48,20 +127,25 @@ export const computeTicketMetadata = (ticket: TambolaTicket): TicketMetadata =>
   const hasValidCorners = validCorners.length === 4;
   const hasValidCenter = center > 0;
   const allNumbers = ticket.rows.flat().filter(n => n > 0);
+  const pyramid = PYRAMID_POSITIONS
+    .map(([row, n]) => ticket.rows[row].filter(num => num > 0)[n])
+    .filter(num => num > 0);
 
   return {
     corners: validCorners,
     center,
     hasValidCorners,
     hasValidCenter,
-    allNumbers
+    allNumbers,
+    ...computeValueSets(allNumbers),
+    pyramid
   };
 };
 
 /**
  * ✅ FIXED: Dynamic corner detection for any ticket
  */
-export const getTicketCorners = (ticket: TambolaTicket): number[] => {
+export const getTicketCorners = (ticket: GameTicket): number[] => {
   const topRow = ticket.rows[0].filter(n => n > 0);
   const bottomRow = ticket.rows[2].filter(n => n > 0);
   
@@ -76,7 +160,7 @@ export const getTicketCorners = (ticket: TambolaTicket): number[] => {
 /**
  * ✅ FIXED: Dynamic star corner detection (4 corners + center)
  */
-export const getStarCorners = (ticket: TambolaTicket): number[] => {
+export const getStarCorners = (ticket: GameTicket): number[] => {
   const corners = getTicketCorners(ticket);
   const middleRow = ticket.rows[1].filter(n => n > 0);
   const center = middleRow[Math.floor(middleRow.length / 2)]; // Center number (middle of middle row)
@@ -84,108 +168,6 @@ export const getStarCorners = (ticket: TambolaTicket): number[] => {
   return [...corners, center];
 };
 
-// ================== PRIZE CONFIGURATION ==================
-
-/**
- * Creates prize configuration based on selected prize types
- */
-export const createPrizeConfiguration = (selectedPrizes: string[]): { [prizeId: string]: Prize } => {
-  const availablePrizes = {
-    fullHouse: {
-      id: 'fullHouse',
-      name: 'Full House',
-      pattern: 'All numbers',
-      description: 'Mark all numbers on the ticket',
-      won: false,
-      order: 1
-    },
-    secondFullHouse: {
-      id: 'secondFullHouse',
-      name: 'Second Full House',
-      pattern: 'All numbers (after first)',
-      description: 'Second player to mark all numbers after Full House is won',
-      won: false,
-      order: 2
-    },
-     fullSheet: {
-      id: 'fullSheet',
-      name: 'Full Sheet',
-      pattern: 'Complete 6-ticket set',
-      description: 'Complete entire traditional 6-ticket sheet (positions 1,2,3,4,5,6)',
-      won: false,
-      order: 3
-    },
-    halfSheet: {
-      id: 'halfSheet',
-      name: 'Half Sheet',
-      pattern: '3 consecutive tickets from same set',
-      description: 'Complete half of a traditional 6-ticket sheet (positions 1,2,3 or 4,5,6)',
-      won: false,
-      order: 4
-    },
-      starCorner: {
-      id: 'starCorner',
-      name: 'Star Corner',
-      pattern: '4 corners + center',
-      description: 'Mark all 4 corner positions plus center position',
-      won: false,
-      order: 5
-    },
-   
-    corners: {
-      id: 'corners',
-      name: 'Corners',
-      pattern: '4 corner numbers',
-      description: 'Mark all 4 corner numbers',
-      won: false,
-      order: 6
-    },
-    topLine: {
-      id: 'topLine',
-      name: 'Top Line',
-      pattern: 'Complete top row',
-      description: 'Complete the top row of any ticket',
-      won: false,
-      order: 7
-    },
-    middleLine: {
-      id: 'middleLine',
-      name: 'Middle Line',
-      pattern: 'Complete middle row',
-      description: 'Complete the middle row of any ticket',
-      won: false,
-      order: 8
-    },
-    bottomLine: {
-      id: 'bottomLine',
-      name: 'Bottom Line',
-      pattern: 'Complete bottom row',
-      description: 'Complete the bottom row of any ticket',
-      won: false,
-      order: 9
-    },
-  
-   earlyFive: {
-      id: 'earlyFive',
-      name: 'Early Five',
-      pattern: 'Any 5 numbers',
-      description: 'Mark any 5 numbers on your ticket',
-      won: false,
-      order: 10
-    }
-    
-  };
-
-  const prizes: { [prizeId: string]: Prize } = {};
-  for (const prizeId of selectedPrizes) {
-    if (availablePrizes[prizeId as keyof typeof availablePrizes]) {
-      prizes[prizeId] = availablePrizes[prizeId as keyof typeof availablePrizes];
-    }
-  }
-
-  return prizes;
-};
-
 // ================== TRADITIONAL LOGIC HELPERS ==================
 
 /**
@@ -194,7 +176,7 @@ export const createPrizeConfiguration = (selectedPrizes: string[]): { [prizeId:
  * Each of the 3 tickets must have exactly 2+ marked numbers
  */
 const validateHalfSheetTraditional = (
-  tickets: { [ticketId: string]: TambolaTicket },
+  tickets: { [ticketId: string]: GameTicket },
   calledNumbers: number[]
 ): { [playerName: string]: { ticketIds: string[]; setId: number; positions: number[] } } => {
   const winners: { [playerName: string]: { ticketIds: string[]; setId: number; positions: number[] } } = {};
@@ -202,7 +184,7 @@ const validateHalfSheetTraditional = (
   // Group booked tickets by player and setId
   const playerSets: { 
     [playerName: string]: { 
-      [setId: number]: TambolaTicket[] 
+      [setId: number]: GameTicket[] 
     } 
   } = {};
 
@@ -276,7 +258,7 @@ const validateHalfSheetTraditional = (
  * Each of the 6 tickets must have exactly 2+ marked numbers
  */
 const validateFullSheetTraditional = (
-  tickets: { [ticketId: string]: TambolaTicket },
+  tickets: { [ticketId: string]: GameTicket },
   calledNumbers: number[]
 ): { [playerName: string]: { ticketIds: string[]; setId: number } } => {
   const winners: { [playerName: string]: { ticketIds: string[]; setId: number } } = {};
@@ -284,7 +266,7 @@ const validateFullSheetTraditional = (
   // Group booked tickets by player and setId
   const playerSets: { 
     [playerName: string]: { 
-      [setId: number]: TambolaTicket[] 
+      [setId: number]: GameTicket[] 
     } 
   } = {};
 
@@ -337,19 +319,22 @@ const validateFullSheetTraditional = (
 // ================== INDIVIDUAL PRIZE VALIDATORS ==================
 
 /**
- * Validates Early Five prize - first player to mark any 5 numbers wins
+ * Validates Early Five prize - first player to mark any 5 numbers wins.
+ * A prize's `count` rule param changes how many numbers are needed
  */
-
+const getEarlyCount = (params: PrizeRuleParams): number =>
+  Number.isInteger(params?.count) && params.count > 0 ? params.count : 5;
 
 const validateEarlyFive = (
-  ticket: TambolaTicket,
-  calledNumbers: number[]
+  ticket: GameTicket,
+  calledNumbers: number[],
+  params: PrizeRuleParams = {}
 ): boolean => {
   try {
     const markedCount = ticket.metadata?.allNumbers.filter(num => 
       calledNumbers.includes(num)
     ).length || 0;
-    return markedCount >= 5;
+    return markedCount >= getEarlyCount(params);
   } catch (error) {
     console.error(`Early Five validation error for ticket ${ticket.ticketId}:`, error);
     return false;
@@ -360,19 +345,20 @@ const validateEarlyFive = (
  * Validates Second Full House prize - keeps original logic exactly as-is
  */
 const validateSecondFullHouse = (
-  ticket: TambolaTicket,
-  calledNumbers: number[],
-  prizes: { [prizeId: string]: Prize }
+  ticket: GameTicket,
+  { calledNumbers, prizes, tickets }: PrizeContext
 ): boolean => {
   try {
+    const fullHouse = getPrizeOfType(prizes, 'fullHouse');
+
     // Step 1: Safety check - ensure prizes and fullHouse exist
-    if (!prizes || !prizes.fullHouse) {
+    if (!fullHouse) {
       console.log(`⏸️ Second Full House check skipped: prizes or fullHouse not available`, { ticketId: ticket.ticketId });
       return false;
     }
     
     // Step 2: Full House must be won first
-    if (!prizes.fullHouse.won) {
+    if (!fullHouse.won) {
       console.log(`⏸️ Second Full House check skipped: Full House not won yet`, { ticketId: ticket.ticketId });
       return false;
     }
@@ -385,7 +371,7 @@ const validateSecondFullHouse = (
       allNumbers: allNumbers.length,
       calledNumbers: calledNumbers.length,
       hasAllNumbers,
-      fullHouseWinners: prizes.fullHouse.winners?.length || 0
+      fullHouseWinners: fullHouse.winners?.length || 0
     });
 
     // Step 4: Must have all numbers to proceed
@@ -394,10 +380,10 @@ const validateSecondFullHouse = (
     }
 
     // Step 5: Handle missing/invalid winners list safely
-    const fullHouseWinners = prizes.fullHouse.winners;
+    const fullHouseWinners = fullHouse.winners;
     if (!fullHouseWinners || !Array.isArray(fullHouseWinners)) {
       console.warn(`⚠️ Full House won but winners list is invalid:`, { 
-        won: prizes.fullHouse.won, 
+        won: fullHouse.won, 
         winners: fullHouseWinners 
       });
       // Conservative approach: allow Second Full House if data is corrupted
@@ -406,7 +392,8 @@ const validateSecondFullHouse = (
     }
 
     // Step 6: Check if this ticket already won Full House
-    const alreadyWonFullHouse = fullHouseWinners.some(winner => winner.ticketId === ticket.ticketId);
+    // Winners may hold any ticket ID form ("7", "007", "S2-1") - compare resolved IDs
+    const alreadyWonFullHouse = fullHouseWinners.some(winner => isSameTicketId(winner.ticketId, ticket.ticketId, tickets));
     
     if (alreadyWonFullHouse) {
       console.log(`⏸️ Second Full House excluded: Ticket ${ticket.ticketId} already won Full House`);
@@ -427,16 +414,444 @@ const validateSecondFullHouse = (
   }
 };
 
+
+// ================== BUILT-IN PRIZE TYPES ==================
+
+const isRowComplete = (ticket: GameTicket, row: number, calledNumbers: number[]): boolean =>
+  ticket.rows[row].filter(num => num > 0).every(num => calledNumbers.includes(num));
+
+const getAllNumbers = (ticket: GameTicket): number[] =>
+  ticket.metadata?.allNumbers || computeTicketMetadata(ticket).allNumbers;
+
+const lineHighlight = (row: number, label: string): PrizeType['highlight'] => ({
+  label,
+  description: 'Yellow borders show the complete winning row',
+  isHighlighted: cell => cell.row === row
+});
+
+const getColumnNumbers = (ticket: GameTicket, col: number): number[] =>
+  ticket.rows.map(row => row[col]).filter(num => num > 0);
+
+// Every number in the given columns - Breakfast, Lunch and Dinner
+const isColumnGroupComplete = (ticket: GameTicket, columns: number[], calledNumbers: number[]): boolean => {
+  const numbers = columns.flatMap(col => getColumnNumbers(ticket, col));
+  return numbers.length > 0 && numbers.every(num => calledNumbers.includes(num));
+};
+
+// A Bamboo column needs at least two numbers - a lone number is no column
+const BAMBOO_MIN_NUMBERS = 2;
+
+const getBambooColumns = (ticket: GameTicket, calledNumbers: number[]): number[] =>
+  Array.from({ length: 9 }, (_, col) => col).filter(col => {
+    const numbers = getColumnNumbers(ticket, col);
+    return numbers.length >= BAMBOO_MIN_NUMBERS && numbers.every(num => calledNumbers.includes(num));
+  });
+
+const columnGroupType = (
+  id: string,
+  name: string,
+  columns: number[],
+  order: number
+): PrizeType => {
+  const first = columns[0] + 1;
+  const last = columns[columns.length - 1] + 1;
+  return {
+    id,
+    variant: '90-ball',
+    name,
+    pattern: `Columns ${first}-${last}`,
+    description: `Mark every number in columns ${first} to ${last}`,
+    order,
+    difficulty: 'medium',
+    validator: {
+      kind: 'ticket',
+      isWon: (ticket, { calledNumbers }) => isColumnGroupComplete(ticket, columns, calledNumbers)
+    },
+    highlight: {
+      label: `${name} - Columns ${first}-${last}`,
+      description: `Yellow borders show every number in columns ${first} to ${last}`,
+      isHighlighted: cell => columns.includes(cell.col)
+    }
+  };
+};
+
+// Stored ticket metadata can predate the value sets - compute them when missing
+const getValueSets = (ticket: GameTicket): TicketMetadata =>
+  ticket.metadata?.lowestFive ? ticket.metadata : computeTicketMetadata(ticket);
+
+/**
+ * A prize won by calling every number in one of the ticket's value sets
+ */
+const valueSetType = (
+  prizeType: Omit<PrizeType, 'variant' | 'validator' | 'highlight'>,
+  getNumbers: (metadata: TicketMetadata) => number[] | undefined,
+  highlight: { label: string; description: string }
+): PrizeType => {
+  const getTicketNumbers = (ticket: GameTicket) => (getNumbers(getValueSets(ticket)) || []).filter(num => num > 0);
+  return {
+    ...prizeType,
+    variant: '90-ball',
+    validator: {
+      kind: 'ticket',
+      isWon: (ticket, { calledNumbers }) => {
+        const numbers = getTicketNumbers(ticket);
+        return numbers.length > 0 && numbers.every(num => calledNumbers.includes(num));
+      }
+    },
+    highlight: {
+      ...highlight,
+      isHighlighted: (cell, ticket) => getTicketNumbers(ticket).includes(cell.number)
+    }
+  };
+};
+
+// Sheet prizes have no pattern on a single ticket - show what has been marked
+const sheetHighlight = (label: string): PrizeType['highlight'] => ({
+  label,
+  description: 'Yellow borders show the marked numbers - every ticket in the sheet needs 2 or more',
+  isHighlighted: (cell, _ticket, calledNumbers) => calledNumbers.includes(cell.number)
+});
+
+const TRADITIONAL_PRIZE_TYPES: PrizeType[] = [
+  {
+    id: 'fullHouse',
+    variant: '90-ball',
+    name: 'Full House',
+    pattern: 'All numbers',
+    description: 'Mark all numbers on the ticket',
+    order: 1,
+    difficulty: 'hard',
+    validator: {
+      kind: 'ticket',
+      isWon: (ticket, { calledNumbers }) => getAllNumbers(ticket).every(num => calledNumbers.includes(num))
+    },
+    highlight: {
+      label: 'All Numbers',
+      description: 'Yellow borders show all numbers',
+      isHighlighted: () => true
+    }
+  },
+  {
+    id: 'secondFullHouse',
+    variant: '90-ball',
+    name: 'Second Full House',
+    pattern: 'All numbers (after first)',
+    description: 'Second player to mark all numbers after Full House is won',
+    order: 2,
+    difficulty: 'expert',
+    badge: 'Independent',
+    validator: {
+      kind: 'dependent',
+      dependsOn: ['fullHouse'],
+      isWon: validateSecondFullHouse
+    },
+    highlight: {
+      label: 'All Numbers (Second Winner)',
+      description: 'Yellow borders show all numbers (Second Full House winner)',
+      isHighlighted: () => true
+    }
+  },
+  {
+    id: 'fullSheet',
+    variant: '90-ball',
+    name: 'Full Sheet',
+    pattern: 'Complete 6-ticket set',
+    description: 'Complete entire traditional 6-ticket sheet (positions 1,2,3,4,5,6)',
+    order: 3,
+    difficulty: 'expert',
+    badge: 'Traditional',
+    validator: {
+      kind: 'set',
+      findWinners: ({ tickets, calledNumbers }) =>
+        Object.entries(validateFullSheetTraditional(tickets, calledNumbers)).map(([playerName, winData]) => ({
+          name: playerName,
+          ticketId: winData.ticketIds.join(','),
+          phone: resolveTicket(winData.ticketIds[0], tickets)?.playerPhone
+        }))
+    },
+    highlight: sheetHighlight('Full Sheet - 6 Tickets')
+  },
+  {
+    id: 'halfSheet',
+    variant: '90-ball',
+    name: 'Half Sheet',
+    pattern: '3 consecutive tickets from same set',
+    description: 'Complete half of a traditional 6-ticket sheet (positions 1,2,3 or 4,5,6)',
+    order: 4,
+    difficulty: 'hard',
+    badge: 'Traditional',
+    validator: {
+      kind: 'set',
+      findWinners: ({ tickets, calledNumbers }) =>
+        Object.entries(validateHalfSheetTraditional(tickets, calledNumbers)).map(([winnerKey, winData]) => {
+          // Winner key format: "PlayerName_Set1_First"
+          const playerName = winnerKey.split('_')[0];
+          const setInfo = winnerKey.includes('_First') ? 'First Half' : 'Second Half';
+          return {
+            name: `${playerName} (Set ${winData.setId} - ${setInfo})`,
+            ticketId: winData.ticketIds.join(','),
+            phone: resolveTicket(winData.ticketIds[0], tickets)?.playerPhone
+          };
+        })
+    },
+    highlight: sheetHighlight('Half Sheet - 3 Tickets')
+  },
+  {
+    id: 'starCorner',
+    variant: '90-ball',
+    name: 'Star Corner',
+    pattern: '4 corners + center',
+    description: 'Mark all 4 corner positions plus center position',
+    order: 5,
+    difficulty: 'medium',
+    validator: {
+      kind: 'ticket',
+      isWon: (ticket, { calledNumbers }) => getStarCorners(ticket).every(num => calledNumbers.includes(num))
+    },
+    highlight: {
+      label: '4 Corners + Center',
+      description: 'Yellow borders show 4 corners + center number',
+      isHighlighted: (cell, ticket) => getStarCorners(ticket).includes(cell.number)
+    }
+  },
+  {
+    id: 'corners',
+    variant: '90-ball',
+    name: 'Four Corners',
+    pattern: '4 corner numbers',
+    description: 'Mark all 4 corner numbers',
+    order: 6,
+    difficulty: 'easy',
+    validator: {
+      kind: 'ticket',
+      isWon: (ticket, { calledNumbers }) => getTicketCorners(ticket).every(num => calledNumbers.includes(num))
+    },
+    highlight: {
+      label: '4 Corner Numbers',
+      description: 'Yellow borders show corner positions (leftmost & rightmost of top/bottom rows)',
+      isHighlighted: (cell, ticket) => getTicketCorners(ticket).includes(cell.number)
+    }
+  },
+  {
+    id: 'topLine',
+    variant: '90-ball',
+    name: 'Top Line',
+    pattern: 'Complete top row',
+    description: 'Complete the top row of any ticket',
+    order: 7,
+    difficulty: 'easy',
+    validator: { kind: 'ticket', isWon: (ticket, { calledNumbers }) => isRowComplete(ticket, 0, calledNumbers) },
+    highlight: lineHighlight(0, 'Top Line Complete')
+  },
+  {
+    id: 'middleLine',
+    variant: '90-ball',
+    name: 'Middle Line',
+    pattern: 'Complete middle row',
+    description: 'Complete the middle row of any ticket',
+    order: 8,
+    difficulty: 'easy',
+    validator: { kind: 'ticket', isWon: (ticket, { calledNumbers }) => isRowComplete(ticket, 1, calledNumbers) },
+    highlight: lineHighlight(1, 'Middle Line Complete')
+  },
+  {
+    id: 'bottomLine',
+    variant: '90-ball',
+    name: 'Bottom Line',
+    pattern: 'Complete bottom row',
+    description: 'Complete the bottom row of any ticket',
+    order: 9,
+    difficulty: 'easy',
+    validator: { kind: 'ticket', isWon: (ticket, { calledNumbers }) => isRowComplete(ticket, 2, calledNumbers) },
+    highlight: lineHighlight(2, 'Bottom Line Complete')
+  },
+  {
+    id: 'earlyFive',
+    variant: '90-ball',
+    name: 'Early Five',
+    pattern: 'Any 5 numbers',
+    description: 'Mark any 5 numbers on your ticket',
+    order: 10,
+    difficulty: 'easy',
+    validator: {
+      kind: 'ticket',
+      isWon: (ticket, { calledNumbers, params }) => validateEarlyFive(ticket, calledNumbers, params)
+    },
+    highlight: {
+      label: 'First 5 Called Numbers',
+      description: 'Yellow borders show the first 5 numbers called from this ticket',
+      // Only the first 5 of this ticket's numbers to be called, in call order
+      isHighlighted: (cell, ticket, calledNumbers, params) => {
+        const allNumbers = getAllNumbers(ticket);
+        return calledNumbers
+          .filter(num => allNumbers.includes(num))
+          .slice(0, getEarlyCount(params))
+          .includes(cell.number);
+      }
+    }
+  },
+  columnGroupType('breakfast', 'Breakfast', [0, 1, 2], 11),
+  columnGroupType('lunch', 'Lunch', [3, 4, 5], 12),
+  columnGroupType('dinner', 'Dinner', [6, 7, 8], 13),
+  {
+    id: 'bamboo',
+    variant: '90-ball',
+    name: 'Bamboo',
+    pattern: 'Any full column',
+    description: 'Mark every number in any one column that has two or more numbers',
+    order: 14,
+    difficulty: 'medium',
+    validator: {
+      kind: 'ticket',
+      isWon: (ticket, { calledNumbers }) => getBambooColumns(ticket, calledNumbers).length > 0
+    },
+    highlight: {
+      label: 'Full Column',
+      description: 'Yellow borders show the completed column',
+      isHighlighted: (cell, ticket, calledNumbers) => getBambooColumns(ticket, calledNumbers).includes(cell.col)
+    }
+  },
+  valueSetType(
+    {
+      id: 'temperature',
+      name: 'Temperature',
+      spokenName: 'Temperature, the lowest and highest numbers,',
+      pattern: 'Lowest + highest number',
+      description: 'Mark the lowest and the highest number on your ticket',
+      order: 15,
+      difficulty: 'easy'
+    },
+    metadata => [metadata.lowest, metadata.highest],
+    { label: 'Lowest + Highest Number', description: 'Yellow borders show the lowest and highest numbers' }
+  ),
+  valueSetType(
+    {
+      id: 'lowestFive',
+      name: 'Lowest Five',
+      pattern: '5 lowest numbers',
+      description: 'Mark the 5 lowest numbers on your ticket',
+      order: 16,
+      difficulty: 'medium'
+    },
+    metadata => metadata.lowestFive,
+    { label: '5 Lowest Numbers', description: 'Yellow borders show the 5 lowest numbers' }
+  ),
+  valueSetType(
+    {
+      id: 'highestFive',
+      name: 'Highest Five',
+      pattern: '5 highest numbers',
+      description: 'Mark the 5 highest numbers on your ticket',
+      order: 17,
+      difficulty: 'medium'
+    },
+    metadata => metadata.highestFive,
+    { label: '5 Highest Numbers', description: 'Yellow borders show the 5 highest numbers' }
+  ),
+  valueSetType(
+    {
+      id: 'allOdd',
+      name: 'All Odd',
+      spokenName: 'All the odd numbers',
+      pattern: 'Every odd number',
+      description: 'Mark every odd number on your ticket',
+      order: 18,
+      difficulty: 'hard'
+    },
+    metadata => metadata.oddNumbers,
+    { label: 'All Odd Numbers', description: 'Yellow borders show every odd number' }
+  ),
+  valueSetType(
+    {
+      id: 'allEven',
+      name: 'All Even',
+      spokenName: 'All the even numbers',
+      pattern: 'Every even number',
+      description: 'Mark every even number on your ticket',
+      order: 19,
+      difficulty: 'hard'
+    },
+    metadata => metadata.evenNumbers,
+    { label: 'All Even Numbers', description: 'Yellow borders show every even number' }
+  ),
+  valueSetType(
+    {
+      id: 'pyramid',
+      name: 'Pyramid',
+      pattern: '1 top + 2 middle + 3 bottom',
+      description: 'Mark the 3rd number of the top row, the 2nd and 4th of the middle row, and the 1st, 3rd and 5th of the bottom row',
+      order: 20,
+      difficulty: 'medium'
+    },
+    metadata => metadata.pyramid,
+    { label: 'Pyramid', description: 'Yellow borders show the pyramid - 1 top, 2 middle, 3 bottom' }
+  )
+];
+
+// 75-ball pattern prizes - the free centre always counts as marked
+const BINGO_PRIZE_TYPES: PrizeType[] = BINGO_PRIZES.map(prize => ({
+  ...prize,
+  variant: '75-ball',
+  difficulty: prize.difficulty as PrizeDifficulty,
+  validator: {
+    kind: 'ticket',
+    isWon: (ticket, { calledNumbers }) => !!findCompletedBingoPattern(prize.id, ticket.rows, calledNumbers)
+  },
+  highlight: {
+    label: prize.pattern,
+    description: 'Yellow borders show the winning cells (the free centre always counts)',
+    isHighlighted: (cell, ticket, calledNumbers) =>
+      getBingoPatternCells(prize.id, ticket.rows, calledNumbers).some(([row, col]) => row === cell.row && col === cell.col)
+  }
+}));
+
+[...TRADITIONAL_PRIZE_TYPES, ...BINGO_PRIZE_TYPES, CUSTOM_PRIZE_TYPE].forEach(registerPrizeType);
+
+// ================== PRIZE CONFIGURATION ==================
+
+/**
+ * Prizes for a new game, built from the registered prize types
+ */
+export const createPrizeConfiguration = (selectedPrizes: string[]): { [prizeId: string]: GamePrize } => {
+  const prizes: { [prizeId: string]: GamePrize } = {};
+
+  for (const prizeId of selectedPrizes) {
+    const prizeType = getPrizeType(prizeId);
+    if (!prizeType) continue;
+
+    prizes[prizeId] = {
+      id: prizeType.id,
+      prizeType: prizeType.id,
+      ruleParams: {},
+      name: prizeType.name,
+      pattern: prizeType.pattern,
+      description: prizeType.description,
+      won: false,
+      order: prizeType.order
+    };
+  }
+
+  return prizes;
+};
+
+// ================== VALIDATION ENGINE ==================
+
+const toWinner = (ticket: GameTicket): PrizeWinner => ({
+  name: ticket.playerName,
+  ticketId: ticket.ticketId,
+  phone: ticket.playerPhone
+});
+
 /**
  * Main prize validation engine - validates all tickets against all prizes
  */
 export const validateTicketsForPrizes = async (
-  tickets: { [ticketId: string]: TambolaTicket },
+  tickets: GameTickets,
   calledNumbers: number[],
-  prizes: { [prizeId: string]: Prize }
-): Promise<{ winners: { [prizeId: string]: any } }> => {
+  prizes: GamePrizes
+): Promise<{ winners: { [prizeId: string]: { prizeName: string; winners: PrizeWinner[] } } }> => {
   const startTime = Date.now();
-  const winners: { [prizeId: string]: any } = {};
+  const winners: { [prizeId: string]: { prizeName: string; winners: PrizeWinner[] } } = {};
 
   // Safety check - ensure prizes object exists
   if (!prizes || typeof prizes !== 'object') {
@@ -450,107 +865,39 @@ export const validateTicketsForPrizes = async (
       console.warn(`⚠️ Skipping invalid prize: ${prizeId}`, { prize });
       continue;
     }
-  console.log(`🔍 Prize Loop: ${prizeId}, won: ${prize.won}`);
-  if (prize.won) continue;
-
-    const prizeWinners: { name: string; ticketId: string; phone?: string }[] = [];
-
-    // ✅ FIXED: Handle special prize validation
-    if (prizeId === 'halfSheet') {
-      const halfSheetWinners = validateHalfSheetTraditional(tickets, calledNumbers);
-      for (const [winnerKey, winData] of Object.entries(halfSheetWinners)) {
-        // Extract player name from winner key (format: "PlayerName_Set1_First")
-        const playerName = winnerKey.split('_')[0];
-        const setInfo = winnerKey.includes('_First') ? 'First Half' : 'Second Half';
-        
-        prizeWinners.push({
-          name: `${playerName} (Set ${winData.setId} - ${setInfo})`,
-          ticketId: winData.ticketIds.join(','), 
-          phone: tickets[winData.ticketIds[0]]?.playerPhone
-        });
-      }
-    } else if (prizeId === 'fullSheet') {
-      const fullSheetWinners = validateFullSheetTraditional(tickets, calledNumbers);
-      for (const [playerName, winData] of Object.entries(fullSheetWinners)) {
-        prizeWinners.push({
-          name: playerName,
-          ticketId: winData.ticketIds.join(','),
-          phone: tickets[winData.ticketIds[0]]?.playerPhone
-        });
-      }
-    } else {
-      // Standard ticket-by-ticket validation
-      for (const [ticketId, ticket] of Object.entries(tickets)) {
-        if (!ticket.isBooked) continue;
-
-        let hasWon = false;
-
-        try {
-          console.log(`🎯 Entering switch for: ${prizeId} (ticket: ${ticketId})`);
-          switch (prizeId) {
-           case 'earlyFive':
-            hasWon = validateEarlyFive(ticket, calledNumbers);
-            break;
-
-            case 'fullHouse':
-              const allNumbers = ticket.metadata?.allNumbers || computeTicketMetadata(ticket).allNumbers;
-              hasWon = allNumbers.every(num => calledNumbers.includes(num));
-              break;
-            case 'secondFullHouse':
-              hasWon = validateSecondFullHouse(ticket, calledNumbers, prizes);
-              break;
-
-            case 'corners':
-              const corners = getTicketCorners(ticket);
-              hasWon = corners.every(corner => calledNumbers.includes(corner));
-              console.log(`🎯 Corners check:`, { ticketId, corners, hasWon });
-              break;
-
-            case 'starCorner':
-              const starCorners = getStarCorners(ticket);
-              hasWon = starCorners.every(corner => calledNumbers.includes(corner));
-              console.log(`⭐ Star corners check:`, { ticketId, starCorners, hasWon });
-              break;
-
-            case 'topLine':
-              hasWon = ticket.rows[0].filter(num => num > 0).every(num => calledNumbers.includes(num));
-              break;
-
-            case 'middleLine':
-              hasWon = ticket.rows[1].filter(num => num > 0).every(num => calledNumbers.includes(num));
-              break;
-
-            case 'bottomLine':
-              hasWon = ticket.rows[2].filter(num => num > 0).every(num => calledNumbers.includes(num));
-              break;
-
-            default:
-              console.warn(`Unknown prize type: ${prizeId} - skipping validation`);
-              continue;
-          }
-        } catch (error) {
-          console.error(`Prize validation error for ${prizeId} on ticket ${ticketId}:`, error);
-          hasWon = false;
+    if (prize.won) continue;
+
+    // Prizes are keyed by database ID - the stored prize type picks the validator
+    const prizeType = getTypeOfPrize(prize);
+    if (!prizeType) {
+      console.warn(`Unknown prize type: ${prize.prizeType} (${prize.name}) - skipping validation`);
+      continue;
+    }
+
+    const { validator } = prizeType;
+    const context: PrizeContext = { tickets, calledNumbers, prizes, params: prize.ruleParams || {} };
+    let prizeWinners: PrizeWinner[] = [];
+
+    try {
+      if (validator.kind === 'set') {
+        prizeWinners = validator.findWinners(context);
+      } else {
+        if (validator.kind === 'dependent' &&
+            !validator.dependsOn.every(typeId => getPrizeOfType(prizes, typeId)?.won)) {
+          continue;
         }
 
-       if (hasWon) {
-  console.log(`✅ Adding ${prizeId} winner:`, {
-    name: ticket.playerName,
-    ticketId: ticket.ticketId,
-    phone: ticket.playerPhone
-  });
-  prizeWinners.push({
-    name: ticket.playerName,
-    ticketId: ticket.ticketId,
-    phone: ticket.playerPhone
-  });
-} else if (prizeId === 'secondFullHouse') {
-  console.log(`❌ Second Full House NOT won for ticket ${ticket.ticketId}`);
-}
+        prizeWinners = Object.values(tickets)
+          .filter(ticket => ticket.isBooked && validator.isWon(ticket, context))
+          .map(toWinner);
       }
+    } catch (error) {
+      console.error(`Prize validation error for ${prizeId}:`, error);
+      continue;
     }
 
     if (prizeWinners.length > 0) {
+      console.log(`✅ ${prizeId} winners:`, prizeWinners.map(winner => winner.ticketId));
       winners[prizeId] = {
         prizeName: prize.name,
         winners: prizeWinners
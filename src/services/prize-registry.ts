@@ -0,0 +1,154 @@
+// src/services/prize-registry.ts - Prize types: how each is won, highlighted and shown
+//
+// Every prize a game can offer is a registered PrizeType. The prize engine
+// validates tickets through its validator, ticketRenderer highlights its
+// pattern and the create-game form lists it - so adding a prize means
+// registering one type, not editing three switches. The built-in types are
+// registered by prize-engine.ts.
+
+import type { GameVariant, PrizeRuleParams, PrizeWinner, TicketMetadata, TieBreak, TieRule } from './supabase-types';
+
+export type { PrizeRuleParams } from './supabase-types';
+
+// ================== GAME DATA SHAPES ==================
+
+/**
+ * A ticket as GameDataProvider hands it out - camelCase, keyed by ticket ID
+ */
+export interface GameTicket {
+  ticketId: string;
+  displayId?: string;
+  playerName?: string;
+  playerPhone?: string;
+  rows: number[][];
+  isBooked?: boolean;
+  bookedAt?: string | null;
+  metadata?: TicketMetadata;
+  positionInSet?: number | null;
+  setId?: number | null;
+}
+
+/**
+ * A game's prize as GameDataProvider hands it out - keyed by its database ID,
+ * with prizeType naming the registered type it is won by
+ */
+export interface GamePrize {
+  id: string;
+  prizeType?: string | null;
+  ruleParams?: PrizeRuleParams;
+  name: string;
+  pattern?: string;
+  description?: string;
+  order?: number;
+  won: boolean;
+  winners?: PrizeWinner[];
+  winningNumber?: number | null;
+  wonAt?: string | null;
+  tieRule?: TieRule | null;
+  tieBreak?: TieBreak | null;
+}
+
+export type GameTickets = { [ticketId: string]: GameTicket };
+export type GamePrizes = { [prizeId: string]: GamePrize };
+
+export interface PrizeContext {
+  tickets: GameTickets;
+  calledNumbers: number[];
+  prizes: GamePrizes;
+  // Rule params of the prize being checked
+  params: PrizeRuleParams;
+}
+
+// ================== PRIZE TYPES ==================
+
+/**
+ * How a prize is won:
+ * - ticket: any booked ticket can win it on its own
+ * - set: won by a player's group of tickets (half and full sheets)
+ * - dependent: like ticket, but only once the prizes it depends on are won
+ */
+export type PrizeValidator =
+  | { kind: 'ticket'; isWon: (ticket: GameTicket, context: PrizeContext) => boolean }
+  | { kind: 'set'; findWinners: (context: PrizeContext) => PrizeWinner[] }
+  | { kind: 'dependent'; dependsOn: string[]; isWon: (ticket: GameTicket, context: PrizeContext) => boolean };
+
+export interface PrizeCell {
+  row: number;
+  col: number;
+  number: number;
+}
+
+export interface PrizeHighlight {
+  // Shown under a highlighted ticket - "4 Corners + Center"
+  label: string;
+  description: string;
+  isHighlighted: (cell: PrizeCell, ticket: GameTicket, calledNumbers: number[], params: PrizeRuleParams) => boolean;
+}
+
+export type PrizeDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+export interface PrizeType {
+  id: string;
+  variant: GameVariant;
+  name: string;
+  // How the caller announces the prize, when it needs more than its name
+  spokenName?: string;
+  pattern: string;
+  description: string;
+  order: number;
+  difficulty: PrizeDifficulty;
+  // Extra badge in the prize picker, e.g. "Traditional"
+  badge?: string;
+  // Won by a host-designed rule kept in the prize's rule params - offered
+  // through the host's saved custom prizes rather than the prize list
+  custom?: boolean;
+  validator: PrizeValidator;
+  highlight: PrizeHighlight;
+}
+
+// ================== REGISTRY ==================
+
+const prizeTypes = new Map<string, PrizeType>();
+
+export const registerPrizeType = (prizeType: PrizeType): void => {
+  if (prizeTypes.has(prizeType.id)) {
+    throw new Error(`Prize type "${prizeType.id}" is already registered`);
+  }
+  prizeTypes.set(prizeType.id, prizeType);
+};
+
+export const getPrizeType = (prizeTypeId?: string | null): PrizeType | null =>
+  (prizeTypeId && prizeTypes.get(prizeTypeId)) || null;
+
+/**
+ * Prize types offered for a game variant, in display order
+ */
+export const getPrizeTypes = (variant: GameVariant = '90-ball'): PrizeType[] =>
+  Array.from(prizeTypes.values())
+    .filter(prizeType => prizeType.variant === variant && !prizeType.custom)
+    .sort((a, b) => a.order - b.order);
+
+/**
+ * The registered type a game's prize is won by
+ */
+export const getTypeOfPrize = (prize?: Pick<GamePrize, 'prizeType'> | null): PrizeType | null =>
+  getPrizeType(prize?.prizeType);
+
+/**
+ * The prize's name as the caller announces it. A prize still named after its
+ * type uses the type's spoken name; a host's own name is read as written
+ */
+export const getSpokenPrizeName = (prize: Pick<GamePrize, 'name' | 'prizeType'>): string => {
+  const prizeType = getTypeOfPrize(prize);
+  if (prizeType?.spokenName && (!prize.name || prize.name === prizeType.name)) {
+    return prizeType.spokenName;
+  }
+  return prize.name || prizeType?.name || 'A prize';
+};
+
+/**
+ * A game's prize of the given type - prize-dependent validators use this to
+ * look at the prize they depend on
+ */
+export const getPrizeOfType = (prizes: GamePrizes, prizeTypeId: string): GamePrize | null =>
+  Object.values(prizes || {}).find(prize => prize?.prizeType === prizeTypeId) || null;
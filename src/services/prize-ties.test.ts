@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  breakTie,
+  describeTieOutcome,
+  drawTieWinner,
+  getTieRule,
+  orderTiedWinners,
+  resolvePrizeTies,
+  verifyTieBreak
+} from './prize-ties';
+import type { PrizeWinner } from './supabase-types';
+
+const DECIDED_AT = '2026-01-01T00:00:00.000Z';
+const SEED = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+
+const createWinner = (ticketId: string): PrizeWinner => ({ name: `Player ${ticketId}`, ticketId });
+
+const TIED = [createWinner('12'), createWinner('3'), createWinner('7')];
+
+describe('getTieRule', () => {
+  it('shares prizes without a known rule', () => {
+    expect(getTieRule('random-draw')).toBe('random-draw');
+    expect(getTieRule('coin-toss')).toBe('share');
+    expect(getTieRule(null)).toBe('share');
+  });
+});
+
+describe('breakTie', () => {
+  it('gives a single winner the whole prize with no tie recorded', async () => {
+    const result = await breakTie('random-draw', [createWinner('5')]);
+
+    expect(result.winners).toEqual([{ ...createWinner('5'), share: 1 }]);
+    expect(result.tieBreak).toBeNull();
+  });
+
+  it('orders tied tickets by ticket number', () => {
+    expect(orderTiedWinners(TIED).map(winner => winner.ticketId)).toEqual(['3', '7', '12']);
+  });
+
+  it('splits a shared prize equally', async () => {
+    const { winners, tieBreak } = await breakTie('share', TIED, {}, { decidedAt: DECIDED_AT });
+
+    expect(winners.map(winner => [winner.ticketId, winner.share])).toEqual([['3', 1 / 3], ['7', 1 / 3], ['12', 1 / 3]]);
+    expect(tieBreak).toEqual({ rule: 'share', tied: orderTiedWinners(TIED), decidedAt: DECIDED_AT });
+  });
+
+  it('gives every tied ticket the prize in full under all-win', async () => {
+    const { winners } = await breakTie('all-win', TIED);
+
+    expect(winners).toHaveLength(3);
+    expect(winners.every(winner => winner.share === 1)).toBe(true);
+  });
+
+  it('gives the prize to the ticket booked first', async () => {
+    const tickets = {
+      '3': { bookedAt: '2026-01-01T10:05:00.000Z' },
+      '7': { bookedAt: '2026-01-01T10:00:00.000Z' },
+      '12': { bookedAt: null }
+    };
+    const { winners, tieBreak } = await breakTie('first-booked', TIED, tickets);
+
+    expect(winners).toEqual([{ ...createWinner('7'), share: 1 }]);
+    expect(tieBreak?.tied.map(winner => winner.ticketId)).toEqual(['3', '7', '12']);
+  });
+
+  it('falls back to ticket order when booking times are the same', async () => {
+    const bookedAt = '2026-01-01T10:00:00.000Z';
+    const tickets = { '3': { bookedAt }, '7': { bookedAt }, '12': { bookedAt } };
+
+    expect((await breakTie('first-booked', TIED, tickets)).winners[0].ticketId).toBe('3');
+    expect((await breakTie('first-booked', TIED)).winners[0].ticketId).toBe('3');
+  });
+
+  it('draws the same winner from the same seed and logs the seed', async () => {
+    const first = await breakTie('random-draw', TIED, {}, { seed: SEED });
+    const second = await breakTie('random-draw', [...TIED].reverse(), {}, { seed: SEED });
+    const index = await drawTieWinner(SEED, orderTiedWinners(TIED));
+
+    expect(first.winners).toEqual([{ ...orderTiedWinners(TIED)[index], share: 1 }]);
+    expect(second.winners).toEqual(first.winners);
+    expect(first.tieBreak?.seed).toBe(SEED);
+  });
+});
+
+describe('verifyTieBreak', () => {
+  it('accepts the recorded random draw and rejects a different winner', async () => {
+    const { winners, tieBreak } = await breakTie('random-draw', TIED, {}, { seed: SEED });
+    const other = orderTiedWinners(TIED).find(winner => winner.ticketId !== winners[0].ticketId)!;
+
+    expect(await verifyTieBreak(tieBreak!, winners)).toBe(true);
+    expect(await verifyTieBreak(tieBreak!, [other])).toBe(false);
+    expect(await verifyTieBreak({ ...tieBreak!, seed: undefined }, winners)).toBe(false);
+  });
+
+  it('has nothing to re-run for other rules', async () => {
+    const { winners, tieBreak } = await breakTie('share', TIED);
+
+    expect(await verifyTieBreak(tieBreak!, winners)).toBe(true);
+  });
+});
+
+describe('resolvePrizeTies', () => {
+  it("applies each prize's own rule", async () => {
+    const resolved = await resolvePrizeTies(
+      {
+        topLine: { prizeName: 'Top Line', winners: TIED },
+        corners: { prizeName: 'Corners', winners: TIED },
+        fullHouse: { prizeName: 'Full House', winners: [createWinner('9')] }
+      },
+      { topLine: { tieRule: 'all-win' }, corners: { tie_rule: 'first-booked' } },
+      { '12': { bookedAt: '2026-01-01T09:00:00.000Z' } }
+    );
+
+    expect(resolved.topLine.winners).toHaveLength(3);
+    expect(resolved.corners.winners.map(winner => winner.ticketId)).toEqual(['12']);
+    expect(resolved.fullHouse.tieBreak).toBeNull();
+    expect(describeTieOutcome(resolved.topLine.tieBreak)).toBe('3-way tie - all win in full');
+    expect(describeTieOutcome(resolved.fullHouse.tieBreak)).toBeNull();
+  });
+});
@@ -0,0 +1,200 @@
+// src/services/prize-ties.ts - Settling prizes won by several tickets on the same number
+//
+// Each prize has a tie rule: share it, give it to the ticket booked first,
+// draw one of the tied tickets at random, or let every ticket win in full.
+// The outcome is stored with the prize as a TieBreak. A random draw is made
+// from a logged seed, so anyone can re-run it and get the same ticket.
+
+import type { PrizeWinner, TieBreak, TieRule } from './supabase-types';
+import { createSequenceSeed } from './number-sequence';
+import { sha256Hex } from './provably-fair';
+import { getWinnerTicketIds, type DetectedWinners } from './claim-checks';
+import { resolveTicket } from './ticket-ids';
+
+export type { TieBreak, TieRule } from './supabase-types';
+
+// ================== CONFIGURATION ==================
+
+export interface TieRuleOption {
+  id: TieRule;
+  name: string;
+  description: string;
+}
+
+export const DEFAULT_TIE_RULE: TieRule = 'share';
+
+export const TIE_RULES: TieRuleOption[] = [
+  {
+    id: 'share',
+    name: 'Share',
+    description: 'Tied tickets split the prize equally'
+  },
+  {
+    id: 'first-booked',
+    name: 'First booked wins',
+    description: 'The tied ticket that was booked earliest takes the prize'
+  },
+  {
+    id: 'random-draw',
+    name: 'Random draw',
+    description: 'One tied ticket is drawn at random - the draw can be re-run to check it'
+  },
+  {
+    id: 'all-win',
+    name: 'All win in full',
+    description: 'Every tied ticket gets the whole prize'
+  }
+];
+
+/**
+ * Tie rule for a prize - prizes created before rules existed are shared
+ */
+export const getTieRule = (rule?: string | null): TieRule =>
+  TIE_RULES.some(option => option.id === rule) ? (rule as TieRule) : DEFAULT_TIE_RULE;
+
+export const getTieRuleName = (rule?: string | null): string =>
+  TIE_RULES.find(option => option.id === getTieRule(rule))?.name || 'Share';
+
+// ================== SETTLING ==================
+
+interface BookableTicket {
+  bookedAt?: string | null;
+}
+
+const firstTicketNumber = (winner: PrizeWinner): number =>
+  parseInt(getWinnerTicketIds(winner)[0], 10) || 0;
+
+/**
+ * Tied winners in ticket order - the order a random draw picks from
+ */
+export const orderTiedWinners = (winners: PrizeWinner[]): PrizeWinner[] =>
+  [...winners].sort((a, b) => firstTicketNumber(a) - firstTicketNumber(b));
+
+/**
+ * Index of the ticket a random draw picks. Depends only on the seed and the
+ * tied tickets, so the draw can be repeated
+ */
+export const drawTieWinner = async (seed: string, tied: PrizeWinner[]): Promise<number> => {
+  const ticketIds = tied.map(winner => winner.ticketId).join('|');
+  const hash = await sha256Hex(`${seed}|${ticketIds}`);
+  return parseInt(hash.slice(0, 8), 16) % tied.length;
+};
+
+const getBookedAt = (winner: PrizeWinner, tickets: { [ticketId: string]: BookableTicket }): number => {
+  const times = getWinnerTicketIds(winner)
+    .map(ticketId => Date.parse(resolveTicket(ticketId, tickets)?.bookedAt || ''))
+    .filter(Number.isFinite);
+  return times.length > 0 ? Math.min(...times) : Infinity;
+};
+
+/**
+ * Winners a prize goes to under its tie rule, and the record of how the tie
+ * was settled. A single winner is no tie and takes the prize in full
+ */
+export const breakTie = async (
+  rule: TieRule,
+  winners: PrizeWinner[],
+  tickets: { [ticketId: string]: BookableTicket } = {},
+  { seed = createSequenceSeed(), decidedAt = new Date().toISOString() }: { seed?: string; decidedAt?: string } = {}
+): Promise<{ winners: PrizeWinner[]; tieBreak: TieBreak | null }> => {
+  if (winners.length < 2) {
+    return { winners: winners.map(winner => ({ ...winner, share: 1 })), tieBreak: null };
+  }
+
+  const tied = orderTiedWinners(winners);
+
+  switch (rule) {
+    case 'first-booked': {
+      // Stable sort - tickets booked at the same moment fall back to ticket order
+      const [first] = [...tied].sort((a, b) => getBookedAt(a, tickets) - getBookedAt(b, tickets));
+      return { winners: [{ ...first, share: 1 }], tieBreak: { rule, tied, decidedAt } };
+    }
+
+    case 'random-draw': {
+      const index = await drawTieWinner(seed, tied);
+      return { winners: [{ ...tied[index], share: 1 }], tieBreak: { rule, tied, seed, decidedAt } };
+    }
+
+    case 'all-win':
+      return { winners: tied.map(winner => ({ ...winner, share: 1 })), tieBreak: { rule, tied, decidedAt } };
+
+    case 'share':
+    default:
+      return {
+        winners: tied.map(winner => ({ ...winner, share: 1 / tied.length })),
+        tieBreak: { rule: 'share', tied, decidedAt }
+      };
+  }
+};
+
+/**
+ * Applies each prize's tie rule to the winners found on a call
+ */
+export const resolvePrizeTies = async (
+  detected: DetectedWinners,
+  prizes: { [prizeId: string]: { tieRule?: string | null; tie_rule?: string | null } },
+  tickets: { [ticketId: string]: BookableTicket }
+): Promise<DetectedWinners> => {
+  const resolved: DetectedWinners = {};
+
+  for (const [prizeId, prizeWinners] of Object.entries(detected)) {
+    const prize = prizes[prizeId];
+    const rule = getTieRule(prize?.tieRule ?? prize?.tie_rule);
+    const { winners, tieBreak } = await breakTie(rule, prizeWinners.winners, tickets);
+
+    resolved[prizeId] = { ...prizeWinners, winners, tieBreak };
+
+    if (tieBreak) {
+      console.log(`⚖️ ${prizeWinners.prizeName || prizeId}: ${tieBreak.tied.length}-way tie settled by ${rule}`,
+        tieBreak.seed ? { seed: tieBreak.seed, winner: winners[0]?.ticketId } : '');
+    }
+  }
+
+  return resolved;
+};
+
+/**
+ * Re-runs a random draw from its seed and checks it picked the recorded winner.
+ * Other rules have nothing to re-run
+ */
+export const verifyTieBreak = async (tieBreak: TieBreak, winners: PrizeWinner[]): Promise<boolean> => {
+  if (tieBreak.rule !== 'random-draw') return true;
+  if (!tieBreak.seed || tieBreak.tied.length === 0 || winners.length !== 1) return false;
+
+  const index = await drawTieWinner(tieBreak.seed, tieBreak.tied);
+  return tieBreak.tied[index].ticketId === winners[0].ticketId;
+};
+
+// ================== DISPLAY ==================
+
+/**
+ * "3-way tie - shared, 1/3 each" - null when the prize wasn't tied
+ */
+export const describeTieOutcome = (tieBreak?: TieBreak | null): string | null => {
+  if (!tieBreak || tieBreak.tied.length < 2) return null;
+
+  const count = tieBreak.tied.length;
+  switch (tieBreak.rule) {
+    case 'first-booked': return `${count}-way tie - first booked ticket wins`;
+    case 'random-draw': return `${count}-way tie - winner drawn at random`;
+    case 'all-win': return `${count}-way tie - all win in full`;
+    case 'share':
+    default: return `${count}-way tie - shared, 1/${count} each`;
+  }
+};
+
+/**
+ * Spoken after the prize announcement
+ */
+export const getTieAnnouncement = (tieBreak?: TieBreak | null): string | null => {
+  if (!tieBreak || tieBreak.tied.length < 2) return null;
+
+  const count = tieBreak.tied.length;
+  switch (tieBreak.rule) {
+    case 'first-booked': return `It was a tie between ${count} tickets. The first ticket booked takes the prize.`;
+    case 'random-draw': return `It was a tie between ${count} tickets. The winner was drawn at random.`;
+    case 'all-win': return `It was a tie between ${count} tickets, and all ${count} win in full.`;
+    case 'share':
+    default: return `It was a tie between ${count} tickets. The prize is shared ${count} ways.`;
+  }
+};
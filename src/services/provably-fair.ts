@@ -0,0 +1,139 @@
+// src/services/provably-fair.ts - Commit-and-reveal draws players can verify
+//
+// When the countdown starts the host commits to SHA-256(seed|sequence) and the
+// sequence itself is kept out of the games table. At endGame the seed and
+// sequence are revealed, so anyone can recompute the hash, re-derive the
+// sequence from the seed and check numbers were called in that order.
+
+import {
+  generateNumberSequence,
+  regenerateNumberSequence,
+  toHex,
+  type NumberSequenceOptions,
+  type NumberSequenceSource,
+  type NumberSequenceAlgorithmVersion
+} from './number-sequence';
+import type { GameState, GameStatus, SessionMetadata } from './supabase-types';
+
+// ================== CONFIGURATION ==================
+
+export const DRAW_COMMITMENT_ALGORITHM = 'sha256';
+
+export interface CommittedDraw {
+  seed: string;
+  sequence: number[];
+  commitment: string;
+  source: NumberSequenceSource;
+  algorithmVersion: NumberSequenceAlgorithmVersion;
+}
+
+export interface DrawVerificationInput {
+  commitment?: string | null;
+  seed?: string | null;
+  sequence?: number[] | null;
+  calledNumbers?: number[] | null;
+  totalNumbers: number;
+  algorithmVersion?: NumberSequenceAlgorithmVersion;
+}
+
+export interface DrawVerificationResult {
+  isRevealed: boolean;
+  commitmentMatches: boolean;
+  sequenceMatchesSeed: boolean;
+  callOrderMatches: boolean;
+  // Index of the first called number that differs from the sequence, -1 if none
+  firstMismatch: number;
+  recomputedCommitment: string | null;
+  isValid: boolean;
+}
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+};
+
+// ================== DRAW ==================
+
+export const getDrawCommitment = (seed: string, sequence: number[]): Promise<string> =>
+  sha256Hex(`${seed}|${sequence.join(',')}`);
+
+export const createCommittedDraw = async (
+  totalNumbers: number,
+  options: NumberSequenceOptions = {}
+): Promise<CommittedDraw> => {
+  const draw = await generateNumberSequence(totalNumbers, options);
+  return { ...draw, commitment: await getDrawCommitment(draw.seed, draw.sequence) };
+};
+
+/**
+ * A draw can only be (re)committed before the first number is called -
+ * commit_game_draw enforces the same rule
+ */
+export const canCommitDraw = (game: { status: GameStatus; game_state?: Partial<GameState> | null }): boolean =>
+  (game.status === 'setup' || game.status === 'countdown') && !game.game_state?.calledNumbers?.length;
+
+/**
+ * Published metadata for a committed draw - everything but the seed and sequence
+ */
+export const getCommittedSessionMetadata = (
+  draw: CommittedDraw,
+  totalNumbers: number,
+  committedAt = new Date().toISOString()
+): SessionMetadata => ({
+  created: committedAt,
+  source: 'host',
+  validated: true,
+  totalNumbers,
+  numberSource: draw.source,
+  algorithmVersion: draw.algorithmVersion,
+  commitment: draw.commitment,
+  commitmentAlgorithm: DRAW_COMMITMENT_ALGORITHM,
+  committedAt
+});
+
+// ================== VERIFICATION ==================
+
+/**
+ * Checks a revealed draw against its commitment and the numbers actually called
+ */
+export const verifyDraw = async ({
+  commitment,
+  seed,
+  sequence,
+  calledNumbers,
+  totalNumbers,
+  algorithmVersion
+}: DrawVerificationInput): Promise<DrawVerificationResult> => {
+  const called = calledNumbers || [];
+
+  if (!seed || !sequence || sequence.length === 0) {
+    return {
+      isRevealed: false,
+      commitmentMatches: false,
+      sequenceMatchesSeed: false,
+      callOrderMatches: false,
+      firstMismatch: -1,
+      recomputedCommitment: null,
+      isValid: false
+    };
+  }
+
+  const recomputedCommitment = await getDrawCommitment(seed, sequence);
+  const expectedSequence = await regenerateNumberSequence(seed, totalNumbers, algorithmVersion);
+  const firstMismatch = called.findIndex((number, index) => sequence[index] !== number);
+
+  const commitmentMatches = !!commitment && recomputedCommitment === commitment;
+  const sequenceMatchesSeed =
+    expectedSequence.length === sequence.length && expectedSequence.every((number, index) => sequence[index] === number);
+  const callOrderMatches = firstMismatch === -1;
+
+  return {
+    isRevealed: true,
+    commitmentMatches,
+    sequenceMatchesSeed,
+    callOrderMatches,
+    firstMismatch,
+    recomputedCommitment,
+    isValid: commitmentMatches && sequenceMatchesSeed && callOrderMatches
+  };
+};
@@ -5,6 +5,7 @@ import type {
   HostUser, 
   User, 
   HostSettings,
+  CustomPrizeDefinition,
   ApiResponse 
 } from './supabase-types';
 
@@ -567,6 +568,52 @@ async getUserData(): Promise<User | null> {
     }
   }
 
+  /**
+   * Custom prizes saved from the pattern designer
+   */
+  async getCustomPrizes(hostId: string): Promise<CustomPrizeDefinition[]> {
+    const hostSettings = await this.getHostSettings(hostId);
+    return hostSettings?.settings?.customPrizes || [];
+  }
+
+  /**
+   * Save a custom prize, replacing any saved one with the same ID
+   */
+  async saveCustomPrize(hostId: string, definition: CustomPrizeDefinition): Promise<CustomPrizeDefinition[]> {
+    try {
+      const customPrizes = await this.getCustomPrizes(hostId);
+      const updated = [...customPrizes.filter(saved => saved.id !== definition.id), definition];
+
+      await this.updateHostTemplate(hostId, { customPrizes: updated });
+
+      console.log(`✅ Custom prize saved: ${definition.name}`);
+      return updated;
+
+    } catch (error: any) {
+      console.error('❌ Error saving custom prize:', error);
+      throw new Error(error.message || 'Failed to save custom prize');
+    }
+  }
+
+  /**
+   * Delete a custom prize. Games already using it keep their copy of the rule
+   */
+  async deleteCustomPrize(hostId: string, prizeId: string): Promise<CustomPrizeDefinition[]> {
+    try {
+      const customPrizes = await this.getCustomPrizes(hostId);
+      const updated = customPrizes.filter(saved => saved.id !== prizeId);
+
+      await this.updateHostTemplate(hostId, { customPrizes: updated });
+
+      console.log(`🗑️ Custom prize deleted: ${prizeId}`);
+      return updated;
+
+    } catch (error: any) {
+      console.error('❌ Error deleting custom prize:', error);
+      throw new Error(error.message || 'Failed to delete custom prize');
+    }
+  }
+
   // ==================== AUTH STATE HELPERS ====================
 
   /**
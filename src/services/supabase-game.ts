@@ -2,6 +2,29 @@
 
 
 import { supabase } from './supabase';
+import { supabaseAuth } from './supabase-auth';
+import {
+  loadTicketSet,
+  prepareTicketSet,
+  getCachedTicketSet,
+  buildGameTickets,
+  getWholeStripCount,
+  resolveTicketSetId,
+  parseCustomTicketSetId,
+  DEFAULT_TICKET_SET_ID,
+  BINGO_TICKET_SET_ID,
+  type TicketSetTicket
+} from './ticket-sets';
+import { getGameVariant, isBingoVariant } from './game-variants';
+import { validateTicketSetRows, getTicketSetErrors } from './ticket-set-validator';
+import { getTicketIdFormat, resolveTicketId } from './ticket-ids';
+import { getCallInterval } from './number-caller';
+import { getCallingMode, getManualSessionMetadata } from './calling-modes';
+import { canCommitDraw, createCommittedDraw, getCommittedSessionMetadata } from './provably-fair';
+import { createCountdownState, getCountdownSeconds, type ScheduledGame } from './game-schedule';
+import { assertTransition, GameTransitionError, GameStateConflictError, type GameAction } from './game-lifecycle';
+import { addClaims, dropClaimsOnNumber, getPendingClaims, hasPendingClaims, settleClaim } from './claim-checks';
+import type { NumberSequenceOptions } from './number-sequence';
 import type { 
   GameData,
   GameState,
@@ -13,9 +36,30 @@ import type {
   UpdatePrizeData,
   NumberGenerationResult,
   GameActionResult,
-  CallNextNumberResponse
+  CallNextNumberResponse,
+  HostTicketSet,
+  TicketSetRow,
+  DrawVerificationData,
+  CallingMode,
+  PrizeWinner,
+  UndoLastCallResponse,
+  CallAuditEntry,
+  PendingClaim,
+  TieBreak
 } from './supabase-types';
 
+const TICKET_INSERT_BATCH_SIZE = 100;
+// Read-merge-write attempts before a game_state conflict is reported
+const MAX_STATE_WRITE_ATTEMPTS = 3;
+
+/**
+ * Lifecycle and conflict errors keep their type so callers can tell them apart
+ */
+const toGameError = (error: any, fallbackMessage: string): Error =>
+  error instanceof GameTransitionError || error instanceof GameStateConflictError
+    ? error
+    : new Error(error.message || fallbackMessage);
+
 class SupabaseGameService {
   // ==================== GAME CREATION & MANAGEMENT ====================
 
@@ -48,6 +92,11 @@ class SupabaseGameService {
 
       console.log('🔐 Session verified for game creation:', session.user.email);
 
+      // 75-ball games always play on freshly generated 5x5 cards
+      const gameVariant = getGameVariant(config.game_variant).id;
+      const ticketSetId = isBingoVariant(gameVariant) ? BINGO_TICKET_SET_ID : config.ticket_set_id;
+      const ticketIdFormat = getTicketIdFormat(config);
+
       // Create game record
       const { data: gameData, error } = await supabase
         .from('games')
@@ -56,6 +105,15 @@ class SupabaseGameService {
           host_id: config.host_id,
           max_tickets: config.max_tickets || 100,
           ticket_price: config.ticket_price || 0,
+          ticket_set_id: resolveTicketSetId(ticketSetId),
+          game_variant: gameVariant,
+          ticket_id_scheme: ticketIdFormat.scheme,
+          ticket_id_prefix: ticketIdFormat.prefix || null,
+          call_interval: getCallInterval(config),
+          calling_mode: getCallingMode(config),
+          scheduled_start_at: config.scheduled_start_at || null,
+          countdown_seconds: getCountdownSeconds(config),
+          hold_for_claims: !!config.hold_for_claims,
           status: 'setup'
         })
         .select()
@@ -81,14 +139,28 @@ class SupabaseGameService {
         }
       }
 
+      // Seed tickets from the selected ticket set - a game without tickets is unusable
+      let seededTickets: number;
+      try {
+        seededTickets = await this.seedGameTickets(
+          gameData.id,
+          gameData.ticket_set_id || DEFAULT_TICKET_SET_ID,
+          gameData.max_tickets
+        );
+      } catch (seedError: any) {
+        console.error('❌ Ticket seeding failed, removing game:', seedError);
+        await supabase.from('games').delete().eq('id', gameData.id);
+        throw new Error(`Failed to create tickets: ${seedError.message}`);
+      }
+
     console.log('✅ Game created successfully:', {
         gameId: gameData.id,
         hostId: gameData.host_id,
-        maxTickets: gameData.max_tickets,
+        maxTickets: seededTickets,
         sessionUserId: session.user.id
       });
       
-      return gameData as GameData;
+      return { ...(gameData as GameData), max_tickets: seededTickets };
 
     } catch (error: any) {
       console.error('❌ Error creating game:', error);
@@ -97,24 +169,24 @@ class SupabaseGameService {
   }
 
   /**
-   * Update game information
+   * Update game information. A game_state update is merged into the state as
+   * read, at its revision - the same as updateGameState
    */
   async updateGame(gameId: string, updates: UpdateGameData): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('games')
-        .update(updates)
-        .eq('id', gameId);
+      await this.updateGameAtRevision(gameId, game => {
+        const { game_state, ...fields } = updates;
 
-      if (error) {
-        throw error;
-      }
+        return game_state
+          ? { ...fields, game_state: { ...game.game_state, ...game_state } }
+          : fields;
+      });
 
       console.log('✅ Game updated:', gameId);
 
     } catch (error: any) {
       console.error('❌ Error updating game:', error);
-      throw new Error(error.message || 'Failed to update game');
+      throw toGameError(error, 'Failed to update game');
     }
   }
 
@@ -168,33 +240,21 @@ class SupabaseGameService {
    */
   async updateGameState(gameId: string, gameState: Partial<GameState>): Promise<void> {
     try {
-      // Get current game state
-      const currentGame = await this.getGameData(gameId);
-      if (!currentGame) {
-        throw new Error('Game not found');
-      }
-
-      // Merge with current state
-      const updatedGameState = {
-        ...currentGame.game_state,
-        ...gameState
-      };
-
-      // Update in database
-      const { error } = await supabase
-        .from('games')
-        .update({ game_state: updatedGameState })
-        .eq('id', gameId);
-
-      if (error) {
-        throw error;
-      }
+      await this.updateGameAtRevision(gameId, currentGame => {
+        // Merge with the state as of this attempt's read
+        return {
+          game_state: {
+            ...currentGame.game_state,
+            ...gameState
+          }
+        };
+      });
 
       console.log('✅ Game state updated:', gameId);
 
     } catch (error: any) {
       console.error('❌ Error updating game state:', error);
-      throw new Error(error.message || 'Failed to update game state');
+      throw toGameError(error, 'Failed to update game state');
     }
   }
 
@@ -203,76 +263,41 @@ class SupabaseGameService {
   /**
    * Start game with countdown - MUCH simpler than Firebase version!
    */
-  async startGameWithCountdown(gameId: string): Promise<void> {
+  async startGameWithCountdown(gameId: string, sequenceOptions?: NumberSequenceOptions): Promise<void> {
     try {
       console.log('🚀 Starting countdown for game:', gameId);
 
-      // Generate game numbers first
-      const numbers = this.generateNumberSequence();
-      
-      const gameState: GameState = {
-        isActive: false,
-        isCountdown: true,
-        countdownTime: 10,
-        gameOver: false,
-        calledNumbers: [],
-        currentNumber: null,
-        totalNumbersCalled: 0
-      };
-
-      // Update game with countdown state and pre-generated numbers
-      const { error } = await supabase
-        .from('games')
-        .update({
-          status: 'countdown',
-          game_state: gameState,
-          session_numbers: numbers,
-          session_metadata: {
-            created: new Date().toISOString(),
-            source: 'host',
-            validated: true,
-            totalNumbers: 90
-          }
-        })
-        .eq('id', gameId);
-
-      if (error) {
-        throw error;
+      const { totalNumbers, callingMode, schedule } = await this.getGameCallingSetup(gameId);
+
+      // Scheduled games finish the countdown at their start time
+      const startedFrom = await this.transitionGame(gameId, 'start', () => ({
+        game_state: createCountdownState(schedule)
+      }));
+
+      // Only the start that landed sets up the draw - a host who lost the race
+      // must not replace the winner's commitment
+      try {
+        if (callingMode === 'manual') {
+          // Numbers come from the host's physical drum - nothing to pre-generate
+          await this.clearSessionNumbers(gameId, totalNumbers);
+        } else {
+          // Only the draw's hash is visible until the game ends
+          await this.commitGameDraw(gameId, totalNumbers, sequenceOptions);
+        }
+      } catch (drawError) {
+        // Back to setup so the host can start again - never count down without a draw
+        await this.updateGameAtRevision(gameId, () => ({
+          status: startedFrom.status,
+          game_state: startedFrom.game_state
+        }));
+        throw drawError;
       }
 
       console.log('✅ Game countdown started');
 
     } catch (error: any) {
       console.error('❌ Failed to start countdown:', error);
-      throw new Error(error.message || 'Failed to start countdown');
-    }
-  }
-
-  /**
-   * Update countdown time
-   */
-  async updateCountdownTime(gameId: string, timeLeft: number): Promise<void> {
-    try {
-      // Get current game state
-      const currentGame = await this.getGameData(gameId);
-      if (!currentGame) return;
-
-      const updatedGameState = {
-        ...currentGame.game_state,
-        countdownTime: timeLeft
-      };
-
-      const { error } = await supabase
-        .from('games')
-        .update({ game_state: updatedGameState })
-        .eq('id', gameId);
-
-      if (error) {
-        console.error('Failed to update countdown:', error);
-      }
-
-    } catch (error: any) {
-      console.error('Error updating countdown:', error);
+      throw toGameError(error, 'Failed to start countdown');
     }
   }
 
@@ -293,24 +318,16 @@ class SupabaseGameService {
         totalNumbersCalled: 0
       };
 
-      const { error } = await supabase
-        .from('games')
-        .update({
-          status: 'active',
-          game_state: gameState,
-          started_at: new Date().toISOString()
-        })
-        .eq('id', gameId);
-
-      if (error) {
-        throw error;
-      }
+      await this.transitionGame(gameId, 'activate', () => ({
+        game_state: gameState,
+        started_at: new Date().toISOString()
+      }));
 
       console.log('✅ Game activated successfully');
 
     } catch (error: any) {
       console.error('❌ Failed to activate game:', error);
-      throw new Error(error.message || 'Failed to activate game');
+      throw toGameError(error, 'Failed to activate game');
     }
   }
 
@@ -319,20 +336,12 @@ class SupabaseGameService {
    */
   async pauseGame(gameId: string): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('games')
-        .update({ status: 'paused' })
-        .eq('id', gameId);
-
-      if (error) {
-        throw error;
-      }
-
+      await this.transitionGame(gameId, 'pause');
       console.log('⏸️ Game paused:', gameId);
 
     } catch (error: any) {
       console.error('❌ Error pausing game:', error);
-      throw new Error(error.message || 'Failed to pause game');
+      throw toGameError(error, 'Failed to pause game');
     }
   }
 
@@ -340,21 +349,35 @@ class SupabaseGameService {
    * Resume game
    */
   async resumeGame(gameId: string): Promise<void> {
+    try {
+      await this.transitionGame(gameId, 'resume');
+      console.log('▶️ Game resumed:', gameId);
+
+    } catch (error: any) {
+      console.error('❌ Error resuming game:', error);
+      throw toGameError(error, 'Failed to resume game');
+    }
+  }
+
+  /**
+   * Time between called numbers, used by the server-side number caller
+   */
+  async updateCallInterval(gameId: string, callInterval: number): Promise<void> {
     try {
       const { error } = await supabase
         .from('games')
-        .update({ status: 'active' })
+        .update({ call_interval: getCallInterval({ call_interval: callInterval }) })
         .eq('id', gameId);
 
       if (error) {
         throw error;
       }
 
-      console.log('▶️ Game resumed:', gameId);
+      console.log('⏱️ Call interval updated:', gameId, callInterval);
 
     } catch (error: any) {
-      console.error('❌ Error resuming game:', error);
-      throw new Error(error.message || 'Failed to resume game');
+      console.error('❌ Error updating call interval:', error);
+      throw new Error(error.message || 'Failed to update call interval');
     }
   }
 
@@ -363,34 +386,102 @@ class SupabaseGameService {
    */
   async endGame(gameId: string): Promise<void> {
     try {
-      const currentGame = await this.getGameData(gameId);
-      if (!currentGame) return;
+      await this.transitionGame(gameId, 'end', game => ({
+        game_state: {
+          ...game.game_state,
+          isActive: false,
+          gameOver: true
+        },
+        ended_at: new Date().toISOString()
+      }));
+
+      // Publish the seed and call order so players can verify the draw
+      const { error: revealError } = await supabase.rpc('reveal_game_draw', { game_id: gameId });
+      if (revealError) {
+        console.error('❌ Failed to reveal draw:', revealError);
+      }
 
-      const updatedGameState = {
-        ...currentGame.game_state,
-        isActive: false,
-        gameOver: true
-      };
+      console.log('🏁 Game ended:', gameId);
 
-      const { error } = await supabase
+    } catch (error: any) {
+      console.error('❌ Error ending game:', error);
+      throw toGameError(error, 'Failed to end game');
+    }
+  }
+
+  /**
+   * Move a game to the status an action leads to, after checking the
+   * lifecycle allows it. Written at the revision it was checked against, so
+   * two hosts (or a host and the server-side caller) can't both take the same
+   * step - the loser re-reads and gets the lifecycle error. Resolves with the
+   * game as it was before the step
+   */
+  private async transitionGame(
+    gameId: string,
+    action: GameAction,
+    buildUpdates: (game: GameData) => Promise<Partial<GameData>> | Partial<GameData> = () => ({})
+  ): Promise<GameData> {
+    return this.updateGameAtRevision(gameId, async game => {
+      const bookedTickets = action === 'start' ? await this.countBookedTickets(gameId) : undefined;
+      const nextStatus = assertTransition(action, { ...game, bookedTickets });
+
+      return { ...await buildUpdates(game), status: nextStatus };
+    });
+  }
+
+  /**
+   * Read-merge-write of a game that only lands if game_state and status are
+   * unchanged since the read (a trigger bumps state_revision on every such
+   * change, RPCs included). Conflicts are retried on a fresh read, then
+   * surfaced as a GameStateConflictError - never silently overwritten.
+   * Resolves with the game as read by the attempt that landed
+   */
+  private async updateGameAtRevision(
+    gameId: string,
+    buildUpdates: (game: GameData) => Promise<Partial<GameData>> | Partial<GameData>
+  ): Promise<GameData> {
+    for (let attempt = 1; attempt <= MAX_STATE_WRITE_ATTEMPTS; attempt++) {
+      const game = await this.getGameData(gameId);
+
+      if (!game) {
+        throw new Error('Game not found');
+      }
+
+      const updates = await buildUpdates(game);
+
+      const { data, error } = await supabase
         .from('games')
-        .update({
-          status: 'finished',
-          game_state: updatedGameState,
-          ended_at: new Date().toISOString()
-        })
-        .eq('id', gameId);
+        .update(updates)
+        .eq('id', gameId)
+        .eq('state_revision', game.state_revision ?? 0)
+        .select('id');
 
       if (error) {
         throw error;
       }
 
-      console.log('🏁 Game ended:', gameId);
+      if (data && data.length > 0) {
+        return game;
+      }
 
-    } catch (error: any) {
-      console.error('❌ Error ending game:', error);
-      throw new Error(error.message || 'Failed to end game');
+      console.warn(`⚠️ Game ${gameId} changed during update (attempt ${attempt}/${MAX_STATE_WRITE_ATTEMPTS})`);
+    }
+
+    throw new GameStateConflictError(gameId, MAX_STATE_WRITE_ATTEMPTS);
+  }
+
+  private async countBookedTickets(gameId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('tickets')
+      .select('id', { count: 'exact', head: true })
+      .eq('game_id', gameId)
+      .eq('is_booked', true);
+
+    if (error) {
+      throw error;
     }
+
+    return count || 0;
   }
 
   // ==================== NUMBER CALLING (NO RACE CONDITIONS!) ====================
@@ -429,29 +520,240 @@ class SupabaseGameService {
   }
 
   /**
-   * Generate game numbers
+   * Call a number the host drew from a physical drum. The server rejects
+   * numbers out of range or already called
    */
-  async generateGameNumbers(gameId: string): Promise<NumberGenerationResult> {
+  async callManualNumber(gameId: string, number: number): Promise<CallNextNumberResponse> {
     try {
-      const numbers = this.generateNumberSequence();
-      
-      const { error } = await supabase
-        .from('games')
-        .update({
-          session_numbers: numbers,
-          session_metadata: {
-            created: new Date().toISOString(),
-            source: 'host',
-            validated: true,
-            totalNumbers: 90
+      console.log(`🎱 Calling manual number ${number} for game:`, gameId);
+
+      const { data, error } = await supabase.rpc('call_manual_number', {
+        game_id: gameId,
+        number
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      const result = data as CallNextNumberResponse;
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      console.log(`✅ Manual number called: ${number}`);
+      return result;
+
+    } catch (error: any) {
+      console.error('❌ Error calling manual number:', error);
+      throw new Error(error.message || 'Failed to call number');
+    }
+  }
+
+  /**
+   * Mark prizes as won with the winners found by the prize engine, and how
+   * any tie between them was settled
+   */
+  async awardPrizes(
+    prizeWinners: { [prizeId: string]: { winners: PrizeWinner[]; tieBreak?: TieBreak | null } },
+    winningNumber: number
+  ): Promise<void> {
+    const wonAt = new Date().toISOString();
+
+    await Promise.all(
+      Object.entries(prizeWinners).map(async ([prizeId, { winners, tieBreak }]) => {
+        // Only a prize still in play - another host screen may have awarded it first
+        const { error } = await supabase
+          .from('prizes')
+          .update({
+            won: true,
+            winning_number: winningNumber,
+            won_at: wonAt,
+            winners,
+            tie_break: tieBreak || null
+          })
+          .eq('id', prizeId)
+          .eq('won', false);
+
+        if (error) {
+          throw new Error(error.message || 'Failed to award prize');
+        }
+      })
+    );
+  }
+
+  /**
+   * Record that the first calledCount calls have been checked for prizes.
+   * Never moves back - a slower screen finishing an older check leaves it be
+   */
+  async markPrizesChecked(gameId: string, calledCount: number): Promise<void> {
+    try {
+      await this.updateGameAtRevision(gameId, game => {
+        const checked = Math.min(calledCount, game.game_state.calledNumbers?.length || 0);
+
+        return {
+          game_state: {
+            ...game.game_state,
+            prizesCheckedThrough: Math.max(game.game_state.prizesCheckedThrough || 0, checked)
           }
-        })
-        .eq('id', gameId);
+        };
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error recording prize check:', error);
+      throw toGameError(error, 'Failed to record prize check');
+    }
+  }
+
+  // ==================== CLAIM CHECKS ====================
+
+  /**
+   * Pause a hold-for-claims game while the host checks the winners. A game
+   * the host already paused stays paused after the claims are decided
+   */
+  async holdForClaims(gameId: string, claims: PendingClaim[]): Promise<void> {
+    try {
+      await this.updateGameAtRevision(gameId, game => {
+        const status = game.status === 'paused' ? 'paused' : assertTransition('pause', game);
+
+        return {
+          status,
+          game_state: {
+            ...game.game_state,
+            claimCheck: addClaims(game.game_state.claimCheck, claims, game.status !== 'paused')
+          }
+        };
+      });
+
+      console.log('✋ Holding for claims:', claims.map(claim => claim.prizeName));
+
+    } catch (error: any) {
+      console.error('❌ Error holding for claims:', error);
+      throw toGameError(error, 'Failed to hold for claims');
+    }
+  }
+
+  /**
+   * Award a held prize to its winners; the game resumes once no claims are left
+   */
+  async confirmClaim(gameId: string, prizeId: string): Promise<void> {
+    await this.decideClaim(gameId, prizeId, 'confirm');
+  }
+
+  /**
+   * Put a held prize back in play - its tickets aren't held for it again
+   */
+  async rejectClaim(gameId: string, prizeId: string): Promise<void> {
+    await this.decideClaim(gameId, prizeId, 'reject');
+  }
+
+  private async decideClaim(gameId: string, prizeId: string, decision: 'confirm' | 'reject'): Promise<void> {
+    try {
+      const game = await this.getGameData(gameId);
+      const claim = getPendingClaims(game?.game_state).find(held => held.prizeId === prizeId);
+
+      if (!claim) {
+        throw new Error('This claim has already been decided');
+      }
+
+      // Award before releasing the hold, so calling never resumes ahead of the prize
+      if (decision === 'confirm') {
+        await this.awardPrizes({ [prizeId]: { winners: claim.winners, tieBreak: claim.tieBreak } }, claim.winningNumber);
+      }
+
+      await this.updateGameAtRevision(gameId, current => {
+        const { gameState } = settleClaim(current.game_state, prizeId, decision);
+        const resume = current.status === 'paused' &&
+          current.game_state.claimCheck?.pausedGame &&
+          !hasPendingClaims(gameState);
+
+        return resume
+          ? { game_state: gameState, status: assertTransition('resume', { ...current, game_state: gameState }) }
+          : { game_state: gameState };
+      });
+
+      console.log(`${decision === 'confirm' ? '✅' : '🚫'} Claim ${decision}ed:`, claim.prizeName);
+
+    } catch (error: any) {
+      console.error(`❌ Error deciding claim:`, error);
+      throw toGameError(error, `Failed to ${decision} claim`);
+    }
+  }
+
+  /**
+   * Remove the last called number from a paused game, reverting prizes won on it
+   */
+  async undoLastCall(gameId: string, reason: string): Promise<UndoLastCallResponse> {
+    try {
+      console.log('↩️ Undoing last call for game:', gameId);
+
+      const { data, error } = await supabase.rpc('undo_last_call', {
+        game_id: gameId,
+        reason
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      const result = data as UndoLastCallResponse;
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      // Claims waiting on the removed number no longer stand
+      await this.updateGameAtRevision(gameId, game => ({
+        game_state: dropClaimsOnNumber(game.game_state, result.number)
+      }));
+
+      console.log(`✅ Call undone: ${result.number}`);
+      return result;
+
+    } catch (error: any) {
+      console.error('❌ Error undoing last call:', error);
+      throw new Error(error.message || 'Failed to undo last call');
+    }
+  }
+
+  /**
+   * Corrections made to a game's calls, oldest first
+   */
+  async getCallAuditLog(gameId: string): Promise<CallAuditEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('game_call_audit')
+        .select('*')
+        .eq('game_id', gameId)
+        .order('created_at', { ascending: true });
 
       if (error) {
         throw error;
       }
 
+      return data as CallAuditEntry[] || [];
+
+    } catch (error: any) {
+      console.error('Error fetching call audit log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Generate game numbers - replaces the committed draw, so only before the
+   * first number is called
+   */
+  async generateGameNumbers(gameId: string, sequenceOptions?: NumberSequenceOptions): Promise<NumberGenerationResult> {
+    try {
+      const game = await this.getGameData(gameId);
+      if (!game || !canCommitDraw(game)) {
+        throw new Error('The draw can only be replaced before numbers are called');
+      }
+
+      const { totalNumbers } = await this.getGameCallingSetup(gameId);
+      const numbers = await this.commitGameDraw(gameId, totalNumbers, sequenceOptions);
+
       return {
         success: true,
         numbers,
@@ -469,22 +771,358 @@ class SupabaseGameService {
   }
 
   /**
-   * Generate shuffled number sequence (1-90)
+   * Numbers in play for a game's variant (90 or 75), how they are called and
+   * when the game is scheduled to start
    */
-  private generateNumberSequence(): number[] {
-    const numbers = Array.from({ length: 90 }, (_, i) => i + 1);
-    
-    // Fisher-Yates shuffle
-    for (let i = numbers.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
+  private async getGameCallingSetup(gameId: string): Promise<{
+    totalNumbers: number;
+    callingMode: CallingMode;
+    schedule: ScheduledGame;
+  }> {
+    const { data } = await supabase
+      .from('games')
+      .select('game_variant, calling_mode, scheduled_start_at, countdown_seconds')
+      .eq('id', gameId)
+      .single();
+
+    return {
+      totalNumbers: getGameVariant(data?.game_variant).totalNumbers,
+      callingMode: getCallingMode(data),
+      schedule: data || {}
+    };
+  }
+
+  /**
+   * Manual games keep no sequence - calledNumbers is the only record of the draw
+   */
+  private async clearSessionNumbers(gameId: string, totalNumbers: number): Promise<void> {
+    const { error } = await supabase
+      .from('games')
+      .update({
+        session_numbers: [],
+        session_metadata: getManualSessionMetadata(totalNumbers)
+      })
+      .eq('id', gameId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Draw a seeded sequence (1-90, or 1-75 for bingo) and commit to it. The seed
+   * is crypto-random unless a seeded source is passed (tests and replays). Seed
+   * and sequence go to the private game_draws table; only the hash, source and
+   * algorithm version are published until reveal_game_draw adds the seed
+   */
+  private async commitGameDraw(
+    gameId: string,
+    totalNumbers: number,
+    sequenceOptions?: NumberSequenceOptions
+  ): Promise<number[]> {
+    const draw = await createCommittedDraw(totalNumbers, sequenceOptions);
+    const sessionMetadata = getCommittedSessionMetadata(draw, totalNumbers);
+
+    const { error } = await supabase.rpc('commit_game_draw', {
+      game_id: gameId,
+      seed: draw.seed,
+      numbers: draw.sequence,
+      session_metadata: sessionMetadata
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return draw.sequence;
+  }
+
+  /**
+   * Public data needed to verify a game's draw - the seed and sequence are
+   * only filled in once the game has finished
+   */
+  async getDrawVerificationData(gameId: string): Promise<DrawVerificationData | null> {
+    try {
+      const { data, error } = await supabase
+        .from('games')
+        .select('id, name, status, game_state, session_numbers, session_metadata')
+        .eq('id', gameId)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data ? {
+        gameId: data.id,
+        name: data.name,
+        status: data.status,
+        calledNumbers: data.game_state?.calledNumbers || [],
+        sessionNumbers: data.session_numbers || [],
+        sessionMetadata: data.session_metadata || null
+      } : null;
+
+    } catch (error: any) {
+      console.error('❌ Error fetching draw verification data:', error);
+      throw new Error(error.message || 'Failed to load draw');
     }
-    
-    return numbers;
   }
 
   // ==================== TICKET OPERATIONS ====================
 
+  /**
+   * Seed a game's tickets from a bundled, generated or uploaded ticket set
+   * (whole 6-ticket strips). max_tickets is set to the number seeded
+   */
+  async seedGameTickets(gameId: string, ticketSetId: string, maxTickets: number): Promise<number> {
+    try {
+      console.log(`🎫 Seeding ${maxTickets} tickets from set ${ticketSetId} for game:`, gameId);
+
+      const setTickets = await this.getTicketSetTickets(ticketSetId);
+      const tickets = buildGameTickets(setTickets, gameId, maxTickets);
+
+      await this.insertTickets(tickets);
+      if (tickets.length !== maxTickets) {
+        await this.setMaxTickets(gameId, tickets.length);
+      }
+
+      console.log(`✅ ${tickets.length} tickets seeded for game:`, gameId);
+      return tickets.length;
+
+    } catch (error: any) {
+      console.error('❌ Error seeding game tickets:', error);
+      throw new Error(error.message || 'Failed to seed game tickets');
+    }
+  }
+
+  /**
+   * Grow a game's tickets to newMaxTickets, continuing strip by strip through
+   * the game's own ticket set so set_id/position_in_set stay in step.
+   * Also fills in any tickets missing below the current max_tickets. A
+   * count ending part-way through a strip is rounded up to the whole strip.
+   */
+  async expandGameTickets(gameId: string, requestedMaxTickets: number): Promise<number> {
+    try {
+      const { ticketSetId, tickets } = await this.getGameTicketLayout(gameId);
+
+      if (requestedMaxTickets < tickets.length) {
+        throw new Error(`Cannot expand to ${requestedMaxTickets} tickets - game already has ${tickets.length}`);
+      }
+
+      let added = 0;
+      if (requestedMaxTickets > tickets.length) {
+        const setTickets = await this.getTicketSetTickets(ticketSetId);
+        const newTickets = buildGameTickets(setTickets, gameId, requestedMaxTickets - tickets.length, tickets.length);
+        added = newTickets.length;
+
+        console.log(`📈 Expanding game ${gameId}: ${tickets.length} → ${tickets.length + added} tickets`);
+        await this.insertTickets(newTickets);
+      }
+
+      const newMaxTickets = tickets.length + added;
+
+      await this.setMaxTickets(gameId, newMaxTickets);
+
+      console.log(`✅ Game ${gameId} now has ${newMaxTickets} tickets (+${added})`);
+      return added;
+
+    } catch (error: any) {
+      console.error('❌ Error expanding game tickets:', error);
+      throw new Error(error.message || 'Failed to expand tickets');
+    }
+  }
+
+  /**
+   * Shrink a game's tickets to newMaxTickets by removing unbooked tickets
+   * from the tail, keeping the last strip whole. Refuses if any ticket that
+   * would be removed is booked.
+   */
+  async shrinkGameTickets(gameId: string, requestedMaxTickets: number): Promise<number> {
+    try {
+      const { ticketSetId, tickets } = await this.getGameTicketLayout(gameId);
+      const setTickets = await this.getTicketSetTickets(ticketSetId);
+      const newMaxTickets = Math.min(getWholeStripCount(setTickets, requestedMaxTickets), tickets.length);
+      const tail = tickets.slice(newMaxTickets);
+
+      const bookedInTail = tail.filter(ticket => ticket.is_booked).map(ticket => ticket.ticket_id);
+      if (bookedInTail.length > 0) {
+        throw new Error(
+          `Cannot reduce tickets to ${newMaxTickets}: ticket${bookedInTail.length > 1 ? 's' : ''} ${bookedInTail.join(', ')} ${bookedInTail.length > 1 ? 'are' : 'is'} booked`
+        );
+      }
+
+      if (tail.length > 0) {
+        console.log(`📉 Shrinking game ${gameId}: ${tickets.length} → ${newMaxTickets} tickets`);
+
+        // is_booked filter guards against a booking landing between the check and the delete
+        const { data, error } = await supabase
+          .from('tickets')
+          .delete()
+          .eq('game_id', gameId)
+          .eq('is_booked', false)
+          .in('ticket_id', tail.map(ticket => ticket.ticket_id))
+          .select('ticket_id');
+
+        if (error) {
+          throw error;
+        }
+
+        if ((data || []).length !== tail.length) {
+          const remaining = tickets.length - (data || []).length;
+          await this.setMaxTickets(gameId, remaining);
+          throw new Error(`A ticket was booked while shrinking - game now has ${remaining} tickets`);
+        }
+      }
+
+      await this.setMaxTickets(gameId, newMaxTickets);
+
+      console.log(`✅ Game ${gameId} now has ${newMaxTickets} tickets (-${tail.length})`);
+      return tail.length;
+
+    } catch (error: any) {
+      console.error('❌ Error shrinking game tickets:', error);
+      throw new Error(error.message || 'Failed to shrink tickets');
+    }
+  }
+
+  /**
+   * Resize the live game's tickets to match the edited settings, then save
+   * the settings as the host's template for future games
+   */
+  async updateGameAndTemplate(gameId: string, hostId: string, settings: {
+    maxTickets: number;
+    hostPhone: string;
+    selectedPrizes: string[];
+    selectedTicketSet: string;
+  }): Promise<void> {
+    const game = await this.getGameData(gameId);
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    if (settings.maxTickets > game.max_tickets) {
+      await this.expandGameTickets(gameId, settings.maxTickets);
+    } else if (settings.maxTickets < game.max_tickets) {
+      await this.shrinkGameTickets(gameId, settings.maxTickets);
+    }
+
+    await supabaseAuth.updateHostTemplate(hostId, settings);
+  }
+
+  /**
+   * Current tickets of a game in ticket number order, plus its ticket set
+   */
+  private async getGameTicketLayout(gameId: string): Promise<{
+    ticketSetId: string;
+    tickets: Pick<TambolaTicket, 'ticket_id' | 'is_booked'>[];
+  }> {
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('ticket_set_id')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      throw new Error('Game not found');
+    }
+
+    const { data: tickets, error: ticketsError } = await supabase
+      .from('tickets')
+      .select('ticket_id, is_booked')
+      .eq('game_id', gameId);
+
+    if (ticketsError) {
+      throw ticketsError;
+    }
+
+    return {
+      ticketSetId: game.ticket_set_id || DEFAULT_TICKET_SET_ID,
+      tickets: (tickets || []).sort((a, b) => parseInt(a.ticket_id) - parseInt(b.ticket_id))
+    };
+  }
+
+  /**
+   * Stored ticket_id for any ID form the game's players may use ("007", "S2-1", "T7")
+   */
+  private async resolveGameTicketId(gameId: string, ticketId: string): Promise<string> {
+    if (/^[1-9]\d*$/.test(ticketId)) return ticketId;
+
+    const { data: tickets, error } = await supabase
+      .from('tickets')
+      .select('ticket_id, set_id, position_in_set')
+      .eq('game_id', gameId);
+
+    if (error) {
+      throw error;
+    }
+
+    const ticketMap = Object.fromEntries(
+      (tickets || []).map(ticket => [
+        ticket.ticket_id,
+        { ticketId: ticket.ticket_id, setId: ticket.set_id, positionInSet: ticket.position_in_set }
+      ])
+    );
+
+    const resolved = resolveTicketId(ticketId, ticketMap);
+    if (!resolved) {
+      throw new Error(`Ticket ${ticketId} not found`);
+    }
+
+    return resolved;
+  }
+
+  private async setMaxTickets(gameId: string, maxTickets: number): Promise<void> {
+    const { error } = await supabase
+      .from('games')
+      .update({ max_tickets: maxTickets })
+      .eq('id', gameId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a ticket set ID to its tickets - uploaded sets are read from host_ticket_sets
+   */
+  private async getTicketSetTickets(ticketSetId: string): Promise<TicketSetTicket[]> {
+    const hostTicketSetId = parseCustomTicketSetId(ticketSetId);
+    if (!hostTicketSetId) {
+      return loadTicketSet(ticketSetId);
+    }
+
+    const cached = getCachedTicketSet(ticketSetId);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('host_ticket_sets')
+      .select('rows')
+      .eq('id', hostTicketSetId)
+      .single();
+
+    if (error || !data) {
+      throw new Error('Uploaded ticket set not found');
+    }
+
+    return prepareTicketSet(ticketSetId, data.rows as TicketSetRow[]);
+  }
+
+  /**
+   * Bulk insert tickets in batches
+   */
+  private async insertTickets(tickets: CreateTicketData[]): Promise<void> {
+    for (let i = 0; i < tickets.length; i += TICKET_INSERT_BATCH_SIZE) {
+      const batch = tickets.slice(i, i + TICKET_INSERT_BATCH_SIZE);
+      const { error } = await supabase
+        .from('tickets')
+        .insert(batch);
+
+      if (error) {
+        throw error;
+      }
+    }
+  }
+
   /**
    * Create ticket
    */
@@ -512,9 +1150,13 @@ class SupabaseGameService {
   /**
    * Book ticket
    */
-  async bookTicket(ticketId: string, playerName: string, playerPhone?: string): Promise<void> {
+  async bookTicket(ticketId: string, playerName: string, playerPhone?: string, gameId?: string): Promise<void> {
   try {
-    const { error } = await supabase
+    if (gameId) {
+      ticketId = await this.resolveGameTicketId(gameId, ticketId);
+    }
+
+    let query = supabase
       .from('tickets')
       .update({
         is_booked: true,
@@ -523,6 +1165,13 @@ class SupabaseGameService {
         booked_at: new Date().toISOString()
       })
       .eq('ticket_id', ticketId);
+
+    // Ticket numbers repeat across games - scope the update to the game
+    if (gameId) {
+      query = query.eq('game_id', gameId);
+    }
+
+    const { error } = await query;
       if (error) {
         throw error;
       }
@@ -540,6 +1189,8 @@ class SupabaseGameService {
    */
   async unbookTicket(gameId: string, ticketId: string): Promise<void> {
     try {
+      ticketId = await this.resolveGameTicketId(gameId, ticketId);
+
       const { error } = await supabase
         .from('tickets')
         .update({
@@ -601,6 +1252,88 @@ class SupabaseGameService {
     }
   }
 
+  // ==================== HOST TICKET SETS ====================
+
+  /**
+   * List a host's uploaded ticket sets (without their rows)
+   */
+  async getHostTicketSets(hostId: string): Promise<HostTicketSet[]> {
+    try {
+      const { data, error } = await supabase
+        .from('host_ticket_sets')
+        .select('id, host_id, name, ticket_count, created_at')
+        .eq('host_id', hostId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as HostTicketSet[] || [];
+
+    } catch (error: any) {
+      console.error('Error fetching host ticket sets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Validate and store a ticket set uploaded by a host
+   */
+  async saveHostTicketSet(hostId: string, name: string, rows: TicketSetRow[]): Promise<HostTicketSet> {
+    try {
+      const validation = validateTicketSetRows(rows);
+      if (!validation.valid) {
+        const errors = getTicketSetErrors(validation);
+        throw new Error(`Invalid ticket set: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+      }
+
+      const { data, error } = await supabase
+        .from('host_ticket_sets')
+        .insert({
+          host_id: hostId,
+          name: name.trim(),
+          ticket_count: validation.ticketCount,
+          rows
+        })
+        .select('id, host_id, name, ticket_count, created_at')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      console.log(`✅ Ticket set "${name}" uploaded: ${validation.ticketCount} tickets`);
+      return data as HostTicketSet;
+
+    } catch (error: any) {
+      console.error('❌ Error saving host ticket set:', error);
+      throw new Error(error.message || 'Failed to save ticket set');
+    }
+  }
+
+  /**
+   * Delete an uploaded ticket set
+   */
+  async deleteHostTicketSet(hostTicketSetId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('host_ticket_sets')
+        .delete()
+        .eq('id', hostTicketSetId);
+
+      if (error) {
+        throw error;
+      }
+
+      console.log('✅ Ticket set deleted:', hostTicketSetId);
+
+    } catch (error: any) {
+      console.error('❌ Error deleting host ticket set:', error);
+      throw new Error(error.message || 'Failed to delete ticket set');
+    }
+  }
+
   // ==================== PRIZE OPERATIONS ====================
 
   /**
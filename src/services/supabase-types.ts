@@ -3,6 +3,12 @@
 
 export type UserRole = 'admin' | 'host';
 export type GameStatus = 'setup' | 'countdown' | 'active' | 'paused' | 'finished';
+export type GameVariant = '90-ball' | '75-ball';
+export type TicketIdScheme = 'plain' | 'padded' | 'set-position' | 'prefix';
+export type CallingMode = 'automatic' | 'manual';
+export type TieRule = 'share' | 'first-booked' | 'random-draw' | 'all-win';
+export type NumberSequenceSource = 'crypto' | 'seeded';
+export type NumberSequenceAlgorithmVersion = 1;
 
 // ==================== USER TYPES ====================
 
@@ -40,10 +46,59 @@ export interface GameState {
   isActive: boolean;
   isCountdown: boolean;
   countdownTime: number;
+  // When the countdown finishes - screens count down from this rather than countdownTime
+  countdownEndsAt?: string;
   gameOver: boolean;
   calledNumbers: number[];
   currentNumber: number | null;
   totalNumbersCalled: number;
+  // Set by undo_last_call so players see and hear the correction
+  lastCorrection?: CallCorrection;
+  // Hold-for-claims games pause here until the host checks the winning tickets
+  claimCheck?: ClaimCheck | null;
+  // Tickets the host rejected, by prize - they aren't held for that prize again
+  rejectedClaims?: { [prizeId: string]: string[] };
+  // Calls the prize engine has run through - a reloaded or second host screen carries on from here
+  prizesCheckedThrough?: number;
+}
+
+/**
+ * Winners the prize engine found for one prize, waiting for the host
+ */
+export interface PendingClaim {
+  prizeId: string;
+  prizeName: string;
+  winners: PrizeWinner[];
+  winningNumber: number;
+  tieBreak?: TieBreak | null;
+}
+
+export interface ClaimCheck {
+  claims: PendingClaim[];
+  heldAt: string;
+  // Whether the hold paused the game - only then does the last decision resume it
+  pausedGame: boolean;
+}
+
+export interface CallCorrection {
+  number: number;
+  reason: string;
+  correctedAt: string;
+  // Calls remaining after the undo; the correction is current until the next call
+  callsAfter: number;
+  revertedPrizes: { id: string; name: string }[];
+}
+
+export interface CallAuditEntry {
+  id: string;
+  game_id: string;
+  action: 'undo_call';
+  number: number;
+  call_index: number;
+  reason: string;
+  reverted_prizes: { id: string; name: string }[];
+  performed_by: string | null;
+  created_at: string;
 }
 
 export interface SessionMetadata {
@@ -51,6 +106,17 @@ export interface SessionMetadata {
   source: 'admin' | 'host';
   validated: boolean;
   totalNumbers: number;
+  // How the call order was generated (see number-sequence.ts); games without a
+  // version used algorithm 1
+  numberSource?: NumberSequenceSource;
+  algorithmVersion?: NumberSequenceAlgorithmVersion;
+  // Commit-reveal draw (see provably-fair.ts): the hash is published at countdown,
+  // the seed only once the game has finished and session_numbers is filled in
+  commitment?: string;
+  commitmentAlgorithm?: string;
+  committedAt?: string;
+  seed?: string;
+  revealedAt?: string;
 }
 
 export interface GameData {
@@ -59,8 +125,21 @@ export interface GameData {
   host_id: string;
   max_tickets: number;
   ticket_price: number;
+  ticket_set_id?: string;
+  game_variant?: GameVariant;
+  ticket_id_scheme?: TicketIdScheme;
+  ticket_id_prefix?: string;
+  call_interval?: number;
+  calling_mode?: CallingMode;
+  // Start time for games that go live on their own (see game-schedule.ts)
+  scheduled_start_at?: string | null;
+  countdown_seconds?: number;
+  // Pause calling when a prize is won until the host confirms it (see claim-checks.ts)
+  hold_for_claims?: boolean;
   status: GameStatus;
   game_state: GameState;
+  // Bumped by the database on every game_state/status change (optimistic concurrency)
+  state_revision?: number;
   session_numbers: number[];
   session_metadata: SessionMetadata;
   created_at: string;
@@ -82,12 +161,22 @@ export interface TicketMetadata {
   hasValidCorners: boolean;
   hasValidCenter: boolean;
   allNumbers: number[];
+  // Number-value sets for the value prizes - missing on tickets stored before them
+  lowest?: number;
+  highest?: number;
+  lowestFive?: number[];
+  highestFive?: number[];
+  oddNumbers?: number[];
+  evenNumbers?: number[];
+  // Top row's 3rd number, middle row's 2nd and 4th, bottom row's 1st, 3rd and 5th
+  pyramid?: number[];
 }
 
 export interface TambolaTicket {
   id: string;
   game_id: string;
-  ticket_id: string; // Human readable ID (A001, B002, etc.)
+  ticket_id: string; // Plain number ("1", "2", ...) - shown per the game's ticket_id_scheme
+  displayId?: string; // ticket_id formatted per the scheme - set by GameDataProvider, not stored
   player_name: string;
   player_phone?: string;
   rows: number[][]; // 3x9 grid
@@ -102,10 +191,45 @@ export interface TambolaTicket {
 
 // ==================== PRIZE TYPES ====================
 
+// Settings for a prize type's rule, e.g. { count: 7 } for an "Early Seven"
+export type PrizeRuleParams = { [param: string]: any };
+
+/**
+ * A host-designed prize rule (see custom-prizes.ts). Cells are [row, col] on
+ * the 3x9 grid; positions are [row, n] - the nth number along a row, 0-4
+ */
+export type CustomPrizeRule =
+  | { kind: 'cells'; cells: [number, number][] }
+  | { kind: 'positions'; positions: [number, number][]; required: number }
+  | { kind: 'first-numbers'; count: number }
+  | { kind: 'lines'; count: number };
+
+export interface CustomPrizeDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  rule: CustomPrizeRule;
+  createdAt: string;
+}
+
 export interface PrizeWinner {
   name: string;
   ticketId: string;
   phone?: string;
+  // Fraction of the prize - 1/n when a tie is shared, otherwise the full prize
+  share?: number;
+}
+
+/**
+ * How a tie on a prize was settled (see prize-ties.ts)
+ */
+export interface TieBreak {
+  rule: TieRule;
+  // Everyone who completed the prize on the winning number, in ticket order
+  tied: PrizeWinner[];
+  // random-draw only - re-running the draw with this seed picks the same ticket
+  seed?: string;
+  decidedAt: string;
 }
 
 export interface Prize {
@@ -119,6 +243,12 @@ export interface Prize {
   winning_number?: number;
   won_at?: string;
   winners: PrizeWinner[];
+  // Registered prize type the prize is won by (see prize-registry.ts) and its settings
+  prize_type?: string | null;
+  rule_params?: PrizeRuleParams;
+  // What happens when several tickets win on the same number
+  tie_rule?: TieRule;
+  tie_break?: TieBreak | null;
   created_at: string;
   updated_at: string;
 }
@@ -134,12 +264,35 @@ export interface HostSettings {
     callInterval: number;
     speechRate: number;
     autoEndGame: boolean;
+    // Reusable prizes from the pattern designer
+    customPrizes?: CustomPrizeDefinition[];
     [key: string]: any;
   };
   created_at: string;
   updated_at: string;
 }
 
+// ==================== HOST TICKET SET TYPES ====================
+
+/**
+ * One row of a ticket set, as stored in public/data/*.json
+ */
+export interface TicketSetRow {
+  setId: number;
+  ticketId: number;
+  rowId: number;
+  numbers: number[];
+}
+
+export interface HostTicketSet {
+  id: string;
+  host_id: string;
+  name: string;
+  ticket_count: number;
+  rows?: TicketSetRow[];
+  created_at: string;
+}
+
 // ==================== API RESPONSE TYPES ====================
 
 export interface ApiResponse<T> {
@@ -148,6 +301,16 @@ export interface ApiResponse<T> {
   success: boolean;
 }
 
+export interface DrawVerificationData {
+  gameId: string;
+  name: string;
+  status: GameStatus;
+  calledNumbers: number[];
+  // Empty until the draw is revealed at the end of the game
+  sessionNumbers: number[];
+  sessionMetadata: SessionMetadata | null;
+}
+
 export interface NumberGenerationResult {
   success: boolean;
   numbers: number[];
@@ -184,15 +347,26 @@ export interface CreateGameConfig {
   host_id: string;
   max_tickets?: number;
   ticket_price?: number;
+  ticket_set_id?: string;
+  game_variant?: GameVariant;
+  ticket_id_scheme?: TicketIdScheme;
+  ticket_id_prefix?: string;
+  call_interval?: number;
+  calling_mode?: CallingMode;
+  scheduled_start_at?: string | null;
+  countdown_seconds?: number;
+  hold_for_claims?: boolean;
   prizes?: Omit<Prize, 'id' | 'game_id' | 'created_at' | 'updated_at' | 'won' | 'winners'>[];
 }
 
+// Status changes go through the lifecycle (see game-lifecycle.ts), not updateGame
 export interface UpdateGameData {
   name?: string;
   max_tickets?: number;
   ticket_price?: number;
-  status?: GameStatus;
   game_state?: Partial<GameState>;
+  scheduled_start_at?: string | null;
+  countdown_seconds?: number;
   started_at?: string;
   ended_at?: string;
 }
@@ -213,6 +387,8 @@ export interface UpdatePrizeData {
   winning_number?: number;
   won_at?: string;
   winners?: PrizeWinner[];
+  tie_rule?: TieRule;
+  tie_break?: TieBreak | null;
 }
 
 // ==================== FILTER/QUERY TYPES ====================
@@ -260,6 +436,34 @@ export interface CallNextNumberResponse {
   total_called: number;
 }
 
+export interface CallManualNumberParams {
+  game_id: string;
+  number: number;
+}
+
+export interface UndoLastCallParams {
+  game_id: string;
+  reason: string;
+}
+
+export interface UndoLastCallResponse {
+  success: boolean;
+  number?: number;
+  reverted_prizes?: { id: string; name: string }[];
+  message: string;
+}
+
+export interface CommitGameDrawParams {
+  game_id: string;
+  seed: string;
+  numbers: number[];
+  session_metadata: SessionMetadata;
+}
+
+export interface RevealGameDrawParams {
+  game_id: string;
+}
+
 export interface EndGameParams {
   game_id: string;
   reason?: string;
@@ -362,8 +566,18 @@ export interface Database {
           host_id: string;
           max_tickets: number;
           ticket_price: number;
+          ticket_set_id: string | null;
+          game_variant: GameVariant;
+          ticket_id_scheme: TicketIdScheme;
+          ticket_id_prefix: string | null;
+          call_interval: number;
+          calling_mode: CallingMode;
+          scheduled_start_at: string | null;
+          countdown_seconds: number;
+          hold_for_claims: boolean;
           status: GameStatus;
           game_state: any;
+          state_revision: number;
           session_numbers: number[];
           session_metadata: any;
           created_at: string;
@@ -377,8 +591,18 @@ export interface Database {
           host_id: string;
           max_tickets?: number;
           ticket_price?: number;
+          ticket_set_id?: string | null;
+          game_variant?: GameVariant;
+          ticket_id_scheme?: TicketIdScheme;
+          ticket_id_prefix?: string | null;
+          call_interval?: number;
+          calling_mode?: CallingMode;
+          scheduled_start_at?: string | null;
+          countdown_seconds?: number;
+          hold_for_claims?: boolean;
           status?: GameStatus;
           game_state?: any;
+          state_revision?: number;
           session_numbers?: number[];
           session_metadata?: any;
           created_at?: string;
@@ -392,8 +616,18 @@ export interface Database {
           host_id?: string;
           max_tickets?: number;
           ticket_price?: number;
+          ticket_set_id?: string | null;
+          game_variant?: GameVariant;
+          ticket_id_scheme?: TicketIdScheme;
+          ticket_id_prefix?: string | null;
+          call_interval?: number;
+          calling_mode?: CallingMode;
+          scheduled_start_at?: string | null;
+          countdown_seconds?: number;
+          hold_for_claims?: boolean;
           status?: GameStatus;
           game_state?: any;
+          state_revision?: number;
           session_numbers?: number[];
           session_metadata?: any;
           created_at?: string;
@@ -461,6 +695,10 @@ export interface Database {
           winning_number: number | null;
           won_at: string | null;
           winners: any;
+          prize_type: string | null;
+          rule_params: any;
+          tie_rule: TieRule;
+          tie_break: any;
           created_at: string;
           updated_at: string;
         };
@@ -475,6 +713,10 @@ export interface Database {
           winning_number?: number | null;
           won_at?: string | null;
           winners?: any;
+          prize_type?: string | null;
+          rule_params?: any;
+          tie_rule?: TieRule;
+          tie_break?: any;
           created_at?: string;
           updated_at?: string;
         };
@@ -489,6 +731,10 @@ export interface Database {
           winning_number?: number | null;
           won_at?: string | null;
           winners?: any;
+          prize_type?: string | null;
+          rule_params?: any;
+          tie_rule?: TieRule;
+          tie_break?: any;
           created_at?: string;
           updated_at?: string;
         };
@@ -516,12 +762,59 @@ export interface Database {
           updated_at?: string;
         };
       };
+      host_ticket_sets: {
+        Row: {
+          id: string;
+          host_id: string;
+          name: string;
+          ticket_count: number;
+          rows: TicketSetRow[];
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          host_id: string;
+          name: string;
+          ticket_count: number;
+          rows: TicketSetRow[];
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          host_id?: string;
+          name?: string;
+          ticket_count?: number;
+          rows?: TicketSetRow[];
+          created_at?: string;
+        };
+      };
+      game_call_audit: {
+        Row: CallAuditEntry;
+        Insert: Partial<CallAuditEntry> & Pick<CallAuditEntry, 'game_id' | 'action' | 'number' | 'call_index' | 'reason'>;
+        Update: Partial<CallAuditEntry>;
+      };
     };
     Functions: {
       call_next_number: {
         Args: CallNextNumberParams;
         Returns: CallNextNumberResponse;
       };
+      call_manual_number: {
+        Args: CallManualNumberParams;
+        Returns: CallNextNumberResponse;
+      };
+      undo_last_call: {
+        Args: UndoLastCallParams;
+        Returns: UndoLastCallResponse;
+      };
+      commit_game_draw: {
+        Args: CommitGameDrawParams;
+        Returns: void;
+      };
+      reveal_game_draw: {
+        Args: RevealGameDrawParams;
+        Returns: void;
+      };
       end_game: {
         Args: EndGameParams;
         Returns: EndGameResponse;
@@ -1,9 +1,10 @@
 // Main Supabase Service
 
 import { createClient } from '@supabase/supabase-js';
-import type { Database } from './supabase-types';
+import type { Database, TicketSetRow, PrizeWinner, PendingClaim, TieBreak, CustomPrizeDefinition } from './supabase-types';
 import { supabaseAuth } from './supabase-auth';
 import { supabaseGame } from './supabase-game';
+import type { NumberSequenceOptions } from './number-sequence';
 
 // Initialize Supabase client
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -75,7 +76,23 @@ export type {
   CallNextNumberParams,
   CallNextNumberResponse,
   EndGameParams,
-  EndGameResponse
+  EndGameResponse,
+  HostTicketSet,
+  TicketSetRow,
+  SessionMetadata,
+  DrawVerificationData,
+  NumberSequenceSource,
+  NumberSequenceAlgorithmVersion,
+  CallingMode,
+  CallCorrection,
+  CallAuditEntry,
+  UndoLastCallResponse,
+  ClaimCheck,
+  PendingClaim,
+  TieRule,
+  TieBreak,
+  CustomPrizeRule,
+  CustomPrizeDefinition
 } from './supabase-types';
 
 // Export specialized services
@@ -240,6 +257,18 @@ class SupabaseService {
     return supabaseAuth.updateHostTemplate(hostId, templateSettings);
   }
 
+  async getCustomPrizes(hostId: string) {
+    return supabaseAuth.getCustomPrizes(hostId);
+  }
+
+  async saveCustomPrize(hostId: string, definition: CustomPrizeDefinition) {
+    return supabaseAuth.saveCustomPrize(hostId, definition);
+  }
+
+  async deleteCustomPrize(hostId: string, prizeId: string) {
+    return supabaseAuth.deleteCustomPrize(hostId, prizeId);
+  }
+
   // Game operations (delegated to supabaseGame)
   async createGame(config: CreateGameConfig) {
     return supabaseGame.createGame(config);
@@ -262,13 +291,10 @@ class SupabaseService {
   }
 
   // Game flow control (simplified - no race conditions!)
-  async startGameWithCountdown(gameId: string) {
-    return supabaseGame.startGameWithCountdown(gameId);
+  async startGameWithCountdown(gameId: string, sequenceOptions?: NumberSequenceOptions) {
+    return supabaseGame.startGameWithCountdown(gameId, sequenceOptions);
   }
 
-  async updateCountdownTime(gameId: string, timeLeft: number) {
-    return supabaseGame.updateCountdownTime(gameId, timeLeft);
-  }
 
   async activateGameAfterCountdown(gameId: string) {
     return supabaseGame.activateGameAfterCountdown(gameId);
@@ -282,6 +308,10 @@ class SupabaseService {
     return supabaseGame.resumeGame(gameId);
   }
 
+  async updateCallInterval(gameId: string, callInterval: number) {
+    return supabaseGame.updateCallInterval(gameId, callInterval);
+  }
+
   async endGame(gameId: string) {
     return supabaseGame.endGame(gameId);
   }
@@ -291,8 +321,47 @@ class SupabaseService {
     return supabaseGame.callNextNumberAndContinue(gameId);
   }
 
-  async generateGameNumbers(gameId: string) {
-    return supabaseGame.generateGameNumbers(gameId);
+  async callManualNumber(gameId: string, number: number) {
+    return supabaseGame.callManualNumber(gameId, number);
+  }
+
+  async awardPrizes(
+    prizeWinners: { [prizeId: string]: { winners: PrizeWinner[]; tieBreak?: TieBreak | null } },
+    winningNumber: number
+  ) {
+    return supabaseGame.awardPrizes(prizeWinners, winningNumber);
+  }
+
+  async holdForClaims(gameId: string, claims: PendingClaim[]) {
+    return supabaseGame.holdForClaims(gameId, claims);
+  }
+
+  async markPrizesChecked(gameId: string, calledCount: number) {
+    return supabaseGame.markPrizesChecked(gameId, calledCount);
+  }
+
+  async confirmClaim(gameId: string, prizeId: string) {
+    return supabaseGame.confirmClaim(gameId, prizeId);
+  }
+
+  async rejectClaim(gameId: string, prizeId: string) {
+    return supabaseGame.rejectClaim(gameId, prizeId);
+  }
+
+  async undoLastCall(gameId: string, reason: string) {
+    return supabaseGame.undoLastCall(gameId, reason);
+  }
+
+  async getCallAuditLog(gameId: string) {
+    return supabaseGame.getCallAuditLog(gameId);
+  }
+
+  async generateGameNumbers(gameId: string, sequenceOptions?: NumberSequenceOptions) {
+    return supabaseGame.generateGameNumbers(gameId, sequenceOptions);
+  }
+
+  async getDrawVerificationData(gameId: string) {
+    return supabaseGame.getDrawVerificationData(gameId);
   }
 
   // Ticket operations
@@ -300,8 +369,29 @@ class SupabaseService {
     return supabaseGame.createTicket(ticketData);
   }
 
- async bookTicket(ticketId: string, playerName: string, playerPhone?: string) {
-    return supabaseGame.bookTicket(ticketId, playerName, playerPhone);
+  async seedGameTickets(gameId: string, ticketSetId: string, maxTickets: number) {
+    return supabaseGame.seedGameTickets(gameId, ticketSetId, maxTickets);
+  }
+
+  async expandGameTickets(gameId: string, newMaxTickets: number) {
+    return supabaseGame.expandGameTickets(gameId, newMaxTickets);
+  }
+
+  async shrinkGameTickets(gameId: string, newMaxTickets: number) {
+    return supabaseGame.shrinkGameTickets(gameId, newMaxTickets);
+  }
+
+  async updateGameAndTemplate(gameId: string, hostId: string, settings: {
+    maxTickets: number;
+    hostPhone: string;
+    selectedPrizes: string[];
+    selectedTicketSet: string;
+  }) {
+    return supabaseGame.updateGameAndTemplate(gameId, hostId, settings);
+  }
+
+ async bookTicket(ticketId: string, playerName: string, playerPhone?: string, gameId?: string) {
+    return supabaseGame.bookTicket(ticketId, playerName, playerPhone, gameId);
   }
 
   async unbookTicket(gameId: string, ticketId: string) {
@@ -312,6 +402,19 @@ class SupabaseService {
     return supabaseGame.markTicketNumber(ticketId, number);
   }
 
+  // Host ticket sets
+  async getHostTicketSets(hostId: string) {
+    return supabaseGame.getHostTicketSets(hostId);
+  }
+
+  async saveHostTicketSet(hostId: string, name: string, rows: TicketSetRow[]) {
+    return supabaseGame.saveHostTicketSet(hostId, name, rows);
+  }
+
+  async deleteHostTicketSet(hostTicketSetId: string) {
+    return supabaseGame.deleteHostTicketSet(hostTicketSetId);
+  }
+
   // Prize operations
   async updatePrize(prizeId: string, updates: UpdatePrizeData) {
     return supabaseGame.updatePrize(prizeId, updates);
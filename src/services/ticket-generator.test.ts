@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NUMBERS_PER_ROW,
+  STRIP_COLUMN_COUNT,
+  STRIP_ROW_COUNT,
+  STRIP_TICKET_COUNT,
+  createSeededRandom,
+  generateStrip,
+  generateTicketSetRows,
+  getColumnNumbers
+} from './ticket-generator';
+
+const SEEDS = [1, 7, 42, 2024, 0x7FFFFFFF];
+
+const getColumn = (ticket: number[][], column: number): number[] =>
+  ticket.map(row => row[column]).filter(num => num > 0);
+
+describe('getColumnNumbers', () => {
+  it('splits 1-90 into 1-9, 10-19, ..., 80-90', () => {
+    expect(getColumnNumbers(0)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(getColumnNumbers(4)).toHaveLength(10);
+    expect(getColumnNumbers(8)).toEqual([80, 81, 82, 83, 84, 85, 86, 87, 88, 89, 90]);
+    expect(Array.from({ length: STRIP_COLUMN_COUNT }, (_, column) => getColumnNumbers(column)).flat())
+      .toEqual(Array.from({ length: 90 }, (_, i) => i + 1));
+  });
+});
+
+describe('generateStrip', () => {
+  it.each(SEEDS)('covers 1-90 exactly once with seed %i', seed => {
+    const strip = generateStrip(createSeededRandom(seed));
+    const numbers = strip.flat(2).filter(num => num > 0).sort((a, b) => a - b);
+
+    expect(strip).toHaveLength(STRIP_TICKET_COUNT);
+    expect(numbers).toEqual(Array.from({ length: 90 }, (_, i) => i + 1));
+  });
+
+  it.each(SEEDS)('lays out every ticket as a valid 3x9 grid with seed %i', seed => {
+    for (const ticket of generateStrip(createSeededRandom(seed))) {
+      expect(ticket).toHaveLength(STRIP_ROW_COUNT);
+
+      for (const row of ticket) {
+        expect(row).toHaveLength(STRIP_COLUMN_COUNT);
+        expect(row.filter(num => num > 0)).toHaveLength(NUMBERS_PER_ROW);
+      }
+
+      for (let column = 0; column < STRIP_COLUMN_COUNT; column++) {
+        const numbers = getColumn(ticket, column);
+        const allowed = getColumnNumbers(column);
+
+        expect(numbers.length).toBeGreaterThanOrEqual(1);
+        expect(numbers.every(num => allowed.includes(num))).toBe(true);
+        expect(numbers).toEqual([...numbers].sort((a, b) => a - b));
+      }
+    }
+  });
+});
+
+describe('generateTicketSetRows', () => {
+  it('gives the same rows for the same seed', () => {
+    expect(generateTicketSetRows(99, 3)).toEqual(generateTicketSetRows(99, 3));
+    expect(generateTicketSetRows(99, 3)).not.toEqual(generateTicketSetRows(100, 3));
+  });
+
+  it('numbers sets, tickets and rows from 1', () => {
+    const rows = generateTicketSetRows(5, 2);
+
+    expect(rows).toHaveLength(2 * STRIP_TICKET_COUNT * STRIP_ROW_COUNT);
+    expect(rows[0]).toMatchObject({ setId: 1, ticketId: 1, rowId: 1 });
+    expect(rows[rows.length - 1]).toMatchObject({ setId: 2, ticketId: 12, rowId: 3 });
+    expect(new Set(rows.map(row => row.ticketId)).size).toBe(12);
+  });
+});
@@ -0,0 +1,183 @@
+// src/services/ticket-generator.ts - Seeded generator for valid 90-ball ticket strips
+
+import type { TicketSetRow } from './ticket-sets';
+
+// ================== CONSTANTS ==================
+
+export const STRIP_TICKET_COUNT = 6;
+export const STRIP_COLUMN_COUNT = 9;
+export const STRIP_ROW_COUNT = 3;
+export const NUMBERS_PER_ROW = 5;
+
+const MAX_STRIP_ATTEMPTS = 100;
+
+// ================== RANDOM ==================
+
+export type RandomFn = () => number;
+
+/**
+ * Small deterministic PRNG (mulberry32) - same seed, same strips
+ */
+export const createSeededRandom = (seed: number): RandomFn => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Random 31-bit seed for a new generated ticket set
+ */
+export const createRandomSeed = (): number => Math.floor(Math.random() * 0x7FFFFFFF) + 1;
+
+const shuffle = <T>(items: T[], random: RandomFn): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// ================== COLUMNS ==================
+
+/**
+ * Numbers belonging to a column: 1-9, 10-19, ..., 80-90
+ */
+export const getColumnNumbers = (column: number): number[] => {
+  const start = column === 0 ? 1 : column * 10;
+  const end = column === STRIP_COLUMN_COUNT - 1 ? 90 : column * 10 + 9;
+  const numbers: number[] = [];
+  for (let n = start; n <= end; n++) {
+    numbers.push(n);
+  }
+  return numbers;
+};
+
+/**
+ * Decides how many numbers each ticket gets in each column.
+ * Every ticket starts with one number per column, then the leftovers are
+ * handed out (max 3 per ticket column) until every ticket holds 15.
+ */
+const distributeColumnCounts = (random: RandomFn): number[][] | null => {
+  const counts = Array.from({ length: STRIP_TICKET_COUNT }, () => new Array(STRIP_COLUMN_COUNT).fill(1));
+  const needed = new Array(STRIP_TICKET_COUNT).fill(NUMBERS_PER_ROW * STRIP_ROW_COUNT - STRIP_COLUMN_COUNT);
+
+  const columns = shuffle(
+    Array.from({ length: STRIP_COLUMN_COUNT }, (_, column) => column),
+    random
+  ).sort((a, b) => getColumnNumbers(b).length - getColumnNumbers(a).length);
+
+  for (const column of columns) {
+    let leftover = getColumnNumbers(column).length - STRIP_TICKET_COUNT;
+
+    while (leftover > 0) {
+      const candidates = shuffle(
+        Array.from({ length: STRIP_TICKET_COUNT }, (_, ticket) => ticket),
+        random
+      )
+        .filter(ticket => needed[ticket] > 0 && counts[ticket][column] < STRIP_ROW_COUNT)
+        .sort((a, b) => needed[b] - needed[a] || counts[a][column] - counts[b][column]);
+
+      if (candidates.length === 0) return null;
+
+      const ticket = candidates[0];
+      counts[ticket][column]++;
+      needed[ticket]--;
+      leftover--;
+    }
+  }
+
+  return needed.every(n => n === 0) ? counts : null;
+};
+
+/**
+ * Places a ticket's column counts into 3 rows of exactly 5 numbers.
+ * Columns with the most numbers go first, into the rows with the most room.
+ */
+const layoutTicket = (columnCounts: number[], random: RandomFn): boolean[][] | null => {
+  const layout = Array.from({ length: STRIP_ROW_COUNT }, () => new Array(STRIP_COLUMN_COUNT).fill(false));
+  const room = new Array(STRIP_ROW_COUNT).fill(NUMBERS_PER_ROW);
+
+  const columns = shuffle(
+    Array.from({ length: STRIP_COLUMN_COUNT }, (_, column) => column),
+    random
+  ).sort((a, b) => columnCounts[b] - columnCounts[a]);
+
+  for (const column of columns) {
+    const rows = shuffle([0, 1, 2], random)
+      .sort((a, b) => room[b] - room[a])
+      .slice(0, columnCounts[column]);
+
+    if (rows.some(row => room[row] === 0)) return null;
+
+    for (const row of rows) {
+      layout[row][column] = true;
+      room[row]--;
+    }
+  }
+
+  return room.every(r => r === 0) ? layout : null;
+};
+
+// ================== STRIPS ==================
+
+/**
+ * Generates one strip: 6 tickets of 3x9 rows (0 = blank) covering 1-90 exactly once
+ */
+export const generateStrip = (random: RandomFn): number[][][] => {
+  for (let attempt = 0; attempt < MAX_STRIP_ATTEMPTS; attempt++) {
+    const counts = distributeColumnCounts(random);
+    if (!counts) continue;
+
+    const layouts = counts.map(ticketCounts => layoutTicket(ticketCounts, random));
+    if (layouts.some(layout => !layout)) continue;
+
+    const pools = Array.from({ length: STRIP_COLUMN_COUNT }, (_, column) =>
+      shuffle(getColumnNumbers(column), random)
+    );
+
+    return layouts.map((layout, ticket) => {
+      const rows = Array.from({ length: STRIP_ROW_COUNT }, () => new Array(STRIP_COLUMN_COUNT).fill(0));
+
+      for (let column = 0; column < STRIP_COLUMN_COUNT; column++) {
+        // Numbers run top to bottom in ascending order within a column
+        const numbers = pools[column].splice(0, counts[ticket][column]).sort((a, b) => a - b);
+        let next = 0;
+        for (let row = 0; row < STRIP_ROW_COUNT; row++) {
+          if (layout![row][column]) {
+            rows[row][column] = numbers[next++];
+          }
+        }
+      }
+
+      return rows;
+    });
+  }
+
+  throw new Error('Unable to generate a valid ticket strip');
+};
+
+/**
+ * Generates a full ticket set in the same row format as public/data/*.json
+ */
+export const generateTicketSetRows = (seed: number, stripCount: number): TicketSetRow[] => {
+  const random = createSeededRandom(seed);
+  const rows: TicketSetRow[] = [];
+  let ticketId = 0;
+
+  for (let setId = 1; setId <= stripCount; setId++) {
+    for (const ticket of generateStrip(random)) {
+      ticketId++;
+      ticket.forEach((numbers, index) => {
+        rows.push({ setId, ticketId, rowId: index + 1, numbers });
+      });
+    }
+  }
+
+  return rows;
+};
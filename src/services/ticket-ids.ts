@@ -0,0 +1,164 @@
+// src/services/ticket-ids.ts - Human-readable ticket ID schemes
+//
+// Tickets are always stored under their plain number ("1", "2", ...) - that is
+// the key of gameData.tickets and what winners record. The scheme only changes
+// how the ID is shown; every lookup resolves any of the forms back to the number.
+
+import type { TicketIdScheme } from './supabase-types';
+import type { GameTicket } from './prize-registry';
+
+export type { TicketIdScheme } from './supabase-types';
+
+// ================== CONFIGURATION ==================
+
+export interface TicketIdFormat {
+  scheme: TicketIdScheme;
+  prefix?: string;
+}
+
+export interface TicketIdSchemeOption {
+  id: TicketIdScheme;
+  name: string;
+  example: string;
+}
+
+export const DEFAULT_TICKET_ID_SCHEME: TicketIdScheme = 'plain';
+export const DEFAULT_TICKET_ID_PREFIX = 'T';
+export const PADDED_TICKET_ID_LENGTH = 3;
+export const MAX_TICKET_ID_PREFIX_LENGTH = 6;
+
+export const TICKET_ID_SCHEMES: TicketIdSchemeOption[] = [
+  { id: 'plain', name: 'Plain numbers', example: '7' },
+  { id: 'padded', name: 'Zero-padded', example: '007' },
+  { id: 'set-position', name: 'Set + position', example: 'S2-1' },
+  { id: 'prefix', name: 'Custom prefix', example: 'T7' }
+];
+
+// Ticket fields the schemes need - both DB rows mapped by GameDataProvider and TambolaTicket fit
+interface IdentifiableTicket {
+  ticketId: string;
+  setId?: number;
+  positionInSet?: number;
+}
+
+type TicketMap<T extends IdentifiableTicket> = { [ticketId: string]: T };
+
+const SET_POSITION_PATTERN = /^S?\s*(\d+)\s*[-/.]\s*(\d+)$/i;
+const PREFIXED_NUMBER_PATTERN = /^([A-Z]*)[\s#-]*0*(\d+)$/i;
+
+/**
+ * Prefixes are letters only so they can't be confused with the number
+ */
+export const normalizeTicketIdPrefix = (prefix?: string | null): string =>
+  (prefix || '').replace(/[^A-Za-z]/g, '').slice(0, MAX_TICKET_ID_PREFIX_LENGTH).toUpperCase();
+
+/**
+ * Scheme for a game - games created before schemes existed use plain numbers
+ */
+export const getTicketIdFormat = (game?: { ticket_id_scheme?: string | null; ticket_id_prefix?: string | null } | null): TicketIdFormat => {
+  const scheme = TICKET_ID_SCHEMES.some(option => option.id === game?.ticket_id_scheme)
+    ? (game.ticket_id_scheme as TicketIdScheme)
+    : DEFAULT_TICKET_ID_SCHEME;
+
+  return scheme === 'prefix'
+    ? { scheme, prefix: normalizeTicketIdPrefix(game?.ticket_id_prefix) || DEFAULT_TICKET_ID_PREFIX }
+    : { scheme };
+};
+
+// ================== FORMATTING ==================
+
+/**
+ * Display form of a ticket's ID. Set + position falls back to the plain number
+ * for tickets without set data
+ */
+export const formatTicketId = (ticket: IdentifiableTicket, format?: TicketIdFormat): string => {
+  const ticketId = ticket.ticketId;
+
+  switch (format?.scheme) {
+    case 'padded':
+      return ticketId.padStart(PADDED_TICKET_ID_LENGTH, '0');
+    case 'set-position':
+      return ticket.setId && ticket.positionInSet ? `S${ticket.setId}-${ticket.positionInSet}` : ticketId;
+    case 'prefix':
+      return `${format.prefix || DEFAULT_TICKET_ID_PREFIX}${ticketId}`;
+    default:
+      return ticketId;
+  }
+};
+
+/**
+ * Display form of a stored ticket ID (or comma-separated list, as multi-ticket
+ * prize winners record them)
+ */
+export const formatStoredTicketIds = (
+  ticketIds: string,
+  tickets: TicketMap<IdentifiableTicket> | undefined,
+  format?: TicketIdFormat
+): string =>
+  (ticketIds || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .map(id => {
+      const ticket = resolveTicket(id, tickets);
+      return ticket ? formatTicketId(ticket, format) : id;
+    })
+    .join(', ');
+
+// ================== RESOLUTION ==================
+
+/**
+ * Stored ticket ID for any accepted form: "7", "007", "S2-1", "T7", "T-007" or "#7".
+ * Returns null when no ticket in the map matches
+ */
+export const resolveTicketId = (
+  input: string | number | undefined | null,
+  tickets: TicketMap<IdentifiableTicket> | undefined
+): string | null => {
+  if (input === undefined || input === null || !tickets) return null;
+
+  const query = input.toString().trim();
+  if (!query) return null;
+
+  if (tickets[query]) return query;
+
+  const setPosition = query.match(SET_POSITION_PATTERN);
+  if (setPosition) {
+    const setId = parseInt(setPosition[1], 10);
+    const positionInSet = parseInt(setPosition[2], 10);
+    const match = Object.values(tickets).find(
+      ticket => ticket?.setId === setId && ticket?.positionInSet === positionInSet
+    );
+    if (match) return match.ticketId;
+  }
+
+  const prefixed = query.match(PREFIXED_NUMBER_PATTERN);
+  if (prefixed) {
+    const ticketId = parseInt(prefixed[2], 10).toString();
+    if (tickets[ticketId]) return ticketId;
+  }
+
+  return null;
+};
+
+export const resolveTicket = <T = GameTicket>(
+  input: string | number | undefined | null,
+  tickets: { [ticketId: string]: T } | undefined
+): T | null => {
+  const ticketId = resolveTicketId(input, tickets as unknown as TicketMap<IdentifiableTicket>);
+  return ticketId ? tickets[ticketId] : null;
+};
+
+/**
+ * Whether two IDs, in any of the accepted forms, name the same ticket
+ */
+export const isSameTicketId = (
+  a: string | undefined,
+  b: string | undefined,
+  tickets: TicketMap<IdentifiableTicket> | undefined
+): boolean => {
+  if (!a || !b) return false;
+  if (a === b) return true;
+  const resolved = resolveTicketId(a, tickets);
+  return !!resolved && resolved === resolveTicketId(b, tickets);
+};
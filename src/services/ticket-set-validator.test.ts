@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { generateTicketSetRows } from './ticket-generator';
+import { getColumnRange, getTicketSetErrors, validateTicketSetRows } from './ticket-set-validator';
+import type { TicketSetRow } from './ticket-sets';
+
+const cloneRows = (rows: TicketSetRow[]): TicketSetRow[] =>
+  rows.map(row => ({ ...row, numbers: [...row.numbers] }));
+
+const getSetErrors = (rows: unknown): string[] => getTicketSetErrors(validateTicketSetRows(rows));
+
+describe('getColumnRange', () => {
+  it('matches the 90-ball column ranges', () => {
+    expect(getColumnRange(0)).toEqual([1, 9]);
+    expect(getColumnRange(3)).toEqual([30, 39]);
+    expect(getColumnRange(8)).toEqual([80, 90]);
+  });
+});
+
+describe('validateTicketSetRows', () => {
+  const rows = generateTicketSetRows(314, 4);
+
+  it('accepts generated strips', () => {
+    const result = validateTicketSetRows(rows);
+
+    expect(result.valid).toBe(true);
+    expect(result.rowCount).toBe(rows.length);
+    expect(result.ticketCount).toBe(24);
+    expect(result.sets.map(set => set.setId)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('rejects anything but a list of rows', () => {
+    expect(validateTicketSetRows({ rows }).valid).toBe(false);
+    expect(getSetErrors(null)).toEqual(['Ticket set is not a list of rows']);
+  });
+
+  it('reports rows without positive integer IDs', () => {
+    const broken = cloneRows(rows);
+    broken[4] = { ...broken[4], ticketId: 0 };
+
+    expect(getSetErrors(broken)).toContain('entry 5: setId, ticketId and rowId must be positive integers');
+  });
+
+  it('reports a ticket that appears in two sets', () => {
+    const broken = cloneRows(rows);
+    const moved = broken.find(row => row.setId === 2)!;
+    moved.ticketId = 1;
+
+    expect(getSetErrors(broken)).toContain('ticket 1 appears in both set 1 and set 2');
+  });
+
+  it('reports a set without six tickets', () => {
+    const broken = rows.filter(row => row.ticketId !== 7);
+    const result = validateTicketSetRows(broken);
+
+    expect(result.valid).toBe(false);
+    expect(result.sets[1].errors).toContain('has 5 tickets, expected 6');
+    expect(result.sets[0].errors).toEqual([]);
+  });
+
+  it('reports a number outside its column, and the coverage it breaks', () => {
+    const broken = cloneRows(rows);
+    const row = broken[0];
+    const column = row.numbers.findIndex(num => num > 0);
+    const original = row.numbers[column];
+    row.numbers[column] = column === 8 ? 1 : 90;
+
+    const errors = getSetErrors(broken);
+    expect(errors.some(error => error.startsWith(`Set 1: ticket 1 row 1: ${row.numbers[column]} is outside column ${column + 1}`))).toBe(true);
+    expect(errors.some(error => error.startsWith('Set 1: missing numbers') && error.includes(String(original)))).toBe(true);
+    expect(errors.some(error => error.startsWith('Set 1: repeated numbers'))).toBe(true);
+  });
+
+  it('reports rows without five numbers', () => {
+    const broken = cloneRows(rows);
+    const row = broken[0];
+    row.numbers[row.numbers.findIndex(num => num > 0)] = 0;
+
+    expect(getSetErrors(broken)).toContain('Set 1: ticket 1 row 1: has 4 numbers, expected 5');
+  });
+
+  it('reports a column that does not ascend down the ticket', () => {
+    const broken = cloneRows(rows);
+    const ticket = broken.filter(row => row.ticketId === 1);
+    const column = ticket[0].numbers.findIndex((num, index) => num > 0 && ticket.slice(1).some(row => row.numbers[index] > 0));
+    const lower = ticket.slice(1).find(row => row.numbers[column] > 0)!;
+    [ticket[0].numbers[column], lower.numbers[column]] = [lower.numbers[column], ticket[0].numbers[column]];
+
+    expect(getSetErrors(broken).some(error => error.startsWith(`Set 1: ticket 1: column ${column + 1} is not ascending`))).toBe(true);
+  });
+
+  it('reports a ticket with an empty column', () => {
+    const broken = cloneRows(rows);
+    for (const row of broken.filter(row => row.ticketId === 1)) {
+      row.numbers[0] = 0;
+    }
+
+    expect(getSetErrors(broken)).toContain('Set 1: ticket 1: column 1 is empty');
+  });
+
+  it('reports tickets without three distinct rows', () => {
+    const broken = cloneRows(rows);
+    broken.find(row => row.ticketId === 2 && row.rowId === 3)!.rowId = 2;
+
+    expect(getSetErrors(broken)).toContain('Set 1: ticket 2: duplicate row IDs 2');
+  });
+});
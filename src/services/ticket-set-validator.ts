@@ -0,0 +1,240 @@
+// src/services/ticket-set-validator.ts - Checks that ticket set files hold valid Tambola strips
+
+import type { TicketSetRow } from './ticket-sets';
+
+// ================== CONSTANTS ==================
+
+const ROWS_PER_TICKET = 3;
+const COLUMNS_PER_ROW = 9;
+const NUMBERS_PER_ROW = 5;
+const TICKETS_PER_SET = 6;
+const TOTAL_NUMBERS = 90;
+
+// ================== TYPES ==================
+
+export interface TicketSetReport {
+  setId: number;
+  ticketCount: number;
+  rowCount: number;
+  errors: string[];
+}
+
+export interface TicketSetValidationResult {
+  valid: boolean;
+  rowCount: number;
+  ticketCount: number;
+  sets: TicketSetReport[];
+  // Problems that can't be tied to a single set (malformed rows, duplicate ticket IDs across sets)
+  errors: string[];
+}
+
+// ================== HELPERS ==================
+
+/**
+ * Valid number range for a column: 1-9, 10-19, ..., 80-90
+ */
+export const getColumnRange = (column: number): [number, number] => {
+  const min = column === 0 ? 1 : column * 10;
+  const max = column === COLUMNS_PER_ROW - 1 ? TOTAL_NUMBERS : column * 10 + 9;
+  return [min, max];
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const describeRow = (row: TicketSetRow): string => `ticket ${row.ticketId} row ${row.rowId}`;
+
+/**
+ * Checks the shape and contents of a single row, independent of its ticket
+ */
+const validateRow = (row: TicketSetRow): string[] => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(row.numbers) || row.numbers.length !== COLUMNS_PER_ROW) {
+    return [`${describeRow(row)}: expected ${COLUMNS_PER_ROW} cells, got ${Array.isArray(row.numbers) ? row.numbers.length : 'none'}`];
+  }
+
+  const filled = row.numbers.filter(n => n !== 0);
+  if (filled.length !== NUMBERS_PER_ROW) {
+    errors.push(`${describeRow(row)}: has ${filled.length} numbers, expected ${NUMBERS_PER_ROW}`);
+  }
+
+  row.numbers.forEach((number, column) => {
+    if (number === 0) return;
+
+    const [min, max] = getColumnRange(column);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      errors.push(`${describeRow(row)}: ${number} is outside column ${column + 1} (${min}-${max})`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Checks one ticket's rows: row IDs, ascending columns and no empty columns
+ */
+const validateTicket = (ticketId: number, rows: TicketSetRow[]): string[] => {
+  const errors: string[] = [];
+  const rowIds = rows.map(row => row.rowId);
+
+  const duplicateRowIds = rowIds.filter((rowId, index) => rowIds.indexOf(rowId) !== index);
+  if (duplicateRowIds.length > 0) {
+    errors.push(`ticket ${ticketId}: duplicate row IDs ${Array.from(new Set(duplicateRowIds)).join(', ')}`);
+  }
+
+  if (rows.length !== ROWS_PER_TICKET) {
+    errors.push(`ticket ${ticketId}: has ${rows.length} rows, expected ${ROWS_PER_TICKET}`);
+    return errors;
+  }
+
+  const sortedRows = [...rows].sort((a, b) => a.rowId - b.rowId);
+  if (sortedRows.some(row => !Array.isArray(row.numbers) || row.numbers.length !== COLUMNS_PER_ROW)) {
+    return errors;
+  }
+
+  for (let column = 0; column < COLUMNS_PER_ROW; column++) {
+    const columnNumbers = sortedRows.map(row => row.numbers[column]).filter(n => n !== 0);
+
+    if (columnNumbers.length === 0) {
+      errors.push(`ticket ${ticketId}: column ${column + 1} is empty`);
+      continue;
+    }
+
+    for (let i = 1; i < columnNumbers.length; i++) {
+      if (columnNumbers[i] <= columnNumbers[i - 1]) {
+        errors.push(`ticket ${ticketId}: column ${column + 1} is not ascending (${columnNumbers.join(', ')})`);
+        break;
+      }
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Checks that a set's tickets cover 1-90 exactly once
+ */
+const validateCoverage = (rows: TicketSetRow[]): string[] => {
+  const errors: string[] = [];
+  const seen = new Map<number, number>();
+
+  for (const row of rows) {
+    if (!Array.isArray(row.numbers)) continue;
+    for (const number of row.numbers) {
+      if (number === 0) continue;
+      seen.set(number, (seen.get(number) || 0) + 1);
+    }
+  }
+
+  const missing: number[] = [];
+  const duplicated: number[] = [];
+  for (let number = 1; number <= TOTAL_NUMBERS; number++) {
+    const count = seen.get(number) || 0;
+    if (count === 0) missing.push(number);
+    if (count > 1) duplicated.push(number);
+  }
+
+  if (missing.length > 0) {
+    errors.push(`missing numbers ${missing.join(', ')}`);
+  }
+  if (duplicated.length > 0) {
+    errors.push(`repeated numbers ${duplicated.join(', ')}`);
+  }
+
+  return errors;
+};
+
+// ================== VALIDATION ==================
+
+/**
+ * Validates the rows of a ticket set file (public/data/*.json format)
+ */
+export const validateTicketSetRows = (rows: unknown): TicketSetValidationResult => {
+  const result: TicketSetValidationResult = {
+    valid: false,
+    rowCount: 0,
+    ticketCount: 0,
+    sets: [],
+    errors: []
+  };
+
+  if (!Array.isArray(rows)) {
+    result.errors.push('Ticket set is not a list of rows');
+    return result;
+  }
+
+  result.rowCount = rows.length;
+
+  const rowsBySet = new Map<number, TicketSetRow[]>();
+  const setByTicket = new Map<number, number>();
+
+  rows.forEach((row: TicketSetRow, index) => {
+    if (!row || !isPositiveInteger(row.setId) || !isPositiveInteger(row.ticketId) || !isPositiveInteger(row.rowId)) {
+      result.errors.push(`entry ${index + 1}: setId, ticketId and rowId must be positive integers`);
+      return;
+    }
+
+    const ticketSet = setByTicket.get(row.ticketId);
+    if (ticketSet !== undefined && ticketSet !== row.setId) {
+      result.errors.push(`ticket ${row.ticketId} appears in both set ${ticketSet} and set ${row.setId}`);
+      return;
+    }
+    setByTicket.set(row.ticketId, row.setId);
+
+    if (!rowsBySet.has(row.setId)) {
+      rowsBySet.set(row.setId, []);
+    }
+    rowsBySet.get(row.setId)!.push(row);
+  });
+
+  const setIds = Array.from(rowsBySet.keys()).sort((a, b) => a - b);
+
+  for (const setId of setIds) {
+    const setRows = rowsBySet.get(setId)!;
+    const ticketRows = new Map<number, TicketSetRow[]>();
+
+    for (const row of setRows) {
+      if (!ticketRows.has(row.ticketId)) {
+        ticketRows.set(row.ticketId, []);
+      }
+      ticketRows.get(row.ticketId)!.push(row);
+    }
+
+    const errors: string[] = [];
+
+    if (ticketRows.size !== TICKETS_PER_SET) {
+      errors.push(`has ${ticketRows.size} tickets, expected ${TICKETS_PER_SET}`);
+    }
+
+    for (const row of setRows) {
+      errors.push(...validateRow(row));
+    }
+
+    const ticketIds = Array.from(ticketRows.keys()).sort((a, b) => a - b);
+    for (const ticketId of ticketIds) {
+      errors.push(...validateTicket(ticketId, ticketRows.get(ticketId)!));
+    }
+
+    errors.push(...validateCoverage(setRows));
+
+    result.ticketCount += ticketRows.size;
+    result.sets.push({
+      setId,
+      ticketCount: ticketRows.size,
+      rowCount: setRows.length,
+      errors
+    });
+  }
+
+  result.valid = result.errors.length === 0 && result.sets.every(set => set.errors.length === 0);
+  return result;
+};
+
+/**
+ * Flattens a validation result into readable messages, prefixed with the set
+ */
+export const getTicketSetErrors = (result: TicketSetValidationResult): string[] => [
+  ...result.errors,
+  ...result.sets.flatMap(set => set.errors.map(error => `Set ${set.setId}: ${error}`))
+];
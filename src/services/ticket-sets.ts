@@ -0,0 +1,295 @@
+// src/services/ticket-sets.ts - Ticket set loader for seeding game tickets
+
+import { computeTicketMetadata } from './prize-engine';
+import { generateTicketSetRows, createRandomSeed } from './ticket-generator';
+import { validateTicketSetRows, getTicketSetErrors } from './ticket-set-validator';
+import { generateBingoCards } from './bingo-cards';
+import type { TambolaTicket, CreateTicketData, TicketSetRow } from './supabase-types';
+
+export type { TicketSetRow } from './supabase-types';
+
+// ================== CONSTANTS ==================
+
+export const TICKETS_PER_STRIP = 6;
+export const DEFAULT_TICKET_SET_ID = '1';
+export const GENERATED_TICKET_SET_ID = 'generated';
+export const GENERATED_STRIP_COUNT = 100;
+export const BINGO_TICKET_SET_ID = 'bingo';
+export const BINGO_CARD_COUNT = 600;
+export const CUSTOM_TICKET_SET_PREFIX = 'custom';
+export const CELLS_PER_TICKET = 27;
+
+// ================== TYPES ==================
+
+/**
+ * A fully assembled ticket from a ticket set file
+ */
+export interface TicketSetTicket {
+  setId: number;
+  positionInSet: number;
+  rows: number[][];
+}
+
+// ================== SET IDS ==================
+
+/**
+ * Generated sets (90-ball strips or 75-ball cards) are stored per game as
+ * "<kind>:<seed>" so the same tickets can be rebuilt later
+ */
+export const parseTicketSetSeed = (ticketSetId: string, kind: string): number | null => {
+  const [prefix, seed] = ticketSetId.split(':');
+  if (prefix !== kind || !seed) return null;
+
+  const parsed = parseInt(seed, 10);
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Host-uploaded sets are referenced as "custom:<host_ticket_sets.id>"
+ */
+export const getCustomTicketSetId = (hostTicketSetId: string): string =>
+  `${CUSTOM_TICKET_SET_PREFIX}:${hostTicketSetId}`;
+
+export const parseCustomTicketSetId = (ticketSetId: string): string | null => {
+  const [prefix, id] = ticketSetId.split(':');
+  return prefix === CUSTOM_TICKET_SET_PREFIX && id ? id : null;
+};
+
+/**
+ * Turns the host's ticket set choice into the ID stored on the game
+ */
+export const resolveTicketSetId = (ticketSetId?: string): string => {
+  if (!ticketSetId) return DEFAULT_TICKET_SET_ID;
+  if (ticketSetId === GENERATED_TICKET_SET_ID || ticketSetId === BINGO_TICKET_SET_ID) {
+    return `${ticketSetId}:${createRandomSeed()}`;
+  }
+  return ticketSetId;
+};
+
+// ================== LOADING ==================
+
+const ticketSetCache = new Map<string, TicketSetTicket[]>();
+
+/**
+ * Fetches the raw rows of a bundled ticket set
+ */
+export const fetchTicketSetRows = async (ticketSetId: string): Promise<TicketSetRow[]> => {
+  const response = await fetch(`/data/${ticketSetId}.json`);
+  if (!response.ok) {
+    throw new Error(`Ticket set ${ticketSetId} not found (HTTP ${response.status})`);
+  }
+
+  const rows = await response.json();
+  if (!Array.isArray(rows)) {
+    throw new Error(`Ticket set ${ticketSetId} is not a list of rows`);
+  }
+
+  return rows as TicketSetRow[];
+};
+
+/**
+ * Groups raw rows into 3x9 tickets, ordered strip by strip
+ */
+export const assembleTicketSet = (rows: TicketSetRow[]): TicketSetTicket[] => {
+  const ticketRows = new Map<number, TicketSetRow[]>();
+
+  for (const row of rows) {
+    if (!ticketRows.has(row.ticketId)) {
+      ticketRows.set(row.ticketId, []);
+    }
+    ticketRows.get(row.ticketId)!.push(row);
+  }
+
+  const ticketIds = Array.from(ticketRows.keys()).sort((a, b) => a - b);
+  const positionsBySet = new Map<number, number>();
+  const tickets: TicketSetTicket[] = [];
+
+  for (const ticketId of ticketIds) {
+    const sortedRows = ticketRows.get(ticketId)!.sort((a, b) => a.rowId - b.rowId);
+    const setId = sortedRows[0].setId;
+    const positionInSet = (positionsBySet.get(setId) || 0) + 1;
+    positionsBySet.set(setId, positionInSet);
+
+    tickets.push({
+      setId,
+      positionInSet,
+      rows: sortedRows.map(row => [...row.numbers])
+    });
+  }
+
+  return tickets.sort((a, b) => a.setId - b.setId || a.positionInSet - b.positionInSet);
+};
+
+/**
+ * Validates and assembles rows into a ticket set, caching the result
+ */
+export const prepareTicketSet = (ticketSetId: string, rows: TicketSetRow[]): TicketSetTicket[] => {
+  const validation = validateTicketSetRows(rows);
+  if (!validation.valid) {
+    const errors = getTicketSetErrors(validation);
+    console.error(`❌ Ticket set ${ticketSetId} is invalid:`, errors);
+    throw new Error(`Ticket set ${ticketSetId} is invalid: ${errors[0]}`);
+  }
+
+  const tickets = assembleTicketSet(rows);
+  ticketSetCache.set(ticketSetId, tickets);
+
+  console.log(`🎫 Ticket set ${ticketSetId} loaded: ${tickets.length} tickets`);
+  return tickets;
+};
+
+/**
+ * Loads and assembles a bundled or generated ticket set, or a deck of
+ * 75-ball cards (cached per set).
+ * Custom sets live in the database and go through prepareTicketSet instead.
+ */
+export const loadTicketSet = async (ticketSetId: string): Promise<TicketSetTicket[]> => {
+  const cached = ticketSetCache.get(ticketSetId);
+  if (cached) return cached;
+
+  const bingoSeed = parseTicketSetSeed(ticketSetId, BINGO_TICKET_SET_ID);
+  if (bingoSeed !== null) {
+    // 75-ball cards stand alone - each card is its own "set"
+    const cards = generateBingoCards(bingoSeed, BINGO_CARD_COUNT).map((rows, index) => ({
+      setId: index + 1,
+      positionInSet: 1,
+      rows
+    }));
+    ticketSetCache.set(ticketSetId, cards);
+    return cards;
+  }
+
+  const seed = parseTicketSetSeed(ticketSetId, GENERATED_TICKET_SET_ID);
+  const rows = seed !== null
+    ? generateTicketSetRows(seed, GENERATED_STRIP_COUNT)
+    : await fetchTicketSetRows(ticketSetId);
+
+  return prepareTicketSet(ticketSetId, rows);
+};
+
+export const getCachedTicketSet = (ticketSetId: string): TicketSetTicket[] | undefined =>
+  ticketSetCache.get(ticketSetId);
+
+// ================== UPLOAD PARSING ==================
+
+const EMPTY_CELLS = ['', '0', '-', 'x', 'X'];
+
+/**
+ * Parses a CSV with one ticket per line: 27 cells, row by row.
+ * Blank, 0, - or x mark an empty cell. Every 6 tickets form one strip.
+ * Blank lines are skipped. The first non-blank line is taken as a header,
+ * and skipped, when any of its cells isn't a number or empty-cell mark -
+ * anywhere else such a cell is an error. Errors give the line's number in
+ * the file, blank lines included.
+ */
+export const parseTicketSetCsv = (text: string): TicketSetRow[] => {
+  const lines = text.split(/\r?\n/)
+    .map((line, index) => ({ text: line.trim(), lineNumber: index + 1 }))
+    .filter(line => line.text.length > 0);
+  const rows: TicketSetRow[] = [];
+  let ticketIndex = 0;
+
+  lines.forEach(({ text: line, lineNumber }, index) => {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const isNumeric = cells.every(cell => EMPTY_CELLS.includes(cell) || /^\d+$/.test(cell));
+    const isHeader = index === 0 && !isNumeric;
+
+    if (isHeader) return;
+
+    if (!isNumeric) {
+      throw new Error(`Line ${lineNumber}: only numbers, blanks, 0, - or x are allowed`);
+    }
+
+    if (cells.length !== CELLS_PER_TICKET) {
+      throw new Error(`Line ${lineNumber}: expected ${CELLS_PER_TICKET} cells, got ${cells.length}`);
+    }
+
+    const numbers = cells.map(cell => (EMPTY_CELLS.includes(cell) ? 0 : parseInt(cell, 10)));
+    const setId = Math.floor(ticketIndex / TICKETS_PER_STRIP) + 1;
+    ticketIndex++;
+
+    for (let rowId = 1; rowId <= 3; rowId++) {
+      rows.push({
+        setId,
+        ticketId: ticketIndex,
+        rowId,
+        numbers: numbers.slice((rowId - 1) * 9, rowId * 9)
+      });
+    }
+  });
+
+  return rows;
+};
+
+/**
+ * Parses an uploaded ticket set file - JSON in the public/data shape, or CSV
+ */
+export const parseTicketSetFile = (fileName: string, text: string): TicketSetRow[] => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON ticket set must be a list of rows');
+    }
+    return parsed as TicketSetRow[];
+  }
+
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    return parseTicketSetCsv(text);
+  }
+
+  throw new Error('Ticket set files must be .json or .csv');
+};
+
+// ================== GAME TICKET BUILDING ==================
+
+/**
+ * Tickets to take from startIndex so the game ends on a whole strip - count
+ * rounded up to the end of the strip its last ticket is in. 75-ball cards
+ * are a set each, so their count is kept as asked
+ */
+export const getWholeStripCount = (
+  setTickets: TicketSetTicket[],
+  count: number,
+  startIndex: number = 0
+): number => {
+  let end = startIndex + count;
+  while (end > startIndex && end < setTickets.length && setTickets[end].setId === setTickets[end - 1].setId) {
+    end++;
+  }
+  return end - startIndex;
+};
+
+/**
+ * Builds ticket rows for a game, taking consecutive strips from the set.
+ * startIndex is the number of tickets the game already has, so ticket IDs
+ * and strip positions continue where the previous batch stopped. A count
+ * ending part-way through a strip takes the rest of that strip too.
+ */
+export const buildGameTickets = (
+  setTickets: TicketSetTicket[],
+  gameId: string,
+  requestedCount: number,
+  startIndex: number = 0
+): CreateTicketData[] => {
+  if (startIndex + requestedCount > setTickets.length) {
+    throw new Error(`Ticket set only has ${setTickets.length} tickets (requested ${startIndex + requestedCount})`);
+  }
+
+  const count = getWholeStripCount(setTickets, requestedCount, startIndex);
+
+  return setTickets.slice(startIndex, startIndex + count).map((setTicket, index) => ({
+    game_id: gameId,
+    ticket_id: (startIndex + index + 1).toString(),
+    player_name: '',
+    rows: setTicket.rows,
+    metadata: computeTicketMetadata({ rows: setTicket.rows } as TambolaTicket),
+    set_id: setTicket.setId,
+    position_in_set: setTicket.positionInSet
+  }));
+};
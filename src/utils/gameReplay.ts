@@ -0,0 +1,69 @@
+// src/utils/gameReplay.ts - Step-through replay of a finished game's calls
+
+export interface ReplaySpeed {
+  label: string;
+  intervalMs: number;
+}
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [
+  { label: '1x', intervalMs: 1500 },
+  { label: '2x', intervalMs: 750 },
+  { label: '4x', intervalMs: 375 },
+  { label: '8x', intervalMs: 180 }
+];
+
+// Prize fields as GameDataProvider maps them
+interface ReplayPrize {
+  id: string;
+  name: string;
+  won?: boolean;
+  order?: number;
+  winningNumber?: number;
+  winners?: { name: string; ticketId: string; phone?: string }[];
+}
+
+export interface PrizeReplayEvent<T extends ReplayPrize = ReplayPrize> {
+  prize: T;
+  // 1-based call the prize fell on, null when it can't be placed
+  callNumber: number | null;
+}
+
+export interface ReplayFrame {
+  calledNumbers: number[];
+  currentNumber: number | null;
+}
+
+/**
+ * The board as it was after `step` calls
+ */
+export const getReplayFrame = (calledNumbers: number[], step: number): ReplayFrame => {
+  const clampedStep = Math.max(0, Math.min(step, calledNumbers.length));
+  return {
+    calledNumbers: calledNumbers.slice(0, clampedStep),
+    currentNumber: clampedStep > 0 ? calledNumbers[clampedStep - 1] : null
+  };
+};
+
+/**
+ * Which call each prize fell on, from its winning number. Won prizes come
+ * first in call order; unplaced and unwon prizes follow in prize order
+ */
+export const getPrizeReplayEvents = <T extends ReplayPrize>(
+  prizes: { [prizeId: string]: T } | undefined,
+  calledNumbers: number[]
+): PrizeReplayEvent<T>[] =>
+  Object.values(prizes || {})
+    .filter(Boolean)
+    .map(prize => {
+      const index = prize.won && prize.winningNumber ? calledNumbers.indexOf(prize.winningNumber) : -1;
+      return { prize, callNumber: index >= 0 ? index + 1 : null };
+    })
+    .sort((a, b) => {
+      if (a.callNumber !== null && b.callNumber !== null && a.callNumber !== b.callNumber) {
+        return a.callNumber - b.callNumber;
+      }
+      if ((a.callNumber === null) !== (b.callNumber === null)) {
+        return a.callNumber === null ? 1 : -1;
+      }
+      return (a.prize.order || 0) - (b.prize.order || 0);
+    });
@@ -0,0 +1,199 @@
+// src/utils/ticketImage.ts - Ticket images (SVG/PNG) for sharing booking confirmations
+import { isBingoCard, FREE_CELL } from '../services/bingo-cards';
+import { BINGO_LETTERS } from '../services/game-variants';
+import { getTicketVerificationCode, type PrintableTicket } from './ticketPrint';
+
+export interface TicketImageOptions {
+  ticket: PrintableTicket;
+  gameId: string;
+  gameName: string;
+  hostName?: string;
+}
+
+// Same palette as renderTicket: amber-50 card, yellow-500 borders, white cells
+const COLORS = {
+  card: '#fffbeb',
+  border: '#eab308',
+  cell: '#ffffff',
+  emptyCell: '#f9fafb',
+  freeCell: '#bfdbfe',
+  letter: '#1d4ed8',
+  title: '#1f2937',
+  text: '#4b5563'
+};
+
+const CELL_SIZE = 44;
+const CELL_GAP = 4;
+const PADDING = 16;
+const HEADER_HEIGHT = 64;
+const FOOTER_HEIGHT = 28;
+const PNG_SCALE = 2;
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&'"]/g, char => ({
+    '<': '&lt;',
+    '>': '&gt;',
+    '&': '&amp;',
+    "'": '&apos;',
+    '"': '&quot;'
+  }[char] as string));
+
+const cellRect = (x: number, y: number, fill: string): string =>
+  `<rect x="${x}" y="${y}" width="${CELL_SIZE}" height="${CELL_SIZE}" rx="4" fill="${fill}" stroke="${COLORS.border}" stroke-width="2"/>`;
+
+const cellText = (x: number, y: number, text: string, size = 16, fill = '#000000'): string =>
+  `<text x="${x + CELL_SIZE / 2}" y="${y + CELL_SIZE / 2}" font-size="${size}" font-weight="700" fill="${fill}" ` +
+  `text-anchor="middle" dominant-baseline="central">${escapeXml(text)}</text>`;
+
+/**
+ * Renders a ticket as a standalone SVG document: game and host on top, the
+ * ticket grid in the renderTicket layout, ticket ID, player and verification code below
+ */
+export const buildTicketSvg = ({ ticket, gameId, gameName, hostName }: TicketImageOptions): string => {
+  const isBingo = isBingoCard(ticket.rows);
+  const columns = isBingo ? BINGO_LETTERS.length : 9;
+  // Bingo cards get an extra B-I-N-G-O header row
+  const gridRows = ticket.rows.length + (isBingo ? 1 : 0);
+
+  const gridWidth = columns * CELL_SIZE + (columns - 1) * CELL_GAP;
+  const gridHeight = gridRows * CELL_SIZE + (gridRows - 1) * CELL_GAP;
+  const width = gridWidth + PADDING * 2;
+  const height = HEADER_HEIGHT + gridHeight + FOOTER_HEIGHT + PADDING * 2;
+
+  const gridTop = PADDING + HEADER_HEIGHT;
+  const cellX = (column: number) => PADDING + column * (CELL_SIZE + CELL_GAP);
+  const cellY = (row: number) => gridTop + row * (CELL_SIZE + CELL_GAP);
+
+  const cells: string[] = [];
+
+  if (isBingo) {
+    BINGO_LETTERS.forEach((letter, column) => {
+      cells.push(cellText(cellX(column), cellY(0), letter, 20, COLORS.letter));
+    });
+  }
+
+  ticket.rows.forEach((rowNumbers, rowIndex) => {
+    const row = rowIndex + (isBingo ? 1 : 0);
+    rowNumbers.forEach((number, column) => {
+      const x = cellX(column);
+      const y = cellY(row);
+
+      if (isBingo && number === FREE_CELL) {
+        cells.push(cellRect(x, y, COLORS.freeCell), cellText(x, y, 'FREE', 11));
+      } else if (number === 0) {
+        cells.push(cellRect(x, y, COLORS.emptyCell));
+      } else {
+        cells.push(cellRect(x, y, COLORS.cell), cellText(x, y, number.toString()));
+      }
+    });
+  });
+
+  const footerY = gridTop + gridHeight + FOOTER_HEIGHT / 2 + 4;
+  const playerName = ticket.playerName || 'Unbooked';
+  const ticketLabel = `${isBingo ? 'Card' : 'Ticket'} #${ticket.displayId || ticket.ticketId}`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+      `font-family="Arial, Helvetica, sans-serif">`,
+    `<rect x="1" y="1" width="${width - 2}" height="${height - 2}" rx="10" fill="${COLORS.card}" stroke="${COLORS.border}" stroke-width="2"/>`,
+    `<text x="${PADDING}" y="${PADDING + 20}" font-size="20" font-weight="700" fill="${COLORS.title}">${escapeXml(gameName)}</text>`,
+    hostName
+      ? `<text x="${PADDING}" y="${PADDING + 44}" font-size="13" fill="${COLORS.text}">Hosted by ${escapeXml(hostName)}</text>`
+      : '',
+    `<text x="${width - PADDING}" y="${PADDING + 20}" font-size="16" font-weight="700" fill="${COLORS.title}" text-anchor="end">${escapeXml(ticketLabel)}</text>`,
+    `<text x="${width - PADDING}" y="${PADDING + 44}" font-size="14" fill="${COLORS.text}" text-anchor="end">${escapeXml(playerName)}</text>`,
+    ...cells,
+    `<text x="${PADDING}" y="${footerY}" font-size="12" fill="${COLORS.text}">Verification code</text>`,
+    `<text x="${width - PADDING}" y="${footerY}" font-size="14" font-weight="700" font-family="monospace" fill="${COLORS.title}" ` +
+      `text-anchor="end" letter-spacing="2">${getTicketVerificationCode(gameId, ticket)}</text>`,
+    '</svg>'
+  ].join('');
+};
+
+export const getTicketImageFileName = (ticket: PrintableTicket, extension: 'svg' | 'png'): string =>
+  `ticket-${ticket.ticketId}${ticket.playerName ? `-${ticket.playerName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}` : ''}.${extension}`;
+
+export const ticketSvgToBlob = (svg: string): Blob =>
+  new Blob([svg], { type: 'image/svg+xml' });
+
+/**
+ * Rasterises the SVG through a canvas at 2x for crisp images in chat apps
+ */
+export const ticketSvgToPngBlob = (svg: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(ticketSvgToBlob(svg));
+    const image = new Image();
+
+    image.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.width * PNG_SCALE;
+        canvas.height = image.height * PNG_SCALE;
+
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not supported in this browser');
+
+        context.scale(PNG_SCALE, PNG_SCALE);
+        context.drawImage(image, 0, 0);
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to create ticket image'))), 'image/png');
+      } catch (error) {
+        reject(error);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render ticket image'));
+    };
+
+    image.src = url;
+  });
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Opens the device share sheet with the PNG (e.g. to send on WhatsApp).
+ * Falls back to a download where file sharing isn't supported; returns
+ * whether the share sheet was used
+ */
+export const shareTicketImage = async (options: TicketImageOptions): Promise<boolean> => {
+  const fileName = getTicketImageFileName(options.ticket, 'png');
+  const ticketLabel = options.ticket.displayId || options.ticket.ticketId;
+  const blob = await ticketSvgToPngBlob(buildTicketSvg(options));
+  const file = new File([blob], fileName, { type: 'image/png' });
+
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({
+        files: [file],
+        title: `${options.gameName} - Ticket ${ticketLabel}`,
+        text: `Your ticket ${ticketLabel} for ${options.gameName} is confirmed.`
+      });
+      return true;
+    } catch (error) {
+      // Closing the share sheet isn't an error
+      if (error instanceof Error && error.name === 'AbortError') return true;
+      throw error;
+    }
+  }
+
+  downloadBlob(blob, fileName);
+  return false;
+};
+
+export const downloadTicketImage = async (options: TicketImageOptions, format: 'png' | 'svg'): Promise<void> => {
+  const svg = buildTicketSvg(options);
+  const blob = format === 'svg' ? ticketSvgToBlob(svg) : await ticketSvgToPngBlob(svg);
+  downloadBlob(blob, getTicketImageFileName(options.ticket, format));
+};
@@ -0,0 +1,129 @@
+// src/utils/ticketPrint.ts - Selection, pagination and verification codes for printed tickets
+
+// Ticket as mapped into gameData.tickets by GameDataProvider
+export interface PrintableTicket {
+  ticketId: string;
+  // Ticket ID in the game's scheme, see ticket-ids
+  displayId?: string;
+  rows: number[][];
+  isBooked?: boolean;
+  playerName?: string;
+  setId?: number;
+  positionInSet?: number;
+}
+
+export type PrintSelection =
+  | { type: 'all' }
+  | { type: 'booked' }
+  | { type: 'player'; playerName: string }
+  | { type: 'set'; setId: number };
+
+export interface PrintPage {
+  // Strip printed on the page, when paginating by strip
+  setId?: number;
+  tickets: PrintableTicket[];
+}
+
+export const TICKETS_PER_PAGE = 6;
+
+const VERIFICATION_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const VERIFICATION_LENGTH = 6;
+
+const byTicketNumber = (a: PrintableTicket, b: PrintableTicket) =>
+  (a.setId || 0) - (b.setId || 0) ||
+  (a.positionInSet || 0) - (b.positionInSet || 0) ||
+  parseInt(a.ticketId) - parseInt(b.ticketId);
+
+/**
+ * Short code printed on each ticket so a paper ticket can be checked against
+ * the game: derived from game ID, ticket ID and the ticket's numbers (FNV-1a)
+ */
+export const getTicketVerificationCode = (gameId: string, ticket: PrintableTicket): string => {
+  const source = `${gameId}:${ticket.ticketId}:${(ticket.rows || []).flat().join(',')}`;
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  let code = '';
+  for (let i = 0; i < VERIFICATION_LENGTH; i++) {
+    hash = Math.imul(hash ^ (hash >>> 15), 0x2c1b3c6d) >>> 0;
+    code += VERIFICATION_ALPHABET[hash % VERIFICATION_ALPHABET.length];
+  }
+
+  return code;
+};
+
+/**
+ * Tickets matching a print selection, in strip order
+ */
+export const selectTicketsForPrint = (
+  tickets: { [ticketId: string]: PrintableTicket },
+  selection: PrintSelection
+): PrintableTicket[] => {
+  const all = Object.values(tickets || {}).filter(ticket => ticket && Array.isArray(ticket.rows));
+
+  const selected = all.filter(ticket => {
+    switch (selection.type) {
+      case 'booked':
+        return ticket.isBooked;
+      case 'player':
+        return ticket.isBooked && ticket.playerName === selection.playerName;
+      case 'set':
+        return ticket.setId === selection.setId;
+      default:
+        return true;
+    }
+  });
+
+  return selected.sort(byTicketNumber);
+};
+
+/**
+ * Splits tickets into printed pages of up to 6. With byStrip each page holds
+ * a single strip (90-ball); bingo cards are each their own set, so they are
+ * simply packed 6 to a page
+ */
+export const paginateTicketsForPrint = (tickets: PrintableTicket[], byStrip = true): PrintPage[] => {
+  const pages: PrintPage[] = [];
+  let current: PrintPage | null = null;
+
+  for (const ticket of tickets) {
+    const stripChanged = byStrip && !!current && current.setId !== ticket.setId;
+
+    if (!current || current.tickets.length >= TICKETS_PER_PAGE || stripChanged) {
+      current = { setId: byStrip ? ticket.setId : undefined, tickets: [] };
+      pages.push(current);
+    }
+
+    current.tickets.push(ticket);
+  }
+
+  return pages;
+};
+
+/**
+ * Distinct booked player names, for the "a player's tickets" selection
+ */
+export const getBookedPlayerNames = (tickets: { [ticketId: string]: PrintableTicket }): string[] =>
+  Array.from(
+    new Set(
+      Object.values(tickets || {})
+        .filter(ticket => ticket?.isBooked && ticket.playerName)
+        .map(ticket => ticket.playerName)
+    )
+  ).sort((a, b) => a.localeCompare(b));
+
+/**
+ * Distinct set IDs present in the game, for the "a set" selection
+ */
+export const getTicketSetIds = (tickets: { [ticketId: string]: PrintableTicket }): number[] =>
+  Array.from(
+    new Set(
+      Object.values(tickets || {})
+        .map(ticket => ticket?.setId)
+        .filter((setId): setId is number => typeof setId === 'number')
+    )
+  ).sort((a, b) => a - b);
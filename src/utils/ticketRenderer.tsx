@@ -1,25 +1,29 @@
 //src/utils/ticketRenderer.tsx
 import React from 'react';
-import { TambolaTicket } from '@/services/firebase';
+import type { GameTicket, PrizeRuleParams } from '@/services/prize-registry';
 import { Clock, AlertCircle, CheckCircle } from 'lucide-react';
-import { computeTicketMetadata } from '../services/prize-engine';
+import { getPrizeType } from '../services/prize-engine';
+import { isBingoCard, FREE_CELL } from '../services/bingo-cards';
+import { BINGO_LETTERS } from '../services/game-variants';
 
 interface TicketRendererProps {
-  ticket: TambolaTicket;
+  ticket: GameTicket;
   calledNumbers: number[];
   showPlayerInfo?: boolean;
-  patternHighlight?: string; // NEW: For pattern highlighting
+  patternHighlight?: string; // Prize type key of the pattern to highlight
+  patternParams?: PrizeRuleParams; // The prize's rule params
 }
 
-// ✅ COMPLETELY FIXED: Pattern position detection with debugging
+// Pattern positions come from the prize type's highlight
 const isPatternPosition = (
   index: number, 
   prizeId?: string, 
-  ticket?: TambolaTicket, 
-  calledNumbers?: number[]
+  ticket?: GameTicket, 
+  calledNumbers: number[] = [],
+  params: PrizeRuleParams = {}
 ): boolean => {
-  if (!prizeId || !ticket?.rows || !Array.isArray(ticket.rows)) {
-    console.log(`❌ Pattern check failed: missing data`, { prizeId, hasTicket: !!ticket, hasRows: !!ticket?.rows });
+  const prizeType = getPrizeType(prizeId);
+  if (!prizeType || !ticket?.rows || !Array.isArray(ticket.rows)) {
     return false;
   }
   
@@ -28,168 +32,32 @@ const isPatternPosition = (
   
   // Safety check for row bounds
   if (row < 0 || row >= 3 || col < 0 || col >= 9) {
-    console.log(`❌ Pattern check failed: invalid position`, { index, row, col });
     return false;
   }
   
-  const currentNumber = ticket.rows[row][col];
+  const number = ticket.rows[row][col];
   
   // Skip empty positions (0) - these should never be highlighted
-  if (currentNumber === 0) {
+  if (number === 0) {
     return false;
   }
   
-  console.log(`🔍 Pattern check for ${prizeId} at index ${index} (row ${row}, col ${col}) = ${currentNumber}`);
-  
-  switch (prizeId) {
-    case 'topLine':
-      return row === 0;
-    case 'middleLine':
-      return row === 1;
-    case 'bottomLine':
-      return row === 2;
-      
-    case 'corner': {
-      // ✅ DYNAMIC CORNER DETECTION: Only actual corner numbers, not positions
-      const topNumbers = ticket.rows[0].filter(n => n > 0);
-      const bottomNumbers = ticket.rows[2].filter(n => n > 0);
-      
-      if (topNumbers.length === 0 || bottomNumbers.length === 0) {
-        console.log(`❌ Corner: No valid numbers in top/bottom rows`);
-        return false;
-      }
-      
-      // Calculate the 4 actual corner numbers (leftmost & rightmost of top/bottom)
-      const cornerNumbers = [
-        topNumbers[0],                          // Leftmost top
-        topNumbers[topNumbers.length - 1],      // Rightmost top
-        bottomNumbers[0],                       // Leftmost bottom
-        bottomNumbers[bottomNumbers.length - 1] // Rightmost bottom
-      ];
-      
-      const isCorner = cornerNumbers.includes(currentNumber);
-      console.log(`🔍 Corner check:`, { 
-        currentNumber, 
-        topNumbers, 
-        bottomNumbers, 
-        cornerNumbers, 
-        isCorner 
-      });
-      
-      return isCorner;
-    }
-    
-    case 'starCorner': {
-      // ✅ DYNAMIC STAR CORNER: 4 corners + center number
-      const topNumbers = ticket.rows[0].filter(n => n > 0);
-      const bottomNumbers = ticket.rows[2].filter(n => n > 0);
-      const middleNumbers = ticket.rows[1].filter(n => n > 0);
-      
-      if (topNumbers.length === 0 || bottomNumbers.length === 0 || middleNumbers.length === 0) {
-        console.log(`❌ Star Corner: Missing numbers in rows`);
-        return false;
-      }
-      
-      // Get the 4 corner numbers
-      const cornerNumbers = [
-        topNumbers[0],                          
-        topNumbers[topNumbers.length - 1],      
-        bottomNumbers[0],                       
-        bottomNumbers[bottomNumbers.length - 1] 
-      ];
-      
-      // Get center number (middle of middle row)
-      const centerNumber = middleNumbers[Math.floor(middleNumbers.length / 2)];
-      
-      // Combine corners + center
-      const starCornerNumbers = [...cornerNumbers, centerNumber];
-      
-      const isStarCorner = starCornerNumbers.includes(currentNumber);
-      console.log(`🔍 Star Corner check:`, { 
-        currentNumber, 
-        cornerNumbers, 
-        centerNumber, 
-        starCornerNumbers, 
-        isStarCorner 
-      });
-      
-      return isStarCorner;
-    }
-    
-    case 'earlyFive': {
-  // ✅ EARLY FIVE: Only the first 5 called numbers from this ticket
-  if (!calledNumbers || calledNumbers.length === 0) return false;
-  
-  // Get all non-zero numbers from this ticket
-  const allTicketNumbers = ticket.metadata?.allNumbers || computeTicketMetadata(ticket).allNumbers;
-  
-  // Find ticket numbers that were called, preserving call order
-  const calledTicketNumbers = calledNumbers.filter(num => allTicketNumbers.includes(num));
-  
-  // Only first 5 called numbers get highlighted
-  const firstFiveCalled = calledTicketNumbers.slice(0, 5);
-  
-  const isEarlyFive = firstFiveCalled.includes(currentNumber);
-  console.log(`🔍 Early Five check:`, { 
-    currentNumber, 
-    allTicketNumbers: allTicketNumbers.length, 
-    calledTicketNumbers: calledTicketNumbers.length,
-    firstFiveCalled, 
-    isEarlyFive 
-  });
-  
-  return isEarlyFive;
-}
-    
-   case 'fullHouse': {
-      // Full house: all non-zero positions (we already checked currentNumber > 0)
-      return true;
-    }
-    
-    case 'secondFullHouse': {
-      // Second Full House: same pattern as Full House - all non-zero positions
-      return true;
-    }
-    
-    default:
-      console.log(`❌ Unknown pattern type: ${prizeId}`);
-      return false;
-  }
+  return prizeType.highlight.isHighlighted({ row, col, number }, ticket, calledNumbers, params);
 };
 
 // Helper function for pattern names and descriptions
-const getPatternName = (prizeId: string): string => {
-  switch (prizeId) {
-    case 'earlyFive': return 'First 5 Called Numbers';
-    case 'topLine': return 'Top Line Complete';
-    case 'middleLine': return 'Middle Line Complete';
-    case 'bottomLine': return 'Bottom Line Complete';
-    case 'corner': return '4 Corner Numbers';
-    case 'starCorner': return '4 Corners + Center';
-    case 'fullHouse': return 'All Numbers';
-    case 'secondFullHouse': return 'All Numbers (Second Winner)';
-    default: return 'Winning Pattern';
-  }
-};
+const getPatternName = (prizeId: string): string =>
+  getPrizeType(prizeId)?.highlight.label || 'Winning Pattern';
+
+const getPatternDescription = (prizeId: string): string =>
+  getPrizeType(prizeId)?.highlight.description || 'Yellow borders show pattern positions';
 
-const getPatternDescription = (prizeId: string): string => {
-  switch (prizeId) {
-    case 'earlyFive': return 'Yellow borders show the first 5 numbers called from this ticket';
-    case 'corner': return 'Yellow borders show corner positions (leftmost & rightmost of top/bottom rows)';
-    case 'starCorner': return 'Yellow borders show 4 corners + center number';
-    case 'topLine': 
-    case 'middleLine': 
-    case 'bottomLine': return 'Yellow borders show the complete winning row';
-    case 'fullHouse': return 'Yellow borders show all numbers';
-    case 'secondFullHouse': return 'Yellow borders show all numbers (Second Full House winner)';
-    default: return 'Yellow borders show pattern positions';
-  }
-};
 export const renderTicket = ({ 
   ticket, 
   calledNumbers, 
   showPlayerInfo = true, 
-  patternHighlight 
+  patternHighlight,
+  patternParams
 }: TicketRendererProps) => {
   // ✅ SAFETY CHECK 1: Verify ticket exists
   if (!ticket) {
@@ -220,6 +88,11 @@ export const renderTicket = ({
     );
   }
 
+  // 75-ball bingo cards have their own 5x5 layout
+  if (isBingoCard(ticket.rows)) {
+    return renderBingoCard({ ticket, calledNumbers, showPlayerInfo, patternHighlight, patternParams });
+  }
+
   // ✅ SAFETY CHECK 3: Verify rows is an array with proper structure
   if (!Array.isArray(ticket.rows) || ticket.rows.length !== 3) {
     return (
@@ -288,7 +161,7 @@ return (
       <div className="mb-2 flex items-center justify-between px-2">
         <div className="flex items-center space-x-1">
           <CheckCircle className="w-3 h-3 text-green-600" />
-          <p className="text-sm font-semibold text-gray-800">Ticket {ticket.ticketId}</p>
+          <p className="text-sm font-semibold text-gray-800">Ticket {ticket.displayId || ticket.ticketId}</p>
         </div>
         <p className="text-sm text-gray-600">{ticket.playerName}</p>
       </div>
@@ -297,7 +170,7 @@ return (
         {allNumbers.map((number, index) => {
           const isMarked = number !== 0 && calledNumbers.includes(number);
           const isEmpty = number === 0;
-          const isPattern = isPatternPosition(index, patternHighlight, ticket, calledNumbers);
+          const isPattern = isPatternPosition(index, patternHighlight, ticket, calledNumbers, patternParams);
           
           return (
             <div
@@ -337,3 +210,75 @@ return (
     </div>
   );
 };
+
+// ================== 75-BALL BINGO CARDS ==================
+
+const renderBingoCard = ({
+  ticket,
+  calledNumbers,
+  showPlayerInfo,
+  patternHighlight,
+  patternParams = {}
+}: TicketRendererProps) => {
+  const prizeType = getPrizeType(patternHighlight);
+  const isPatternCell = (row: number, col: number) =>
+    !!prizeType?.highlight.isHighlighted({ row, col, number: ticket.rows[row][col] }, ticket, calledNumbers, patternParams);
+
+  return (
+    <div className="bg-amber-50 p-2 rounded-lg border-2 border-yellow-500">
+      {showPlayerInfo && ticket.playerName && (
+        <div className="mb-2 flex items-center justify-between px-2">
+          <div className="flex items-center space-x-1">
+            <CheckCircle className="w-3 h-3 text-green-600" />
+            <p className="text-sm font-semibold text-gray-800">Card {ticket.displayId || ticket.ticketId}</p>
+          </div>
+          <p className="text-sm text-gray-600">{ticket.playerName}</p>
+        </div>
+      )}
+      <div className="grid grid-cols-5 gap-1">
+        {BINGO_LETTERS.map(letter => (
+          <div key={letter} className="flex items-center justify-center text-sm font-black text-blue-700">
+            {letter}
+          </div>
+        ))}
+        {ticket.rows.map((rowNumbers, row) =>
+          rowNumbers.map((number, col) => {
+            const isFree = number === FREE_CELL;
+            const isMarked = isFree || calledNumbers.includes(number);
+            const isPattern = isPatternCell(row, col);
+
+            return (
+              <div
+                key={`${row}-${col}`}
+                className={`
+                  aspect-square flex items-center justify-center text-xs font-bold rounded transition-all duration-200 text-black border-2 border-yellow-500
+                  ${isFree
+                    ? 'bg-blue-200/60'
+                    : isMarked
+                      ? `bg-green-300/50 shadow-md transform scale-105 ${isPattern ? 'ring-2 ring-yellow-300' : ''}`
+                      : isPattern
+                        ? 'bg-green-200/50'
+                        : 'bg-white'
+                  }
+                `}
+              >
+                {isFree ? 'FREE' : number}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {patternHighlight && (
+        <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded text-center">
+          <p className="text-xs text-blue-800 font-medium">
+            🎯 Winning Pattern: {getPatternName(patternHighlight)}
+          </p>
+          <p className="text-xs text-blue-600 mt-1">
+            {getPatternDescription(patternHighlight)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,3 @@
+-- Remember which bundled ticket set a game's tickets were seeded from
+alter table public.games
+  add column if not exists ticket_set_id text default '1';
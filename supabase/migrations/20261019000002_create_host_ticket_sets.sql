@@ -0,0 +1,19 @@
+-- Ticket sets uploaded by hosts from their own printed books
+create table if not exists public.host_ticket_sets (
+  id uuid primary key default gen_random_uuid(),
+  host_id uuid not null references public.hosts(id) on delete cascade,
+  name text not null,
+  ticket_count integer not null,
+  rows jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists host_ticket_sets_host_id_idx on public.host_ticket_sets (host_id);
+
+alter table public.host_ticket_sets enable row level security;
+
+create policy "Hosts manage their own ticket sets"
+  on public.host_ticket_sets
+  for all
+  using (auth.uid() = host_id)
+  with check (auth.uid() = host_id);
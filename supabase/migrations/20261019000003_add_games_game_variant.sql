@@ -0,0 +1,4 @@
+-- 90-ball Tambola or 75-ball bingo; existing games are 90-ball
+alter table public.games
+  add column if not exists game_variant text not null default '90-ball'
+  check (game_variant in ('90-ball', '75-ball'));
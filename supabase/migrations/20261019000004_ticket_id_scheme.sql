@@ -0,0 +1,8 @@
+-- How ticket IDs are shown: plain ("7"), zero-padded ("007"), set + position ("S2-1")
+-- or a custom prefix ("T7"). tickets.ticket_id itself stays the plain number.
+alter table public.games
+  add column if not exists ticket_id_scheme text not null default 'plain'
+  check (ticket_id_scheme in ('plain', 'padded', 'set-position', 'prefix'));
+
+alter table public.games
+  add column if not exists ticket_id_prefix text;
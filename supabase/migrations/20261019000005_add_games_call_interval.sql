@@ -0,0 +1,4 @@
+-- Milliseconds between called numbers, read by the server-side number caller
+alter table public.games
+  add column if not exists call_interval integer not null default 8000
+  check (call_interval >= 2000);
@@ -0,0 +1,173 @@
+-- Commit-reveal draws: the call order is kept out of games.session_numbers
+-- until the game has finished. games.session_metadata carries the published
+-- SHA-256 commitment; the seed and sequence live in game_draws, which has RLS
+-- enabled and no policies, so only the functions below can read it.
+create table if not exists public.game_draws (
+  game_id uuid primary key references public.games(id) on delete cascade,
+  seed text not null,
+  session_numbers integer[] not null,
+  created_at timestamptz not null default now(),
+  revealed_at timestamptz
+);
+
+alter table public.game_draws enable row level security;
+
+-- Host-only (or service role) access to a game's draw
+create or replace function public.can_manage_game_draw(target_game_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(auth.role(), '') = 'service_role'
+    or exists (select 1 from public.games g where g.id = target_game_id and g.host_id = auth.uid());
+$$;
+
+-- Stores the secret draw and publishes its commitment, clearing any sequence
+-- left in games.session_numbers
+create or replace function public.commit_game_draw(
+  game_id uuid,
+  seed text,
+  numbers integer[],
+  session_metadata jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_manage_game_draw(commit_game_draw.game_id) then
+    raise exception 'Not allowed to commit a draw for this game';
+  end if;
+
+  insert into public.game_draws (game_id, seed, session_numbers)
+  values (commit_game_draw.game_id, commit_game_draw.seed, commit_game_draw.numbers)
+  on conflict on constraint game_draws_pkey do update
+    set seed = excluded.seed,
+        session_numbers = excluded.session_numbers,
+        created_at = now(),
+        revealed_at = null;
+
+  update public.games g
+  set session_numbers = '{}',
+      session_metadata = commit_game_draw.session_metadata
+  where g.id = commit_game_draw.game_id;
+end;
+$$;
+
+-- Publishes the seed and sequence of a finished game. Safe to call twice
+create or replace function public.reveal_game_draw(game_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_draw public.game_draws%rowtype;
+begin
+  if not public.can_manage_game_draw(reveal_game_draw.game_id) then
+    raise exception 'Not allowed to reveal the draw for this game';
+  end if;
+
+  select * into v_draw from public.game_draws d where d.game_id = reveal_game_draw.game_id;
+  if not found then
+    return;
+  end if;
+
+  if not exists (select 1 from public.games g where g.id = reveal_game_draw.game_id and g.status = 'finished') then
+    raise exception 'The draw can only be revealed once the game has finished';
+  end if;
+
+  update public.game_draws d
+  set revealed_at = coalesce(d.revealed_at, now())
+  where d.game_id = reveal_game_draw.game_id
+  returning * into v_draw;
+
+  update public.games g
+  set session_numbers = v_draw.session_numbers,
+      session_metadata = coalesce(g.session_metadata, '{}'::jsonb)
+        || jsonb_build_object('seed', v_draw.seed, 'revealedAt', v_draw.revealed_at)
+  where g.id = reveal_game_draw.game_id;
+end;
+$$;
+
+-- call_next_number now reads the committed draw, falling back to
+-- games.session_numbers for games started before commitments. The last number
+-- finishes the game and reveals the draw.
+drop function if exists public.call_next_number(uuid);
+
+create function public.call_next_number(game_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_game public.games%rowtype;
+  v_numbers integer[];
+  v_called jsonb;
+  v_total_called integer;
+  v_number integer;
+  v_game_over boolean;
+begin
+  if not public.can_manage_game_draw(call_next_number.game_id) then
+    raise exception 'Not allowed to call numbers for this game';
+  end if;
+
+  select * into v_game from public.games g where g.id = call_next_number.game_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'number', null, 'game_over', false,
+      'message', 'Game not found', 'total_called', 0);
+  end if;
+
+  v_called := coalesce(v_game.game_state -> 'calledNumbers', '[]'::jsonb);
+  v_total_called := jsonb_array_length(v_called);
+
+  if v_game.status <> 'active' or coalesce((v_game.game_state ->> 'gameOver')::boolean, false) then
+    return jsonb_build_object('success', false, 'number', null,
+      'game_over', coalesce((v_game.game_state ->> 'gameOver')::boolean, false),
+      'message', 'Game is not active', 'total_called', v_total_called);
+  end if;
+
+  select d.session_numbers into v_numbers from public.game_draws d where d.game_id = call_next_number.game_id;
+  v_numbers := coalesce(v_numbers, v_game.session_numbers, '{}');
+
+  if v_total_called >= coalesce(array_length(v_numbers, 1), 0) then
+    return jsonb_build_object('success', false, 'number', null, 'game_over', true,
+      'message', 'All numbers called', 'total_called', v_total_called);
+  end if;
+
+  v_number := v_numbers[v_total_called + 1];
+  v_total_called := v_total_called + 1;
+  v_game_over := v_total_called >= array_length(v_numbers, 1);
+
+  update public.games g
+  set game_state = g.game_state || jsonb_build_object(
+        'calledNumbers', v_called || to_jsonb(v_number),
+        'currentNumber', v_number,
+        'totalNumbersCalled', v_total_called,
+        'gameOver', v_game_over,
+        'isActive', not v_game_over
+      ),
+      status = case when v_game_over then 'finished' else g.status end,
+      ended_at = case when v_game_over then now() else g.ended_at end
+  where g.id = call_next_number.game_id;
+
+  if v_game_over then
+    perform public.reveal_game_draw(call_next_number.game_id);
+  end if;
+
+  return jsonb_build_object('success', true, 'number', v_number, 'game_over', v_game_over,
+    'message', case when v_game_over then 'All numbers called' else 'Number called' end,
+    'total_called', v_total_called);
+end;
+$$;
+
+revoke all on function public.commit_game_draw(uuid, text, integer[], jsonb) from public, anon;
+revoke all on function public.reveal_game_draw(uuid) from public, anon;
+revoke all on function public.call_next_number(uuid) from public, anon;
+grant execute on function public.commit_game_draw(uuid, text, integer[], jsonb) to authenticated, service_role;
+grant execute on function public.reveal_game_draw(uuid) to authenticated, service_role;
+grant execute on function public.call_next_number(uuid) to authenticated, service_role;
@@ -0,0 +1,80 @@
+-- Manual calling: hosts draw from a physical drum and enter each number.
+-- Manual games have no pre-generated sequence and are skipped by the
+-- server-side number caller.
+alter table public.games
+  add column if not exists calling_mode text not null default 'automatic'
+  check (calling_mode in ('automatic', 'manual'));
+
+-- Records a number the host drew by hand. Rejects numbers out of range or
+-- already called; the last number finishes the game.
+create or replace function public.call_manual_number(game_id uuid, number integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_game public.games%rowtype;
+  v_called jsonb;
+  v_total_called integer;
+  v_total_numbers integer;
+  v_game_over boolean;
+begin
+  if not public.can_manage_game_draw(call_manual_number.game_id) then
+    raise exception 'Not allowed to call numbers for this game';
+  end if;
+
+  select * into v_game from public.games g where g.id = call_manual_number.game_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'number', null, 'game_over', false,
+      'message', 'Game not found', 'total_called', 0);
+  end if;
+
+  v_called := coalesce(v_game.game_state -> 'calledNumbers', '[]'::jsonb);
+  v_total_called := jsonb_array_length(v_called);
+  v_total_numbers := case when v_game.game_variant = '75-ball' then 75 else 90 end;
+
+  if v_game.calling_mode <> 'manual' then
+    return jsonb_build_object('success', false, 'number', null, 'game_over', false,
+      'message', 'Game is not in manual calling mode', 'total_called', v_total_called);
+  end if;
+
+  if v_game.status <> 'active' or coalesce((v_game.game_state ->> 'gameOver')::boolean, false) then
+    return jsonb_build_object('success', false, 'number', null,
+      'game_over', coalesce((v_game.game_state ->> 'gameOver')::boolean, false),
+      'message', 'Game is not active', 'total_called', v_total_called);
+  end if;
+
+  if call_manual_number.number < 1 or call_manual_number.number > v_total_numbers then
+    return jsonb_build_object('success', false, 'number', call_manual_number.number, 'game_over', false,
+      'message', format('Numbers go from 1 to %s', v_total_numbers), 'total_called', v_total_called);
+  end if;
+
+  if v_called @> to_jsonb(call_manual_number.number) then
+    return jsonb_build_object('success', false, 'number', call_manual_number.number, 'game_over', false,
+      'message', format('%s has already been called', call_manual_number.number), 'total_called', v_total_called);
+  end if;
+
+  v_total_called := v_total_called + 1;
+  v_game_over := v_total_called >= v_total_numbers;
+
+  update public.games g
+  set game_state = g.game_state || jsonb_build_object(
+        'calledNumbers', v_called || to_jsonb(call_manual_number.number),
+        'currentNumber', call_manual_number.number,
+        'totalNumbersCalled', v_total_called,
+        'gameOver', v_game_over,
+        'isActive', not v_game_over
+      ),
+      status = case when v_game_over then 'finished' else g.status end,
+      ended_at = case when v_game_over then now() else g.ended_at end
+  where g.id = call_manual_number.game_id;
+
+  return jsonb_build_object('success', true, 'number', call_manual_number.number, 'game_over', v_game_over,
+    'message', case when v_game_over then 'All numbers called' else 'Number called' end,
+    'total_called', v_total_called);
+end;
+$$;
+
+revoke all on function public.call_manual_number(uuid, integer) from public, anon;
+grant execute on function public.call_manual_number(uuid, integer) to authenticated, service_role;
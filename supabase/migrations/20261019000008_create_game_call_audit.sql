@@ -0,0 +1,115 @@
+-- Undo of the last called number, with an audit trail of every correction
+create table if not exists public.game_call_audit (
+  id uuid primary key default gen_random_uuid(),
+  game_id uuid not null references public.games(id) on delete cascade,
+  action text not null check (action in ('undo_call')),
+  number integer not null,
+  -- 1-based position of the number in calledNumbers before it was removed
+  call_index integer not null,
+  reason text not null,
+  reverted_prizes jsonb not null default '[]'::jsonb,
+  performed_by uuid references auth.users(id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists game_call_audit_game_id_idx on public.game_call_audit (game_id, created_at);
+
+alter table public.game_call_audit enable row level security;
+
+-- Corrections are public like the rest of the game; entries are only written by undo_last_call
+create policy "Anyone can read call corrections"
+  on public.game_call_audit
+  for select
+  using (true);
+
+-- Removes the last called number from a paused game, reverts prizes won on
+-- it and records who did it and why. In automatic games the committed draw is
+-- unchanged, so the same number is called again next.
+create or replace function public.undo_last_call(game_id uuid, reason text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_game public.games%rowtype;
+  v_called jsonb;
+  v_total_called integer;
+  v_number integer;
+  v_remaining jsonb;
+  v_reverted jsonb;
+  v_corrected_at timestamptz := now();
+begin
+  if not public.can_manage_game_draw(undo_last_call.game_id) then
+    raise exception 'Not allowed to correct calls for this game';
+  end if;
+
+  if coalesce(btrim(undo_last_call.reason), '') = '' then
+    return jsonb_build_object('success', false, 'message', 'A reason is required to undo a call');
+  end if;
+
+  select * into v_game from public.games g where g.id = undo_last_call.game_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'message', 'Game not found');
+  end if;
+
+  if v_game.status <> 'paused' then
+    return jsonb_build_object('success', false, 'message', 'Pause the game before undoing a call');
+  end if;
+
+  v_called := coalesce(v_game.game_state -> 'calledNumbers', '[]'::jsonb);
+  v_total_called := jsonb_array_length(v_called);
+
+  if v_total_called = 0 then
+    return jsonb_build_object('success', false, 'message', 'No numbers have been called');
+  end if;
+
+  v_number := (v_called ->> (v_total_called - 1))::integer;
+  v_remaining := v_called - (v_total_called - 1);
+
+  -- Prizes that fell on the removed number go back into play
+  with reverted as (
+    update public.prizes p
+    set won = false,
+        winners = '[]'::jsonb,
+        winning_number = null,
+        won_at = null
+    where p.game_id = undo_last_call.game_id
+      and p.won
+      and p.winning_number = v_number
+    returning p.id, p.name
+  )
+  select coalesce(jsonb_agg(jsonb_build_object('id', r.id, 'name', r.name)), '[]'::jsonb)
+  into v_reverted
+  from reverted r;
+
+  update public.games g
+  set game_state = g.game_state || jsonb_build_object(
+        'calledNumbers', v_remaining,
+        'currentNumber', case when v_total_called > 1 then v_remaining -> (v_total_called - 2) else 'null'::jsonb end,
+        'totalNumbersCalled', v_total_called - 1,
+        'gameOver', false,
+        'lastCorrection', jsonb_build_object(
+          'number', v_number,
+          'reason', btrim(undo_last_call.reason),
+          'correctedAt', v_corrected_at,
+          'callsAfter', v_total_called - 1,
+          'revertedPrizes', v_reverted
+        )
+      )
+  where g.id = undo_last_call.game_id;
+
+  insert into public.game_call_audit (game_id, action, number, call_index, reason, reverted_prizes, performed_by, created_at)
+  values (undo_last_call.game_id, 'undo_call', v_number, v_total_called, btrim(undo_last_call.reason), v_reverted, auth.uid(), v_corrected_at);
+
+  return jsonb_build_object(
+    'success', true,
+    'number', v_number,
+    'reverted_prizes', v_reverted,
+    'message', format('%s removed from the called numbers', v_number)
+  );
+end;
+$$;
+
+revoke all on function public.undo_last_call(uuid, text) from public, anon;
+grant execute on function public.undo_last_call(uuid, text) to authenticated, service_role;
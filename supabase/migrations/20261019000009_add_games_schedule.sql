@@ -0,0 +1,12 @@
+-- Scheduled games: the countdown starts countdown_seconds before
+-- scheduled_start_at and the game goes live at that time, without the host
+-- pressing start. Countdowns are shown from game_state.countdownEndsAt.
+alter table public.games
+  add column if not exists scheduled_start_at timestamptz,
+  add column if not exists countdown_seconds integer not null default 10
+  check (countdown_seconds between 5 and 600);
+
+-- The server-side caller looks for due games every tick
+create index if not exists games_scheduled_start_at_idx
+  on public.games (scheduled_start_at)
+  where status = 'setup' and scheduled_start_at is not null;
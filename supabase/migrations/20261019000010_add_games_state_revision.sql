@@ -0,0 +1,28 @@
+-- Optimistic concurrency for games: state_revision goes up by one whenever
+-- game_state or status changes, however the row is written (client updates
+-- and RPCs alike). Read-merge-write updates filter on the revision they read,
+-- so a write based on stale state matches no row instead of erasing a called
+-- number.
+alter table public.games
+  add column if not exists state_revision bigint not null default 0;
+
+create or replace function public.bump_game_state_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.game_state is distinct from old.game_state or new.status is distinct from old.status then
+    new.state_revision := old.state_revision + 1;
+  else
+    -- Clients can't move the revision themselves
+    new.state_revision := old.state_revision;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists games_bump_state_revision on public.games;
+create trigger games_bump_state_revision
+  before update on public.games
+  for each row
+  execute function public.bump_game_state_revision();
@@ -0,0 +1,6 @@
+-- Hold-for-claims games: when a prize is won the game pauses with the
+-- winners in game_state.claimCheck, and calling resumes once the host has
+-- confirmed or rejected every claim. Off by default, like a caller who
+-- doesn't stop for shouts.
+alter table public.games
+  add column if not exists hold_for_claims boolean not null default false;
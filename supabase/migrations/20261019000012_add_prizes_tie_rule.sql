@@ -0,0 +1,7 @@
+-- Tie rules: what happens when several tickets complete a prize on the same
+-- number. tie_break records how the last tie was settled - for a random draw
+-- the seed, so anyone can re-run it and get the same winner.
+alter table public.prizes
+  add column if not exists tie_rule text not null default 'share'
+  check (tie_rule in ('share', 'first-booked', 'random-draw', 'all-win')),
+  add column if not exists tie_break jsonb;
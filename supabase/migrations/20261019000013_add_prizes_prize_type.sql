@@ -0,0 +1,33 @@
+-- Stable prize type keys. Prizes are keyed by UUID, so the prize engine
+-- finds a prize's validator through prize_type ('fullHouse', 'bingoRow', ...)
+-- rather than its id. rule_params holds per-prize settings for the type's rule.
+alter table public.prizes
+  add column if not exists prize_type text,
+  add column if not exists rule_params jsonb not null default '{}'::jsonb;
+
+-- Existing prizes were created from the built-in catalogue - recover the type
+-- from the name they were given
+update public.prizes
+set prize_type = case lower(trim(name))
+    when 'full house' then 'fullHouse'
+    when 'second full house' then 'secondFullHouse'
+    when 'full sheet' then 'fullSheet'
+    when 'half sheet' then 'halfSheet'
+    when 'star corner' then 'starCorner'
+    when 'four corners' then 'corners'
+    when 'corners' then 'corners'
+    when 'top line' then 'topLine'
+    when 'middle line' then 'middleLine'
+    when 'bottom line' then 'bottomLine'
+    when 'early five' then 'earlyFive'
+    when 'quick five' then 'earlyFive'
+    when 'any row' then 'bingoRow'
+    when 'any column' then 'bingoColumn'
+    when 'diagonal' then 'bingoDiagonal'
+    when 'letter x' then 'bingoX'
+    when 'blackout' then 'blackout'
+  end
+where prize_type is null;
+
+create index if not exists prizes_game_id_prize_type_idx
+  on public.prizes (game_id, prize_type);
@@ -0,0 +1,49 @@
+-- A draw can only be committed before calling starts. Replacing the seed and
+-- sequence (and with them the published commitment) after numbers have been
+-- called would let the call order be changed while the verification page
+-- still passes.
+create or replace function public.commit_game_draw(
+  game_id uuid,
+  seed text,
+  numbers integer[],
+  session_metadata jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_game public.games%rowtype;
+begin
+  if not public.can_manage_game_draw(commit_game_draw.game_id) then
+    raise exception 'Not allowed to commit a draw for this game';
+  end if;
+
+  -- Locked so a number can't be called while the draw is being replaced
+  select * into v_game from public.games g where g.id = commit_game_draw.game_id for update;
+  if not found then
+    raise exception 'Game not found';
+  end if;
+
+  if v_game.status not in ('setup', 'countdown')
+    or jsonb_array_length(coalesce(v_game.game_state -> 'calledNumbers', '[]'::jsonb)) > 0 then
+    raise exception 'The draw can only be committed before numbers are called';
+  end if;
+
+  insert into public.game_draws (game_id, seed, session_numbers)
+  values (commit_game_draw.game_id, commit_game_draw.seed, commit_game_draw.numbers)
+  on conflict on constraint game_draws_pkey do update
+    set seed = excluded.seed,
+        session_numbers = excluded.session_numbers,
+        created_at = now(),
+        revealed_at = null
+    -- A revealed draw belongs to a finished game and is never replaced
+    where public.game_draws.revealed_at is null;
+
+  update public.games g
+  set session_numbers = '{}',
+      session_metadata = commit_game_draw.session_metadata
+  where g.id = commit_game_draw.game_id;
+end;
+$$;